@@ -0,0 +1,16 @@
+import { getServerGameRepository } from '@/lib/server';
+import { readMutationBody, respond } from '@/lib/server/http';
+import { toPlayoffInput } from '@/lib/server/request-validation';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  return respond(async () => {
+    const { input, options } = await readMutationBody(request, toPlayoffInput);
+    return getServerGameRepository().addPlayoff(id, input, options);
+  });
+}
@@ -0,0 +1,16 @@
+import { getServerGameRepository } from '@/lib/server';
+import { readMutationBody, respond } from '@/lib/server/http';
+import { toPodridaBetsInput } from '@/lib/server/request-validation';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  return respond(async () => {
+    const { input, options } = await readMutationBody(request, toPodridaBetsInput);
+    return getServerGameRepository().setPodridaBets(id, input, options);
+  });
+}
@@ -0,0 +1,15 @@
+import { getServerGameRepository } from '@/lib/server';
+import { readOptionsBody, respond } from '@/lib/server/http';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  return respond(async () => {
+    const options = await readOptionsBody(request);
+    return getServerGameRepository().reopenGame(id, options);
+  });
+}
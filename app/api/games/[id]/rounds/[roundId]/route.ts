@@ -0,0 +1,24 @@
+import { getServerGameRepository } from '@/lib/server';
+import { readMutationBody, readOptionsFromQuery, respond } from '@/lib/server/http';
+import { toRoundInput } from '@/lib/server/request-validation';
+
+interface RouteContext {
+  params: Promise<{ id: string; roundId: string }>;
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id, roundId } = await params;
+
+  return respond(async () => {
+    const { input, options } = await readMutationBody(request, toRoundInput);
+    return getServerGameRepository().updateRound(id, roundId, input, options);
+  });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id, roundId } = await params;
+
+  return respond(() =>
+    getServerGameRepository().deleteRound(id, roundId, readOptionsFromQuery(request))
+  );
+}
@@ -0,0 +1,27 @@
+import { getServerGameRepository } from '@/lib/server';
+import { readOptionsFromQuery, respond } from '@/lib/server/http';
+import { GameNotFoundError } from '@/lib/storage/errors';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  return respond(async () => {
+    const game = await getServerGameRepository().getGameById(id);
+
+    if (!game) {
+      throw new GameNotFoundError();
+    }
+
+    return game;
+  });
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  return respond(() => getServerGameRepository().deleteGame(id, readOptionsFromQuery(request)));
+}
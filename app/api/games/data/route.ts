@@ -0,0 +1,16 @@
+import { getServerGameRepository } from '@/lib/server';
+import { readJsonBody, respond } from '@/lib/server/http';
+import { ImportRequestBody } from '@/lib/storage/api-contract';
+import { readBackup } from '@/lib/storage/backup';
+
+export async function GET() {
+  return respond(() => getServerGameRepository().getAppData());
+}
+
+export async function POST(request: Request) {
+  return respond(async () => {
+    const { backup, strategy } = await readJsonBody<ImportRequestBody>(request);
+    const data = readBackup(backup);
+    return getServerGameRepository().importAppData(data, strategy === 'replace' ? 'replace' : 'merge');
+  });
+}
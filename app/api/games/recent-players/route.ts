@@ -0,0 +1,13 @@
+import { getServerGameRepository } from '@/lib/server';
+import { respond } from '@/lib/server/http';
+
+export async function GET(request: Request) {
+  return respond(() => {
+    const rawLimit = new URL(request.url).searchParams.get('limit');
+    const limit = rawLimit === null ? undefined : Number(rawLimit);
+
+    return getServerGameRepository().getRecentPlayers(
+      limit !== undefined && Number.isInteger(limit) && limit > 0 ? limit : undefined
+    );
+  });
+}
@@ -0,0 +1,14 @@
+import { getServerGameRepository } from '@/lib/server';
+import { readJsonBody, respond } from '@/lib/server/http';
+import { toCreateGameInput } from '@/lib/server/request-validation';
+
+export async function GET() {
+  return respond(() => getServerGameRepository().getGames());
+}
+
+export async function POST(request: Request) {
+  return respond(async () => {
+    const input = toCreateGameInput(await readJsonBody(request));
+    return getServerGameRepository().createGame(input);
+  }, 201);
+}
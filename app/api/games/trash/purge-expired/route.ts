@@ -0,0 +1,12 @@
+import { getServerGameRepository } from '@/lib/server';
+import { respond } from '@/lib/server/http';
+import { PurgeExpiredResponseBody } from '@/lib/storage/api-contract';
+import { getTrashRetentionDays } from '@/lib/utils/trash';
+
+// The retention a client sends is ignored: the shared trash always uses the configured one, so a
+// device can't purge games the others still expect to restore.
+export async function POST() {
+  return respond(async (): Promise<PurgeExpiredResponseBody> => ({
+    purgedCount: await getServerGameRepository().purgeExpiredGames(getTrashRetentionDays())
+  }));
+}
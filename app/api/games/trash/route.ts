@@ -0,0 +1,6 @@
+import { getServerGameRepository } from '@/lib/server';
+import { respond } from '@/lib/server/http';
+
+export async function GET() {
+  return respond(() => getServerGameRepository().getDeletedGames());
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import {
+  createSessionValue,
+  isSameSecret,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS
+} from '@/lib/server/session';
+import { ApiErrorBody, SessionRequestBody } from '@/lib/storage/api-contract';
+
+// Trades SCORES_API_TOKEN for an httpOnly session cookie. `middleware.ts` only lets this route
+// through when the server driver is configured.
+export async function POST(request: Request) {
+  const apiToken = process.env.SCORES_API_TOKEN ?? '';
+  const body = (await request.json().catch(() => null)) as Partial<SessionRequestBody> | null;
+  const token = typeof body?.token === 'string' ? body.token : '';
+
+  if (!apiToken || !token || !isSameSecret(token, apiToken)) {
+    return NextResponse.json<ApiErrorBody>({ error: 'La clave no es correcta.' }, { status: 401 });
+  }
+
+  const protocol = request.headers.get('x-forwarded-proto') ?? new URL(request.url).protocol;
+  const response = NextResponse.json(null);
+  response.cookies.set(SESSION_COOKIE, await createSessionValue(apiToken), {
+    httpOnly: true,
+    sameSite: 'lax',
+    // Self-hosted setups on a local network often use plain http, where a secure cookie is dropped.
+    secure: protocol.startsWith('https'),
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS
+  });
+
+  return response;
+}
@@ -0,0 +1,221 @@
+'use client';
+
+import { ChangeEvent, useState } from 'react';
+import {
+  createBackup,
+  getBackupFileName,
+  ImportPreview,
+  parseBackup,
+  previewImport
+} from '@/lib/storage/backup';
+import { GameRepository } from '@/lib/storage/repository';
+import { AppData, ImportStrategy } from '@/lib/types';
+import { gamesToCsv, getGamesCsvFileName } from '@/lib/utils/csv';
+import { downloadTextFile } from '@/lib/utils/download';
+import { getGameDisplayName } from '@/lib/utils/game';
+
+interface BackupPanelProps {
+  repository: GameRepository;
+  onImported: () => Promise<void>;
+}
+
+interface PendingImport {
+  fileName: string;
+  data: AppData;
+  preview: ImportPreview;
+  currentGamesCount: number;
+}
+
+const PREVIEW_NAMES_LIMIT = 5;
+
+export function BackupPanel({ repository, onImported }: BackupPanelProps) {
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [strategy, setStrategy] = useState<ImportStrategy>('merge');
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setError(null);
+    setMessage(null);
+    setIsExporting(true);
+
+    try {
+      const data = await repository.getAppData();
+      const backup = createBackup(data);
+
+      downloadTextFile(getBackupFileName(), JSON.stringify(backup, null, 2), 'application/json');
+      setMessage(`Respaldo exportado con ${data.games.length} partidas.`);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : 'No se pudo exportar el respaldo.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportCsv = async () => {
+    setError(null);
+    setMessage(null);
+
+    try {
+      const games = await repository.getGames();
+      downloadTextFile(getGamesCsvFileName(), gamesToCsv(games), 'text/csv;charset=utf-8');
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : 'No se pudo exportar la lista de partidas.');
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+
+    if (!file) {
+      return;
+    }
+
+    setError(null);
+    setMessage(null);
+    setPendingImport(null);
+
+    try {
+      const data = parseBackup(await file.text());
+      const current = await repository.getAppData();
+
+      setStrategy('merge');
+      setPendingImport({
+        fileName: file.name,
+        data,
+        preview: previewImport(current, data),
+        currentGamesCount: current.games.length
+      });
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : 'No se pudo leer el respaldo.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pendingImport) {
+      return;
+    }
+
+    if (strategy === 'replace') {
+      const shouldReplace = window.confirm(
+        `¿Seguro que quieres reemplazar tus ${pendingImport.currentGamesCount} partidas por las del respaldo? Esta acción no se puede deshacer.`
+      );
+
+      if (!shouldReplace) {
+        return;
+      }
+    }
+
+    setError(null);
+    setIsImporting(true);
+
+    try {
+      const result = await repository.importAppData(pendingImport.data, strategy);
+
+      setPendingImport(null);
+      setMessage(`Respaldo importado. Ahora tienes ${result.games.length} partidas.`);
+      await onImported();
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : 'No se pudo importar el respaldo.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const preview = pendingImport?.preview;
+
+  return (
+    <section className="panel">
+      <h2>Respaldo</h2>
+      <p className="hint">
+        Exporta todas tus partidas a un archivo JSON para guardarlas o pasarlas a otro dispositivo,
+        o descarga la lista de partidas en CSV para una planilla.
+      </p>
+
+      <div className="row-actions">
+        <button
+          type="button"
+          className="secondary"
+          onClick={() => void handleExport()}
+          disabled={isExporting}
+        >
+          {isExporting ? 'Exportando...' : 'Exportar respaldo'}
+        </button>
+        <button type="button" className="secondary" onClick={() => void handleExportCsv()}>
+          Exportar lista CSV
+        </button>
+        <label className="secondary inline-btn file-btn">
+          Importar respaldo
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="sr-only"
+            onChange={(event) => void handleFileChange(event)}
+          />
+        </label>
+      </div>
+
+      {pendingImport && preview && (
+        <div className="stack-sm backup-preview">
+          <h3>Vista previa: {pendingImport.fileName}</h3>
+          <ul className="backup-preview-list">
+            <li>Partidas en el archivo: {preview.totalGames}</li>
+            <li>Nuevas: {preview.newGames.length}</li>
+            <li>Con cambios más recientes: {preview.updatedGames.length}</li>
+            <li>Sin cambios: {preview.unchangedGames.length}</li>
+            <li>Jugadores recientes: {preview.recentPlayersCount}</li>
+          </ul>
+
+          {preview.newGames.length > 0 && (
+            <p className="hint">
+              Nuevas:{' '}
+              {preview.newGames
+                .slice(0, PREVIEW_NAMES_LIMIT)
+                .map((game) => getGameDisplayName(game))
+                .join(', ')}
+              {preview.newGames.length > PREVIEW_NAMES_LIMIT &&
+                ` y ${preview.newGames.length - PREVIEW_NAMES_LIMIT} más`}
+            </p>
+          )}
+
+          <label className="field">
+            <span>Cómo importar</span>
+            <select
+              value={strategy}
+              onChange={(event) => setStrategy(event.target.value as ImportStrategy)}
+            >
+              <option value="merge">Combinar con mis partidas</option>
+              <option value="replace">Reemplazar todo</option>
+            </select>
+          </label>
+
+          <p className="hint">
+            {strategy === 'merge'
+              ? 'Se agregan las partidas nuevas y se actualizan las que tienen cambios más recientes. No se duplican partidas.'
+              : `Se borran tus ${pendingImport.currentGamesCount} partidas actuales y se reemplazan por las ${preview.totalGames} del respaldo.`}
+          </p>
+
+          <div className="row-actions">
+            <button
+              type="button"
+              className={strategy === 'replace' ? 'danger' : 'primary'}
+              onClick={() => void handleImport()}
+              disabled={isImporting}
+            >
+              {isImporting ? 'Importando...' : 'Importar'}
+            </button>
+            <button type="button" className="secondary" onClick={() => setPendingImport(null)}>
+              Cancelar
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="hint">{message}</p>}
+      {error && <p className="error">{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { BurakoSettings } from '@/lib/types';
+import { DEFAULT_TEAM_NAMES } from '@/lib/utils/game';
+import {
+  BURAKO_CLEAN_CANASTA_POINTS,
+  BURAKO_CLOSING_BONUS,
+  BURAKO_DIRTY_CANASTA_POINTS,
+  DEFAULT_BURAKO_SETTINGS
+} from '@/lib/utils/burako';
+
+export interface BurakoSettingsDraft {
+  target: string;
+}
+
+interface BurakoSettingsFieldsProps {
+  value: BurakoSettingsDraft;
+  onChange: (value: BurakoSettingsDraft) => void;
+}
+
+export function createBurakoSettingsDraft(): BurakoSettingsDraft {
+  return {
+    target: String(DEFAULT_BURAKO_SETTINGS.target)
+  };
+}
+
+export function toBurakoSettingsInput(draft: BurakoSettingsDraft): Partial<BurakoSettings> {
+  return {
+    target: draft.target.trim() === '' ? undefined : Number(draft.target)
+  };
+}
+
+export function BurakoSettingsFields({ value, onChange }: BurakoSettingsFieldsProps) {
+  return (
+    <div className="stack-sm">
+      <label className="field">
+        <span>Gana el equipo que llega a</span>
+        <input
+          type="number"
+          inputMode="numeric"
+          min={1}
+          step={1}
+          value={value.target}
+          onChange={(event) => onChange({ ...value, target: event.target.value })}
+        />
+      </label>
+      <p className="hint">
+        Se juega de a 2, 4 o 6 en dos equipos alternando el orden en la mesa ({DEFAULT_TEAM_NAMES[0]}{' '}
+        y {DEFAULT_TEAM_NAMES[1]}). Canasta limpia {BURAKO_CLEAN_CANASTA_POINTS}, sucia{' '}
+        {BURAKO_DIRTY_CANASTA_POINTS} y cortar {BURAKO_CLOSING_BONUS}.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { ChinchonSettings } from '@/lib/types';
+import { CHINCHON_CLOSING_BONUS, DEFAULT_CHINCHON_SETTINGS } from '@/lib/utils/chinchon';
+
+export interface ChinchonSettingsDraft {
+  eliminationScore: string;
+  allowReentry: boolean;
+}
+
+interface ChinchonSettingsFieldsProps {
+  value: ChinchonSettingsDraft;
+  onChange: (value: ChinchonSettingsDraft) => void;
+}
+
+export function createChinchonSettingsDraft(): ChinchonSettingsDraft {
+  return {
+    eliminationScore: String(DEFAULT_CHINCHON_SETTINGS.eliminationScore),
+    allowReentry: DEFAULT_CHINCHON_SETTINGS.allowReentry
+  };
+}
+
+export function toChinchonSettingsInput(draft: ChinchonSettingsDraft): Partial<ChinchonSettings> {
+  return {
+    eliminationScore:
+      draft.eliminationScore.trim() === '' ? undefined : Number(draft.eliminationScore),
+    allowReentry: draft.allowReentry
+  };
+}
+
+export function ChinchonSettingsFields({ value, onChange }: ChinchonSettingsFieldsProps) {
+  return (
+    <div className="stack-sm">
+      <label className="field">
+        <span>Queda eliminado al pasar de</span>
+        <input
+          type="number"
+          inputMode="numeric"
+          min={1}
+          step={1}
+          value={value.eliminationScore}
+          onChange={(event) => onChange({ ...value, eliminationScore: event.target.value })}
+        />
+      </label>
+      <label className="field">
+        <span>Reenganche</span>
+        <select
+          value={value.allowReentry ? 'allowed' : 'off'}
+          onChange={(event) => onChange({ ...value, allowReentry: event.target.value === 'allowed' })}
+        >
+          <option value="allowed">Se permite, con el puntaje más alto en juego</option>
+          <option value="off">No se permite</option>
+        </select>
+      </label>
+      <p className="hint">
+        Cortar con 0 puntos suma {CHINCHON_CLOSING_BONUS}. El chinchón gana la partida y, si no,
+        gana el último jugador que queda en juego.
+      </p>
+    </div>
+  );
+}
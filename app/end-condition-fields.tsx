@@ -0,0 +1,68 @@
+'use client';
+
+import { EndCondition } from '@/lib/types';
+
+export type EndConditionDraftType = 'none' | 'target-score' | 'round-limit';
+
+export interface EndConditionDraft {
+  type: EndConditionDraftType;
+  value: string;
+}
+
+interface EndConditionFieldsProps {
+  value: EndConditionDraft;
+  onChange: (value: EndConditionDraft) => void;
+}
+
+export function createEndConditionDraft(): EndConditionDraft {
+  return {
+    type: 'none',
+    value: ''
+  };
+}
+
+export function toEndConditionInput(draft: EndConditionDraft): EndCondition | undefined {
+  if (draft.type === 'target-score') {
+    return { type: 'target-score', target: Number(draft.value) };
+  }
+
+  if (draft.type === 'round-limit') {
+    return { type: 'round-limit', rounds: Number(draft.value) };
+  }
+
+  return undefined;
+}
+
+export function EndConditionFields({ value, onChange }: EndConditionFieldsProps) {
+  return (
+    <div className="stack-sm">
+      <label className="field">
+        <span>Fin de la partida</span>
+        <select
+          value={value.type}
+          onChange={(event) =>
+            onChange({ ...value, type: event.target.value as EndConditionDraftType })
+          }
+        >
+          <option value="none">Terminar a mano</option>
+          <option value="target-score">Al llegar a un puntaje</option>
+          <option value="round-limit">Después de una cantidad de rondas</option>
+        </select>
+      </label>
+      {value.type !== 'none' && (
+        <label className="field">
+          <span>{value.type === 'target-score' ? 'Puntaje objetivo' : 'Cantidad de rondas'}</span>
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            step={value.type === 'round-limit' ? 1 : 'any'}
+            value={value.value}
+            onChange={(event) => onChange({ ...value, value: event.target.value })}
+            required
+          />
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { BurakoScoreParts, Game, Round, RoundInput } from '@/lib/types';
+import { getTeamTotals } from '@/lib/utils/game';
+import {
+  getBurakoBreakdownLabel,
+  getBurakoNetScore,
+  getBurakoSettings
+} from '@/lib/utils/burako';
+
+interface BurakoBoardProps {
+  game: Game;
+  isEditable: boolean;
+  isSaving: boolean;
+  isSavingEdit: boolean;
+  deletingRoundId: string | null;
+  error: string | null;
+  /** Resolves to true once the round is saved. */
+  onAddRound: (input: RoundInput) => Promise<boolean>;
+  /** Resolves to true once the edited round is saved. */
+  onUpdateRound: (round: Round, input: RoundInput) => Promise<boolean>;
+  onDeleteRound: (round: Round, roundNumber: number) => void;
+}
+
+type NumericPart = Exclude<keyof BurakoScoreParts, 'closed'>;
+
+const NUMERIC_PARTS: { key: NumericPart; label: string }[] = [
+  { key: 'cardsPoints', label: 'Puntos en mesa' },
+  { key: 'cleanCanastas', label: 'Canastas limpias' },
+  { key: 'dirtyCanastas', label: 'Canastas sucias' },
+  { key: 'handPenalty', label: 'Puntos en mano (restan)' }
+];
+
+type PartsDraft = Record<string, Partial<Record<NumericPart, string>>>;
+
+function toScoreParts(draft: PartsDraft[string] = {}, closed: boolean): BurakoScoreParts {
+  const read = (key: NumericPart) => (draft[key]?.trim() ? Number(draft[key]) : 0);
+
+  return {
+    cardsPoints: read('cardsPoints'),
+    cleanCanastas: read('cleanCanastas'),
+    dirtyCanastas: read('dirtyCanastas'),
+    closed,
+    handPenalty: read('handPenalty')
+  };
+}
+
+function toPartsDraft(round: Round): PartsDraft {
+  const draft: PartsDraft = {};
+
+  for (const [teamId, parts] of Object.entries(round.burako?.partsByTeamId ?? {})) {
+    draft[teamId] = {};
+
+    for (const { key } of NUMERIC_PARTS) {
+      draft[teamId][key] = String(parts[key]);
+    }
+  }
+
+  return draft;
+}
+
+function getClosedByTeamId(round: Round): string {
+  const closedEntry = Object.entries(round.burako?.partsByTeamId ?? {}).find(
+    ([, parts]) => parts.closed
+  );
+
+  return closedEntry?.[0] ?? '';
+}
+
+export function BurakoBoard({
+  game,
+  isEditable,
+  isSaving,
+  isSavingEdit,
+  deletingRoundId,
+  error,
+  onAddRound,
+  onUpdateRound,
+  onDeleteRound
+}: BurakoBoardProps) {
+  const [partsDraft, setPartsDraft] = useState<PartsDraft>({});
+  const [closedByTeamId, setClosedByTeamId] = useState('');
+  const [editingRoundId, setEditingRoundId] = useState<string | null>(null);
+  const [editPartsDraft, setEditPartsDraft] = useState<PartsDraft>({});
+  const [editClosedByTeamId, setEditClosedByTeamId] = useState('');
+  const teams = game.teams ?? [];
+  const { target } = getBurakoSettings(game);
+  const teamTotals = getTeamTotals(game);
+  const playersById = new Map(game.players.map((player) => [player.id, player]));
+
+  const updatePart = (teamId: string, key: NumericPart, value: string) => {
+    setPartsDraft((previous) => ({
+      ...previous,
+      [teamId]: { ...previous[teamId], [key]: value }
+    }));
+  };
+
+  const toRoundInput = (draft: PartsDraft, closedBy: string): RoundInput => {
+    const partsByTeamId: Record<string, BurakoScoreParts> = {};
+
+    for (const team of teams) {
+      partsByTeamId[team.id] = toScoreParts(draft[team.id], closedBy === team.id);
+    }
+
+    return {
+      mode: 'add',
+      valuesByPlayerId: {},
+      burako: { partsByTeamId }
+    };
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const isSaved = await onAddRound(toRoundInput(partsDraft, closedByTeamId));
+
+    if (isSaved) {
+      setPartsDraft({});
+      setClosedByTeamId('');
+    }
+  };
+
+  const handleUpdate = async (event: FormEvent<HTMLFormElement>, round: Round) => {
+    event.preventDefault();
+
+    if (await onUpdateRound(round, toRoundInput(editPartsDraft, editClosedByTeamId))) {
+      setEditingRoundId(null);
+    }
+  };
+
+  return (
+    <>
+      <section className="panel">
+        <h2>Burako</h2>
+        <p className="hint">Gana el primer equipo que llega a {target} puntos.</p>
+        <ul className="ranking">
+          {teams.map((team) => (
+            <li key={team.id} className="ranking-item">
+              <div>
+                <strong>{team.name}</strong>
+                <p className="hint">
+                  {team.playerIds.map((playerId) => playersById.get(playerId)?.name).join(', ')}
+                </p>
+              </div>
+              <span className="score">
+                {teamTotals[team.id] ?? 0} / {target}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {isEditable && (
+        <section className="panel">
+          <h2>Cargar ronda</h2>
+          <form className="stack" onSubmit={(event) => void handleSubmit(event)}>
+            <div className="burako-teams">
+              {teams.map((team) => (
+                <div key={team.id} className="stack-sm">
+                  <h3>{team.name}</h3>
+                  {NUMERIC_PARTS.map((part) => (
+                    <label key={part.key} className="field">
+                      <span>{part.label}</span>
+                      <input
+                        type="number"
+                        inputMode="numeric"
+                        step={part.key === 'cardsPoints' ? 'any' : 1}
+                        min={part.key === 'cardsPoints' ? undefined : 0}
+                        placeholder="0"
+                        value={partsDraft[team.id]?.[part.key] ?? ''}
+                        onChange={(event) => updatePart(team.id, part.key, event.target.value)}
+                      />
+                    </label>
+                  ))}
+                  <small className="podrida-score-preview">
+                    Neto de la ronda:{' '}
+                    {getBurakoNetScore(
+                      toScoreParts(partsDraft[team.id], closedByTeamId === team.id)
+                    )}
+                  </small>
+                </div>
+              ))}
+            </div>
+
+            <label className="field">
+              <span>Cortó</span>
+              <select
+                value={closedByTeamId}
+                onChange={(event) => setClosedByTeamId(event.target.value)}
+              >
+                <option value="">Nadie</option>
+                {teams.map((team) => (
+                  <option key={team.id} value={team.id}>
+                    {team.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {error && <p className="error">{error}</p>}
+
+            <div className="row-actions">
+              <button type="submit" className="primary" disabled={isSaving}>
+                {isSaving ? 'Guardando...' : 'Guardar ronda'}
+              </button>
+              <button
+                type="button"
+                className="secondary"
+                onClick={() => {
+                  setPartsDraft({});
+                  setClosedByTeamId('');
+                }}
+              >
+                Limpiar campos
+              </button>
+            </div>
+          </form>
+        </section>
+      )}
+
+      <section className="panel">
+        <h2>Historial de rondas</h2>
+        {!isEditable && error && <p className="error">{error}</p>}
+        {game.rounds.length === 0 ? (
+          <p className="empty">Todavía no hay rondas cargadas.</p>
+        ) : (
+          <ul className="history-list">
+            {[...game.rounds].reverse().map((round, index) => {
+              const roundNumber = game.rounds.length - index;
+
+              return (
+                <li key={round.id} className="history-item">
+                  <div className="history-header">
+                    <strong>Ronda {roundNumber}</strong>
+                  </div>
+                  {editingRoundId === round.id ? (
+                    <form
+                      className="stack-sm history-edit"
+                      onSubmit={(event) => void handleUpdate(event, round)}
+                    >
+                      <div className="burako-teams">
+                        {teams.map((team) => (
+                          <div key={team.id} className="stack-sm">
+                            <h3>{team.name}</h3>
+                            {NUMERIC_PARTS.map((part) => (
+                              <label key={part.key} className="field">
+                                <span>{part.label}</span>
+                                <input
+                                  type="number"
+                                  inputMode="numeric"
+                                  step={part.key === 'cardsPoints' ? 'any' : 1}
+                                  min={part.key === 'cardsPoints' ? undefined : 0}
+                                  placeholder="0"
+                                  value={editPartsDraft[team.id]?.[part.key] ?? ''}
+                                  onChange={(event) =>
+                                    setEditPartsDraft((previous) => ({
+                                      ...previous,
+                                      [team.id]: { ...previous[team.id], [part.key]: event.target.value }
+                                    }))
+                                  }
+                                />
+                              </label>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                      <label className="field">
+                        <span>Cortó</span>
+                        <select
+                          value={editClosedByTeamId}
+                          onChange={(event) => setEditClosedByTeamId(event.target.value)}
+                        >
+                          <option value="">Nadie</option>
+                          {teams.map((team) => (
+                            <option key={team.id} value={team.id}>
+                              {team.name}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <div className="row-actions">
+                        <button type="submit" className="primary" disabled={isSavingEdit}>
+                          {isSavingEdit ? 'Guardando...' : 'Guardar cambios'}
+                        </button>
+                        <button
+                          type="button"
+                          className="secondary"
+                          onClick={() => setEditingRoundId(null)}
+                        >
+                          Cancelar
+                        </button>
+                      </div>
+                    </form>
+                  ) : (
+                    teams.map((team) => {
+                      const parts = round.burako?.partsByTeamId[team.id];
+
+                      return (
+                        <p key={team.id}>
+                          <strong>{team.name}:</strong>{' '}
+                          {parts
+                            ? `${getBurakoNetScore(parts)} (${getBurakoBreakdownLabel(parts)})`
+                            : '-'}
+                        </p>
+                      );
+                    })
+                  )}
+                  {isEditable && editingRoundId !== round.id && (
+                    <div className="history-actions">
+                      <button
+                        type="button"
+                        className="secondary"
+                        onClick={() => {
+                          setEditingRoundId(round.id);
+                          setEditPartsDraft(toPartsDraft(round));
+                          setEditClosedByTeamId(getClosedByTeamId(round));
+                        }}
+                      >
+                        Editar
+                      </button>
+                      <button
+                        type="button"
+                        className="danger"
+                        onClick={() => onDeleteRound(round, roundNumber)}
+                        disabled={deletingRoundId === round.id}
+                      >
+                        {deletingRoundId === round.id ? 'Borrando...' : 'Borrar'}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,382 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { Game, Round, RoundInput } from '@/lib/types';
+import {
+  CHINCHON_CLOSING_BONUS,
+  getActiveChinchonPlayers,
+  getChinchonReentryScore,
+  getChinchonSettings,
+  getChinchonStandings,
+  getChinchonStatus
+} from '@/lib/utils/chinchon';
+
+interface ChinchonBoardProps {
+  game: Game;
+  isEditable: boolean;
+  isSaving: boolean;
+  isSavingEdit: boolean;
+  deletingRoundId: string | null;
+  error: string | null;
+  /** Resolves to true once the round is saved. */
+  onAddRound: (input: RoundInput) => Promise<boolean>;
+  /** Resolves to true once the edited round is saved. */
+  onUpdateRound: (round: Round, input: RoundInput) => Promise<boolean>;
+  onDeleteRound: (round: Round, roundNumber: number) => void;
+}
+
+function toRoundInput(
+  values: Record<string, string>,
+  closedById: string,
+  isChinchon: boolean
+): RoundInput {
+  const valuesByPlayerId: Record<string, number> = {};
+
+  for (const [playerId, value] of Object.entries(values)) {
+    if (value.trim() !== '') {
+      valuesByPlayerId[playerId] = Number(value);
+    }
+  }
+
+  return {
+    mode: 'add',
+    valuesByPlayerId,
+    chinchon: {
+      closedById: closedById || undefined,
+      isChinchon
+    }
+  };
+}
+
+export function ChinchonBoard({
+  game,
+  isEditable,
+  isSaving,
+  isSavingEdit,
+  deletingRoundId,
+  error,
+  onAddRound,
+  onUpdateRound,
+  onDeleteRound
+}: ChinchonBoardProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [closedById, setClosedById] = useState('');
+  const [isChinchon, setIsChinchon] = useState(false);
+  const [editingRoundId, setEditingRoundId] = useState<string | null>(null);
+  const [editValues, setEditValues] = useState<Record<string, string>>({});
+  const [editClosedById, setEditClosedById] = useState('');
+  const [editIsChinchon, setEditIsChinchon] = useState(false);
+  const settings = getChinchonSettings(game);
+  const status = getChinchonStatus(game);
+  const activePlayers = getActiveChinchonPlayers(game, status);
+  const reentryScore = getChinchonReentryScore(game, status);
+  const canReenter = isEditable && settings.allowReentry && activePlayers.length >= 1;
+  // Only reachable with re-entry on; otherwise the game finishes when one player is left.
+  const isLastPlayerStanding = activePlayers.length <= 1;
+  const playersById = new Map(game.players.map((player) => [player.id, player]));
+  const standings = getChinchonStandings(game, status);
+
+  const resetForm = () => {
+    setValues({});
+    setClosedById('');
+    setIsChinchon(false);
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const isSaved = await onAddRound(toRoundInput(values, closedById, isChinchon));
+
+    if (isSaved) {
+      resetForm();
+    }
+  };
+
+  // Players still in the game when the round was played.
+  const getRoundPlayers = (round: Round) =>
+    getActiveChinchonPlayers(
+      game,
+      getChinchonStatus(game, game.rounds.slice(0, game.rounds.indexOf(round)))
+    );
+
+  const startEditing = (round: Round) => {
+    const roundValues: Record<string, string> = {};
+
+    for (const entry of round.entries) {
+      roundValues[entry.playerId] = String(entry.value);
+    }
+
+    setEditingRoundId(round.id);
+    setEditValues(roundValues);
+    setEditClosedById(round.chinchon?.closedById ?? '');
+    setEditIsChinchon(Boolean(round.chinchon?.isChinchon));
+  };
+
+  const handleUpdate = async (event: FormEvent<HTMLFormElement>, round: Round) => {
+    event.preventDefault();
+
+    if (await onUpdateRound(round, toRoundInput(editValues, editClosedById, editIsChinchon))) {
+      setEditingRoundId(null);
+    }
+  };
+
+  const handleReentry = (playerId: string) => {
+    const player = playersById.get(playerId);
+    const shouldReenter = window.confirm(
+      `¿${player?.name ?? 'El jugador'} se reengancha con ${reentryScore} puntos?`
+    );
+
+    if (shouldReenter) {
+      void onAddRound({
+        mode: 'set',
+        valuesByPlayerId: {},
+        chinchon: { reentryPlayerId: playerId }
+      });
+    }
+  };
+
+  const getRoundSummary = (round: Round): string => {
+    const reentryPlayerId = round.chinchon?.reentryPlayerId;
+
+    if (reentryPlayerId) {
+      const value = round.entries.find((entry) => entry.playerId === reentryPlayerId)?.value ?? 0;
+      return `${playersById.get(reentryPlayerId)?.name ?? '-'} se reengancha con ${value}`;
+    }
+
+    return round.entries
+      .map((entry) => `${playersById.get(entry.playerId)?.name ?? '-'}: ${entry.value}`)
+      .join(' · ');
+  };
+
+  return (
+    <>
+      <section className="panel">
+        <h2>Chinchón</h2>
+        <p className="hint">
+          Queda eliminado quien pasa de {settings.eliminationScore} puntos.
+          {settings.allowReentry ? ' Se permite el reenganche.' : ''}
+        </p>
+
+        <ul className="ranking">
+          {standings.map(({ competitor: player, place }) => {
+            const isEliminated = status.eliminatedIds.includes(player.id);
+
+            return (
+              <li
+                key={player.id}
+                className={`ranking-item${isEliminated ? ' eliminated' : ''}`}
+              >
+                <div className="player-badge">
+                  <span className="player-rank">{place}.</span>
+                  <span className="player-name-tag">{player.name}</span>
+                  {isEliminated && <span className="history-mode">Eliminado</span>}
+                </div>
+                <div className="row-actions">
+                  {isEliminated && canReenter && (
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() => handleReentry(player.id)}
+                      disabled={isSaving}
+                    >
+                      Reenganchar ({reentryScore})
+                    </button>
+                  )}
+                  <span className="score">{status.totals[player.id] ?? 0}</span>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+
+      {isEditable && isLastPlayerStanding && (
+        <section className="panel">
+          <h2>Cargar mano</h2>
+          <p className="hint">
+            Queda un solo jugador en juego. Reenganchen a alguien para seguir o terminen la partida.
+          </p>
+        </section>
+      )}
+
+      {isEditable && !isLastPlayerStanding && (
+        <section className="panel">
+          <h2>Cargar mano</h2>
+          <form className="stack" onSubmit={(event) => void handleSubmit(event)}>
+            <div className="stack-sm">
+              {activePlayers.map((player) => (
+                <label key={player.id} className="field">
+                  <span>{player.name}</span>
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    step="any"
+                    placeholder="Puntos que le quedaron"
+                    value={values[player.id] ?? ''}
+                    onChange={(event) =>
+                      setValues((previous) => ({ ...previous, [player.id]: event.target.value }))
+                    }
+                    required={!isChinchon}
+                  />
+                </label>
+              ))}
+            </div>
+
+            <label className="field">
+              <span>Cortó</span>
+              <select value={closedById} onChange={(event) => setClosedById(event.target.value)}>
+                <option value="">Nadie</option>
+                {activePlayers.map((player) => (
+                  <option key={player.id} value={player.id}>
+                    {player.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field">
+              <span>Cierre</span>
+              <select
+                value={isChinchon ? 'chinchon' : 'normal'}
+                onChange={(event) => setIsChinchon(event.target.value === 'chinchon')}
+              >
+                <option value="normal">Corte normal</option>
+                <option value="chinchon">Chinchón: gana la partida</option>
+              </select>
+            </label>
+            <p className="hint">Si cortó con 0 puntos se anota {CHINCHON_CLOSING_BONUS}.</p>
+
+            {error && <p className="error">{error}</p>}
+
+            <div className="row-actions">
+              <button type="submit" className="primary" disabled={isSaving}>
+                {isSaving ? 'Guardando...' : 'Guardar mano'}
+              </button>
+              <button type="button" className="secondary" onClick={resetForm}>
+                Limpiar campos
+              </button>
+            </div>
+          </form>
+        </section>
+      )}
+
+      <section className="panel">
+        <h2>Manos</h2>
+        {!isEditable && error && <p className="error">{error}</p>}
+        {game.rounds.length === 0 ? (
+          <p className="empty">Todavía no hay manos cargadas.</p>
+        ) : (
+          <ul className="history-list">
+            {[...game.rounds].reverse().map((round, index) => {
+              const roundNumber = game.rounds.length - index;
+              const closer = round.chinchon?.closedById
+                ? playersById.get(round.chinchon.closedById)
+                : undefined;
+
+              return (
+                <li key={round.id} className="history-item">
+                  <div className="history-header">
+                    <strong>
+                      {round.chinchon?.reentryPlayerId ? 'Reenganche' : `Mano ${roundNumber}`}
+                    </strong>
+                    {closer && (
+                      <span className="history-mode">
+                        {round.chinchon?.isChinchon
+                          ? `Chinchón de ${closer.name}`
+                          : `Cortó: ${closer.name}`}
+                      </span>
+                    )}
+                  </div>
+                  {editingRoundId === round.id ? (
+                    <form
+                      className="stack-sm history-edit"
+                      onSubmit={(event) => void handleUpdate(event, round)}
+                    >
+                      {getRoundPlayers(round).map((player) => (
+                        <label key={player.id} className="field">
+                          <span>{player.name}</span>
+                          <input
+                            type="number"
+                            inputMode="numeric"
+                            step="any"
+                            value={editValues[player.id] ?? ''}
+                            onChange={(event) =>
+                              setEditValues((previous) => ({
+                                ...previous,
+                                [player.id]: event.target.value
+                              }))
+                            }
+                            required={!editIsChinchon}
+                          />
+                        </label>
+                      ))}
+                      <label className="field">
+                        <span>Cortó</span>
+                        <select
+                          value={editClosedById}
+                          onChange={(event) => setEditClosedById(event.target.value)}
+                        >
+                          <option value="">Nadie</option>
+                          {getRoundPlayers(round).map((player) => (
+                            <option key={player.id} value={player.id}>
+                              {player.name}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="field">
+                        <span>Cierre</span>
+                        <select
+                          value={editIsChinchon ? 'chinchon' : 'normal'}
+                          onChange={(event) => setEditIsChinchon(event.target.value === 'chinchon')}
+                        >
+                          <option value="normal">Corte normal</option>
+                          <option value="chinchon">Chinchón: gana la partida</option>
+                        </select>
+                      </label>
+                      <div className="row-actions">
+                        <button type="submit" className="primary" disabled={isSavingEdit}>
+                          {isSavingEdit ? 'Guardando...' : 'Guardar cambios'}
+                        </button>
+                        <button
+                          type="button"
+                          className="secondary"
+                          onClick={() => setEditingRoundId(null)}
+                        >
+                          Cancelar
+                        </button>
+                      </div>
+                    </form>
+                  ) : (
+                    <p>{getRoundSummary(round)}</p>
+                  )}
+                  {isEditable && editingRoundId !== round.id && (
+                    <div className="history-actions">
+                      {/* A re-entry score comes from the other totals, so there is nothing to type. */}
+                      {!round.chinchon?.reentryPlayerId && (
+                        <button
+                          type="button"
+                          className="secondary"
+                          onClick={() => startEditing(round)}
+                        >
+                          Editar
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        className="danger"
+                        onClick={() => onDeleteRound(round, roundNumber)}
+                        disabled={deletingRoundId === round.id}
+                      >
+                        {deletingRoundId === round.id ? 'Borrando...' : 'Borrar'}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </>
+  );
+}
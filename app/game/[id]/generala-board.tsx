@@ -0,0 +1,352 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { Game, GeneralaCategory, Player, Round, RoundInput } from '@/lib/types';
+import { getGameTotals, getSeatingOrder } from '@/lib/utils/game';
+import {
+  GENERALA_CATEGORIES,
+  GENERALA_DICE,
+  GeneralaBox,
+  GeneralaCategoryRule,
+  getGeneralaCategoryRule,
+  getGeneralaScorecard
+} from '@/lib/utils/generala';
+
+interface GeneralaBoardProps {
+  game: Game;
+  isEditable: boolean;
+  isSaving: boolean;
+  isSavingEdit: boolean;
+  deletingRoundId: string | null;
+  error: string | null;
+  /** Resolves to true once the box is saved. */
+  onAddRound: (input: RoundInput) => Promise<boolean>;
+  /** Resolves to true once the edited box is saved. */
+  onUpdateRound: (round: Round, input: RoundInput) => Promise<boolean>;
+  onDeleteRound: (round: Round, roundNumber: number) => void;
+}
+
+interface ResultOption {
+  value: string;
+  label: string;
+}
+
+function getResultOptions(rule: GeneralaCategoryRule): ResultOption[] {
+  const options: ResultOption[] = [];
+
+  if (rule.face) {
+    for (let dice = 1; dice <= GENERALA_DICE; dice += 1) {
+      options.push({
+        value: `dice:${dice}`,
+        label: `${dice === 1 ? '1 dado' : `${dice} dados`} (${dice * rule.face})`
+      });
+    }
+  } else {
+    options.push({ value: 'made', label: `Armada (${rule.points ?? 0})` });
+
+    if (rule.servedPoints) {
+      options.push({ value: 'served', label: `Servida (${rule.servedPoints})` });
+    } else if (rule.category === 'generala') {
+      options.push({ value: 'served', label: 'Servida: gana la partida' });
+    }
+  }
+
+  options.push({ value: 'scratch', label: 'Tachar (0)' });
+  return options;
+}
+
+function getRoundResult(round: Round, rule: GeneralaCategoryRule): string {
+  if (round.generala?.scratched) {
+    return 'scratch';
+  }
+
+  if (rule.face) {
+    return `dice:${(round.entries[0]?.value ?? 0) / rule.face}`;
+  }
+
+  return round.generala?.served ? 'served' : 'made';
+}
+
+function toRoundInput(playerId: string, category: GeneralaCategory, result: string): RoundInput {
+  return {
+    mode: 'add',
+    valuesByPlayerId: {},
+    generala: {
+      playerId,
+      category,
+      dice: result.startsWith('dice:') ? Number(result.slice(5)) : undefined,
+      served: result === 'served',
+      scratched: result === 'scratch'
+    }
+  };
+}
+
+function getBoxLabel(box: GeneralaBox | undefined): string {
+  if (!box) {
+    return '';
+  }
+
+  if (box.scratched) {
+    return '✗';
+  }
+
+  return box.served ? `${box.value}*` : String(box.value);
+}
+
+export function GeneralaBoard({
+  game,
+  isEditable,
+  isSaving,
+  isSavingEdit,
+  deletingRoundId,
+  error,
+  onAddRound,
+  onUpdateRound,
+  onDeleteRound
+}: GeneralaBoardProps) {
+  const scorecard = getGeneralaScorecard(game);
+  const totals = getGameTotals(game);
+  const seating = getSeatingOrder(game);
+  const playersById = new Map(game.players.map((player) => [player.id, player]));
+  const getFilledCount = (playerId: string) => Object.keys(scorecard[playerId] ?? {}).length;
+  // Turns go around the table, so the next player is the first one with the fewest boxes.
+  const nextPlayer = seating.reduce<Player | undefined>(
+    (best, player) => (!best || getFilledCount(player.id) < getFilledCount(best.id) ? player : best),
+    undefined
+  );
+
+  const [selectedPlayerId, setSelectedPlayerId] = useState('');
+  const [selectedCategory, setSelectedCategory] = useState<GeneralaCategory | ''>('');
+  const [result, setResult] = useState('');
+  const [editingRoundId, setEditingRoundId] = useState<string | null>(null);
+  const [editResult, setEditResult] = useState('');
+  const playerId = selectedPlayerId || nextPlayer?.id || '';
+  const openCategories = GENERALA_CATEGORIES.filter((rule) => !scorecard[playerId]?.[rule.category]);
+  const category = openCategories.some((rule) => rule.category === selectedCategory)
+    ? selectedCategory
+    : openCategories[0]?.category;
+  const categoryRule = category ? getGeneralaCategoryRule(category) : undefined;
+  const resultOptions = categoryRule ? getResultOptions(categoryRule) : [];
+  const selectedResult = resultOptions.some((option) => option.value === result)
+    ? result
+    : resultOptions[0]?.value;
+
+  const resetForm = () => {
+    setSelectedPlayerId('');
+    setSelectedCategory('');
+    setResult('');
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!playerId || !category || !selectedResult) {
+      return;
+    }
+
+    const isSaved = await onAddRound(toRoundInput(playerId, category, selectedResult));
+
+    if (isSaved) {
+      resetForm();
+    }
+  };
+
+  const handleUpdate = async (event: FormEvent<HTMLFormElement>, round: Round) => {
+    event.preventDefault();
+
+    const entry = round.entries[0];
+
+    if (!entry || !round.generala) {
+      return;
+    }
+
+    const input = toRoundInput(entry.playerId, round.generala.category, editResult);
+
+    if (await onUpdateRound(round, input)) {
+      setEditingRoundId(null);
+    }
+  };
+
+  return (
+    <>
+      <section className="panel">
+        <h2>Planilla</h2>
+        <div className="podrida-table-wrap">
+          <table className="podrida-table scorecard-table">
+            <thead>
+              <tr>
+                <th>Casilla</th>
+                {seating.map((player) => (
+                  <th key={player.id}>{player.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {GENERALA_CATEGORIES.map((rule) => (
+                <tr key={rule.category}>
+                  <td>{rule.label}</td>
+                  {seating.map((player) => {
+                    const box = scorecard[player.id]?.[rule.category];
+
+                    return (
+                      <td key={player.id} className={box?.scratched ? 'scratched' : undefined}>
+                        {getBoxLabel(box)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              <tr className="scorecard-total">
+                <td>Total</td>
+                {seating.map((player) => (
+                  <td key={player.id}>{totals[player.id] ?? 0}</td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+        <p className="hint">* servida. La generala servida gana la partida en el momento.</p>
+      </section>
+
+      {isEditable && (
+        <section className="panel">
+          <h2>Anotar jugada</h2>
+          <form className="stack" onSubmit={(event) => void handleSubmit(event)}>
+            <label className="field">
+              <span>Jugador</span>
+              <select value={playerId} onChange={(event) => setSelectedPlayerId(event.target.value)}>
+                {seating.map((player) => (
+                  <option key={player.id} value={player.id}>
+                    {player.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field">
+              <span>Casilla</span>
+              <select
+                value={category ?? ''}
+                onChange={(event) => setSelectedCategory(event.target.value as GeneralaCategory)}
+              >
+                {openCategories.map((rule) => (
+                  <option key={rule.category} value={rule.category}>
+                    {rule.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field">
+              <span>Resultado</span>
+              <select value={selectedResult ?? ''} onChange={(event) => setResult(event.target.value)}>
+                {resultOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {error && <p className="error">{error}</p>}
+
+            <div className="row-actions">
+              <button
+                type="submit"
+                className="primary"
+                disabled={isSaving || openCategories.length === 0}
+              >
+                {isSaving ? 'Guardando...' : 'Anotar'}
+              </button>
+            </div>
+          </form>
+        </section>
+      )}
+
+      <section className="panel">
+        <h2>Jugadas</h2>
+        {!isEditable && error && <p className="error">{error}</p>}
+        {game.rounds.length === 0 ? (
+          <p className="empty">Todavía no hay jugadas anotadas.</p>
+        ) : (
+          <ul className="history-list">
+            {[...game.rounds].reverse().map((round, index) => {
+              const roundNumber = game.rounds.length - index;
+              const entry = round.entries[0];
+              const rule = round.generala ? getGeneralaCategoryRule(round.generala.category) : undefined;
+
+              return (
+                <li key={round.id} className="history-item">
+                  <div className="history-header">
+                    <strong>{playersById.get(entry?.playerId ?? '')?.name ?? '-'}</strong>
+                    <span className="history-mode">{rule?.label ?? '-'}</span>
+                  </div>
+                  {editingRoundId === round.id && rule ? (
+                    <form
+                      className="stack-sm history-edit"
+                      onSubmit={(event) => void handleUpdate(event, round)}
+                    >
+                      <label className="field">
+                        <span>Resultado</span>
+                        <select
+                          value={editResult}
+                          onChange={(event) => setEditResult(event.target.value)}
+                        >
+                          {getResultOptions(rule).map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <div className="row-actions">
+                        <button type="submit" className="primary" disabled={isSavingEdit}>
+                          {isSavingEdit ? 'Guardando...' : 'Guardar cambios'}
+                        </button>
+                        <button
+                          type="button"
+                          className="secondary"
+                          onClick={() => setEditingRoundId(null)}
+                        >
+                          Cancelar
+                        </button>
+                      </div>
+                    </form>
+                  ) : (
+                    <p>
+                      {round.generala?.scratched
+                        ? 'Tachada'
+                        : `${entry?.value ?? 0} puntos${round.generala?.served ? ' (servida)' : ''}`}
+                    </p>
+                  )}
+                  {isEditable && editingRoundId !== round.id && (
+                    <div className="history-actions">
+                      {rule && (
+                        <button
+                          type="button"
+                          className="secondary"
+                          onClick={() => {
+                            setEditingRoundId(round.id);
+                            setEditResult(getRoundResult(round, rule));
+                          }}
+                        >
+                          Editar
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        className="danger"
+                        onClick={() => onDeleteRound(round, roundNumber)}
+                        disabled={deletingRoundId === round.id}
+                      >
+                        {deletingRoundId === round.id ? 'Borrando...' : 'Borrar'}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </>
+  );
+}
@@ -1,22 +1,71 @@
 'use client';
 
 import Link from 'next/link';
-import { useParams } from 'next/navigation';
-import { CSSProperties, FormEvent, useEffect, useMemo, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { CSSProperties, FormEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { BurakoBoard } from '@/app/game/[id]/burako-board';
+import { ChinchonBoard } from '@/app/game/[id]/chinchon-board';
+import { GeneralaBoard } from '@/app/game/[id]/generala-board';
+import { PlayoffPanel } from '@/app/game/[id]/playoff-panel';
+import { TrucoBoard } from '@/app/game/[id]/truco-board';
+import { getEndCondition, getGameRules, getStandings, getWinners } from '@/lib/game-types';
 import { getGameRepository } from '@/lib/storage';
-import { Game, GameType, Player, Round } from '@/lib/types';
+import { GameConflictError } from '@/lib/storage/errors';
+import { Game, Player, Round, RoundInput, RoundResult, Team } from '@/lib/types';
+import { gameToCsv, getGameCsvFileName } from '@/lib/utils/csv';
+import { downloadTextFile } from '@/lib/utils/download';
 import {
+  getForbiddenDealerBet,
+  getEndConditionLabel,
   getGameDisplayName,
-  getGameTotals,
-  getGameType,
+  getGameStatusLabel,
   getPodridaCardsSequence,
   getNextPodridaCards,
   getPodridaMaxCards,
-  getPodridaRounds
+  getPodridaRoundScore,
+  getPodridaRounds,
+  getPodridaSequenceLabel,
+  getPodridaSettings,
+  getRoundTeamDeltas,
+  getScoringDirection,
+  getScoringDirectionLabel,
+  getSuspectPodridaTricks,
+  getTeamScoring,
+  getTeamScoringLabel,
+  getTeamStandings,
+  getTeamTotals,
+  getTieBreakLabel,
+  getTieBreakPolicy,
+  getTurnOrder,
+  getWinnerNames,
+  replayGame
 } from '@/lib/utils/game';
+import { getTrashRetentionDays } from '@/lib/utils/trash';
 
 const DEFAULT_PLAYER_COLOR = '#2f8f6a';
 
+type PodridaEntryMode = 'tricks' | 'totals';
+
+/** Rows of the scores form under an optional team heading. */
+interface ScoreEntryGroup {
+  team?: Team;
+  targets: (Player | Team)[];
+}
+
+interface PodiumEntry {
+  id: string;
+  name: string;
+  color?: string;
+  score: number;
+  place: number;
+  isWinner: boolean;
+}
+
+const ROUND_MODE_LABELS: Record<Round['mode'], string> = {
+  add: 'Sumar valor a cada jugador',
+  set: 'Fijar total directo de cada jugador'
+};
+
 function normalizeHexColor(value: string): string | null {
   const trimmed = value.trim();
 
@@ -53,12 +102,8 @@ function formatDate(value: string): string {
   });
 }
 
-function getGameTypeLabel(gameType: GameType): string {
-  return gameType === 'podrida' ? 'Podrida' : 'Libre';
-}
-
 function createPlayerValueMap(
-  players: Player[],
+  players: Pick<Player, 'id'>[],
   source?: Record<string, number>
 ): Record<string, string> {
   const values: Record<string, string> = {};
@@ -71,10 +116,92 @@ function createPlayerValueMap(
   return values;
 }
 
-function getRoundTotalsByPlayer(round: Round): Record<string, number> {
-  const totalsByPlayerId: Record<string, number> = {};
+/** Keeps what the user typed and fills the empty fields from `stored`. */
+function keepTypedValues(
+  typed: Record<string, string>,
+  stored: Record<string, string>
+): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const [id, storedValue] of Object.entries(stored)) {
+    values[id] = typed[id]?.trim() ? typed[id] : storedValue;
+  }
+
+  return values;
+}
+
+function isScoredPerTeam(game: Game): boolean {
+  return Boolean(game.teams?.length) && getTeamScoring(game) === 'per-team';
+}
+
+/** Teams when the game is scored per team, players otherwise. */
+function getScoreTargets(game: Game): (Player | Team)[] {
+  return isScoredPerTeam(game) ? game.teams ?? [] : game.players;
+}
+
+function getScoreEntryGroups(game: Game): ScoreEntryGroup[] {
+  if (!game.teams?.length || isScoredPerTeam(game)) {
+    return [{ targets: getScoreTargets(game) }];
+  }
+
+  const playersById = new Map(game.players.map((player) => [player.id, player]));
+
+  return game.teams.map((team) => ({
+    team,
+    targets: team.playerIds
+      .map((playerId) => playersById.get(playerId))
+      .filter((player): player is Player => Boolean(player))
+  }));
+}
+
+function toScoresRoundInput(
+  game: Game,
+  mode: RoundInput['mode'],
+  values: Record<string, string>
+): RoundInput {
+  const valuesById: Record<string, number> = {};
+
+  for (const target of getScoreTargets(game)) {
+    const value = values[target.id]?.trim() ?? '';
+
+    if (value !== '') {
+      valuesById[target.id] = Number(value);
+    }
+  }
+
+  return isScoredPerTeam(game)
+    ? { mode, valuesByPlayerId: {}, valuesByTeamId: valuesById }
+    : { mode, valuesByPlayerId: valuesById };
+}
+
+function getRoundEditValues(game: Game, round: Round): Record<string, number> {
+  const valuesByPlayerId: Record<string, number> = {};
 
   for (const entry of round.entries) {
+    valuesByPlayerId[entry.playerId] = entry.value;
+  }
+
+  if (!isScoredPerTeam(game)) {
+    return valuesByPlayerId;
+  }
+
+  const valuesByTeamId: Record<string, number> = {};
+
+  for (const team of game.teams ?? []) {
+    const value = valuesByPlayerId[team.playerIds[0]];
+
+    if (value !== undefined) {
+      valuesByTeamId[team.id] = value;
+    }
+  }
+
+  return valuesByTeamId;
+}
+
+function getRoundTotalsByPlayer(result: RoundResult | undefined): Record<string, number> {
+  const totalsByPlayerId: Record<string, number> = {};
+
+  for (const entry of result?.entries ?? []) {
     totalsByPlayerId[entry.playerId] = entry.totalAfter;
   }
 
@@ -83,6 +210,7 @@ function getRoundTotalsByPlayer(round: Round): Record<string, number> {
 
 export default function GamePage() {
   const params = useParams<{ id: string }>();
+  const router = useRouter();
   const gameId = params.id;
   const repository = useMemo(() => getGameRepository(), []);
 
@@ -90,17 +218,31 @@ export default function GamePage() {
   const [mode, setMode] = useState<'add' | 'set'>('add');
   const [values, setValues] = useState<Record<string, string>>({});
   const [podridaBets, setPodridaBets] = useState<Record<string, string>>({});
-  const [podridaTotals, setPodridaTotals] = useState<Record<string, string>>({});
+  const [podridaRoundValues, setPodridaRoundValues] = useState<Record<string, string>>({});
+  const [podridaEntryMode, setPodridaEntryMode] = useState<PodridaEntryMode>('tricks');
   const [error, setError] = useState<string | null>(null);
   const [isSavingRound, setIsSavingRound] = useState(false);
   const [isSavingPodridaBets, setIsSavingPodridaBets] = useState(false);
   const [isSavingPodridaRound, setIsSavingPodridaRound] = useState(false);
   const [isFinishing, setIsFinishing] = useState(false);
+  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [editingRoundId, setEditingRoundId] = useState<string | null>(null);
+  const [editMode, setEditMode] = useState<'add' | 'set'>('add');
+  const [editValues, setEditValues] = useState<Record<string, string>>({});
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [isSavingPlayoff, setIsSavingPlayoff] = useState(false);
+  const [deletingRoundId, setDeletingRoundId] = useState<string | null>(null);
+  // Read by the cross-tab refresh, which runs outside React's render.
+  const gameRef = useRef<Game | null>(null);
+
+  useEffect(() => {
+    gameRef.current = game;
+  }, [game]);
 
   useEffect(() => {
     let isMounted = true;
 
-    async function loadGame() {
+    async function loadGame(isRefresh: boolean) {
       try {
         const existingGame = await repository.getGameById(gameId);
 
@@ -109,16 +251,31 @@ export default function GamePage() {
         }
 
         if (!existingGame) {
+          setGame(null);
           setError('La partida no existe o fue eliminada.');
           return;
         }
 
+        const storedBets = createPlayerValueMap(
+          existingGame.players,
+          existingGame.podridaState?.pendingBetsByPlayerId
+        );
+        const isSameRound =
+          isRefresh && gameRef.current?.rounds.length === existingGame.rounds.length;
+
         setGame(existingGame);
-        setValues(createPlayerValueMap(existingGame.players));
-        setPodridaTotals(createPlayerValueMap(existingGame.players));
-        setPodridaBets(
-          createPlayerValueMap(existingGame.players, existingGame.podridaState?.pendingBetsByPlayerId)
+        setEditingRoundId((currentRoundId) =>
+          existingGame.rounds.some((round) => round.id === currentRoundId) ? currentRoundId : null
         );
+
+        // A change from another tab only clears the forms once it closes the round being typed.
+        if (isSameRound) {
+          setPodridaBets((typedBets) => keepTypedValues(typedBets, storedBets));
+        } else {
+          setPodridaBets(storedBets);
+          setValues(createPlayerValueMap(getScoreTargets(existingGame)));
+          setPodridaRoundValues(createPlayerValueMap(existingGame.players));
+        }
       } catch (cause) {
         if (!isMounted) {
           return;
@@ -128,23 +285,39 @@ export default function GamePage() {
       }
     }
 
-    void loadGame();
+    void loadGame(false);
+    const unsubscribe = repository.subscribe(() => void loadGame(true));
 
     return () => {
       isMounted = false;
+      unsubscribe();
     };
   }, [gameId, repository]);
 
-  const gameType = useMemo(() => (game ? getGameType(game) : 'classic'), [game]);
-  const totals = useMemo(() => (game ? getGameTotals(game) : {}), [game]);
+  const rules = useMemo(() => getGameRules(game ?? undefined), [game]);
+  const roundForm = rules.roundInput.form;
+  const replay = useMemo(() => (game ? replayGame(game) : null), [game]);
+  const totals = useMemo(() => replay?.totals ?? {}, [replay]);
+  const roundResultsById = useMemo(
+    () => new Map((replay?.rounds ?? []).map((result) => [result.round.id, result])),
+    [replay]
+  );
 
-  const ranking = useMemo(() => {
+  const standings = useMemo(() => {
     if (!game) {
       return [];
     }
 
-    return [...game.players].sort((a, b) => (totals[b.id] ?? 0) - (totals[a.id] ?? 0));
-  }, [game, totals]);
+    return getStandings(game);
+  }, [game]);
+
+  const winnerIds = useMemo(() => {
+    if (!game) {
+      return new Set<string>();
+    }
+
+    return new Set(game.winnerIds ?? getWinners(game).map((player) => player.id));
+  }, [game]);
 
   const podridaRounds = useMemo(() => {
     if (!game) {
@@ -155,41 +328,129 @@ export default function GamePage() {
   }, [game]);
 
   const nextPodridaCards = useMemo(() => {
-    if (!game || gameType !== 'podrida') {
+    if (!game || roundForm !== 'podrida') {
       return null;
     }
 
     return getNextPodridaCards(game);
-  }, [game, gameType]);
+  }, [game, roundForm]);
 
   const podridaMaxCards = useMemo(() => {
-    if (!game || gameType !== 'podrida') {
+    if (!game || roundForm !== 'podrida') {
       return null;
     }
 
-    return getPodridaMaxCards(game.players.length);
-  }, [game, gameType]);
+    return getPodridaMaxCards(game.players.length, getPodridaSettings(game).deckSize);
+  }, [game, roundForm]);
 
   const totalPodridaRounds = useMemo(() => {
-    if (!game || gameType !== 'podrida') {
+    if (!game || roundForm !== 'podrida') {
       return 0;
     }
 
-    return getPodridaCardsSequence(game.players.length).length;
-  }, [game, gameType]);
+    return getPodridaCardsSequence(game.players.length, getPodridaSettings(game)).length;
+  }, [game, roundForm]);
 
   const remainingPodridaRounds = useMemo(() => {
     return Math.max(totalPodridaRounds - podridaRounds.length, 0);
   }, [totalPodridaRounds, podridaRounds.length]);
 
+  const podridaSettings = useMemo(() => (game ? getPodridaSettings(game) : null), [game]);
+
+  const turnOrder = useMemo(() => (game ? getTurnOrder(game) : []), [game]);
+  const currentDealer = turnOrder[turnOrder.length - 1];
+  const firstPlayer = turnOrder[0];
+
+  const getTurnBadge = (playerId: string): string | null => {
+    if (playerId === currentDealer?.id) {
+      return 'Reparte';
+    }
+
+    return playerId === firstPlayer?.id ? 'Empieza' : null;
+  };
+
+  const getPlayerName = (playerId?: string): string | undefined =>
+    game?.players.find((player) => player.id === playerId)?.name;
+
+  const typedPodridaBets = useMemo(() => {
+    const betsByPlayerId: Record<string, number | undefined> = {};
+
+    for (const [playerId, rawValue] of Object.entries(podridaBets)) {
+      const value = rawValue.trim();
+      betsByPlayerId[playerId] = value && Number.isFinite(Number(value)) ? Number(value) : undefined;
+    }
+
+    return betsByPlayerId;
+  }, [podridaBets]);
+
+  const typedPodridaBetsSum = Object.values(typedPodridaBets).reduce<number>(
+    (sum, bet) => sum + (bet ?? 0),
+    0
+  );
+
+  const forbiddenDealerBet = useMemo(
+    () => (game && roundForm === 'podrida' ? getForbiddenDealerBet(game, typedPodridaBets) : null),
+    [game, roundForm, typedPodridaBets]
+  );
+
+  // Live check of typed tricks against the cards dealt; null until every player has a value.
+  const podridaTricksCheck = useMemo(() => {
+    const cardsCount = game ? getNextPodridaCards(game) : null;
+
+    if (!game || podridaEntryMode !== 'tricks' || cardsCount === null) {
+      return null;
+    }
+
+    const tricksByPlayerId: Record<string, number> = {};
+
+    for (const player of game.players) {
+      const value = podridaRoundValues[player.id]?.trim() ?? '';
+
+      if (!value || !Number.isFinite(Number(value))) {
+        return null;
+      }
+
+      tricksByPlayerId[player.id] = Number(value);
+    }
+
+    const tricksTotal = Object.values(tricksByPlayerId).reduce((sum, value) => sum + value, 0);
+
+    return {
+      tricksTotal,
+      cardsCount,
+      isMismatch: tricksTotal !== cardsCount,
+      suspectPlayerIds: getSuspectPodridaTricks(
+        cardsCount,
+        game.podridaState?.pendingBetsByPlayerId ?? {},
+        tricksByPlayerId
+      )
+    };
+  }, [game, podridaEntryMode, podridaRoundValues]);
+
   const hasPendingPodridaBets = useMemo(() => {
-    if (!game || gameType !== 'podrida') {
+    if (!game || roundForm !== 'podrida') {
       return false;
     }
 
     const pendingBetsByPlayerId = game.podridaState?.pendingBetsByPlayerId ?? {};
     return game.players.every((player) => Number.isFinite(pendingBetsByPlayerId[player.id]));
-  }, [game, gameType]);
+  }, [game, roundForm]);
+
+  const handleMutationError = (cause: unknown, fallbackMessage: string) => {
+    if (cause instanceof GameConflictError) {
+      const latestGame = cause.latestGame;
+
+      setGame(latestGame);
+      setPodridaBets(
+        createPlayerValueMap(latestGame.players, latestGame.podridaState?.pendingBetsByPlayerId)
+      );
+      setEditingRoundId((currentRoundId) =>
+        latestGame.rounds.some((round) => round.id === currentRoundId) ? currentRoundId : null
+      );
+    }
+
+    setError(cause instanceof Error ? cause.message : fallbackMessage);
+  };
 
   const handleValueChange = (playerId: string, rawValue: string) => {
     setValues((previous) => ({
@@ -205,8 +466,8 @@ export default function GamePage() {
     }));
   };
 
-  const handlePodridaTotalsChange = (playerId: string, rawValue: string) => {
-    setPodridaTotals((previous) => ({
+  const handlePodridaRoundValueChange = (playerId: string, rawValue: string) => {
+    setPodridaRoundValues((previous) => ({
       ...previous,
       [playerId]: rawValue
     }));
@@ -217,15 +478,29 @@ export default function GamePage() {
       return;
     }
 
-    setValues(createPlayerValueMap(game.players));
+    setValues(createPlayerValueMap(getScoreTargets(game)));
   };
 
-  const clearPodridaTotals = () => {
+  const getPodridaScorePreview = (playerId: string): number | null => {
+    const rawTricks = podridaRoundValues[playerId]?.trim() ?? '';
+    const bet = game?.podridaState?.pendingBetsByPlayerId?.[playerId];
+
+    if (podridaEntryMode !== 'tricks' || !podridaSettings || !rawTricks || bet === undefined) {
+      return null;
+    }
+
+    const tricks = Number(rawTricks);
+    return Number.isInteger(tricks) && tricks >= 0
+      ? getPodridaRoundScore(bet, tricks, podridaSettings)
+      : null;
+  };
+
+  const clearPodridaRoundValues = () => {
     if (!game) {
       return;
     }
 
-    setPodridaTotals(createPlayerValueMap(game.players));
+    setPodridaRoundValues(createPlayerValueMap(game.players));
   };
 
   const handleAddRound = async (event: FormEvent<HTMLFormElement>) => {
@@ -239,25 +514,64 @@ export default function GamePage() {
     setIsSavingRound(true);
 
     try {
-      const valuesByPlayerId: Record<string, number> = {};
+      const updatedGame = await repository.addRound(
+        game.id,
+        toScoresRoundInput(game, mode, values),
+        { expectedRevision: game.revision }
+      );
 
-      for (const [playerId, value] of Object.entries(values)) {
-        if (value.trim() === '') {
-          continue;
-        }
+      setGame(updatedGame);
+      setValues(createPlayerValueMap(getScoreTargets(updatedGame)));
+    } catch (cause) {
+      handleMutationError(cause, 'No se pudo guardar la ronda.');
+    } finally {
+      setIsSavingRound(false);
+    }
+  };
 
-        valuesByPlayerId[playerId] = Number(value);
-      }
+  const handleAddPlayoff = async (scoresById: Record<string, number>) => {
+    if (!game) {
+      return false;
+    }
+
+    setError(null);
+    setIsSavingPlayoff(true);
+
+    try {
+      const updatedGame = await repository.addPlayoff(
+        game.id,
+        { scoresById },
+        { expectedRevision: game.revision }
+      );
+
+      setGame(updatedGame);
+      return true;
+    } catch (cause) {
+      handleMutationError(cause, 'No se pudo guardar el desempate.');
+      return false;
+    } finally {
+      setIsSavingPlayoff(false);
+    }
+  };
+
+  const handleAddRulesRound = async (input: RoundInput) => {
+    if (!game) {
+      return false;
+    }
+
+    setError(null);
+    setIsSavingRound(true);
 
-      const updatedGame = await repository.addRound(game.id, {
-        mode,
-        valuesByPlayerId
+    try {
+      const updatedGame = await repository.addRound(game.id, input, {
+        expectedRevision: game.revision
       });
 
       setGame(updatedGame);
-      setValues(createPlayerValueMap(updatedGame.players));
+      return true;
     } catch (cause) {
-      setError(cause instanceof Error ? cause.message : 'No se pudo guardar la ronda.');
+      handleMutationError(cause, 'No se pudo guardar la mano.');
+      return false;
     } finally {
       setIsSavingRound(false);
     }
@@ -284,20 +598,24 @@ export default function GamePage() {
         betsByPlayerId[player.id] = Number(value);
       }
 
-      const updatedGame = await repository.setPodridaBets(game.id, {
-        betsByPlayerId
-      });
+      const updatedGame = await repository.setPodridaBets(
+        game.id,
+        {
+          betsByPlayerId
+        },
+        { expectedRevision: game.revision }
+      );
 
       setGame(updatedGame);
       setPodridaBets(createPlayerValueMap(updatedGame.players, updatedGame.podridaState?.pendingBetsByPlayerId));
     } catch (cause) {
-      setError(cause instanceof Error ? cause.message : 'No se pudieron guardar las apuestas.');
+      handleMutationError(cause, 'No se pudieron guardar las apuestas.');
     } finally {
       setIsSavingPodridaBets(false);
     }
   };
 
-  const handleSavePodridaRound = async () => {
+  const handleSavePodridaRound = async (force = false) => {
     if (!game) {
       return;
     }
@@ -306,34 +624,158 @@ export default function GamePage() {
     setIsSavingPodridaRound(true);
 
     try {
-      const totalsByPlayerId: Record<string, number> = {};
+      const valuesByPlayerId: Record<string, number> = {};
 
       for (const player of game.players) {
-        const value = podridaTotals[player.id]?.trim() ?? '';
+        const value = podridaRoundValues[player.id]?.trim() ?? '';
 
         if (!value) {
-          throw new Error(`Debes ingresar el total acumulado de ${player.name}.`);
+          throw new Error(
+            podridaEntryMode === 'tricks'
+              ? `Debes ingresar las bazas de ${player.name}.`
+              : `Debes ingresar el total acumulado de ${player.name}.`
+          );
         }
 
-        totalsByPlayerId[player.id] = Number(value);
+        valuesByPlayerId[player.id] = Number(value);
       }
 
-      const updatedGame = await repository.addPodridaRound(game.id, {
-        totalsByPlayerId
-      });
+      const updatedGame = await repository.addPodridaRound(
+        game.id,
+        podridaEntryMode === 'tricks'
+          ? { tricksByPlayerId: valuesByPlayerId, force }
+          : { totalsByPlayerId: valuesByPlayerId },
+        { expectedRevision: game.revision }
+      );
 
       setGame(updatedGame);
-      setPodridaTotals(createPlayerValueMap(updatedGame.players));
+      setPodridaRoundValues(createPlayerValueMap(updatedGame.players));
       setPodridaBets(createPlayerValueMap(updatedGame.players, updatedGame.podridaState?.pendingBetsByPlayerId));
     } catch (cause) {
-      setError(cause instanceof Error ? cause.message : 'No se pudo guardar la ronda de Podrida.');
+      handleMutationError(cause, 'No se pudo guardar la ronda de Podrida.');
     } finally {
       setIsSavingPodridaRound(false);
     }
   };
 
+  const startEditingRound = (round: Round) => {
+    if (!game) {
+      return;
+    }
+
+    setError(null);
+    setEditingRoundId(round.id);
+    setEditMode(round.mode);
+    setEditValues(createPlayerValueMap(getScoreTargets(game), getRoundEditValues(game, round)));
+  };
+
+  const cancelEditingRound = () => {
+    setEditingRoundId(null);
+    setEditValues({});
+  };
+
+  const handleEditValueChange = (playerId: string, rawValue: string) => {
+    setEditValues((previous) => ({
+      ...previous,
+      [playerId]: rawValue
+    }));
+  };
+
+  const saveEditedRound = async () => {
+    if (!game || !editingRoundId) {
+      return;
+    }
+
+    setError(null);
+    setIsSavingEdit(true);
+
+    try {
+      const updatedGame = await repository.updateRound(
+        game.id,
+        editingRoundId,
+        toScoresRoundInput(game, editMode, editValues),
+        { expectedRevision: game.revision }
+      );
+
+      setGame(updatedGame);
+      cancelEditingRound();
+    } catch (cause) {
+      handleMutationError(cause, 'No se pudo actualizar la ronda.');
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  const handleUpdateRound = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    void saveEditedRound();
+  };
+
+  const handleUpdateRulesRound = async (round: Round, input: RoundInput) => {
+    if (!game) {
+      return false;
+    }
+
+    setError(null);
+    setIsSavingEdit(true);
+
+    try {
+      const updatedGame = await repository.updateRound(game.id, round.id, input, {
+        expectedRevision: game.revision
+      });
+
+      setGame(updatedGame);
+      return true;
+    } catch (cause) {
+      handleMutationError(cause, 'No se pudo actualizar la mano.');
+      return false;
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  const handleDeleteRound = async (round: Round, roundNumber: number) => {
+    if (!game) {
+      return;
+    }
+
+    const shouldDelete = window.confirm(
+      `¿Seguro que quieres borrar la ronda ${roundNumber}? Los totales posteriores se recalcularán.`
+    );
+
+    if (!shouldDelete) {
+      return;
+    }
+
+    setError(null);
+    setDeletingRoundId(round.id);
+
+    try {
+      const updatedGame = await repository.deleteRound(game.id, round.id, {
+        expectedRevision: game.revision
+      });
+      setGame(updatedGame);
+
+      if (editingRoundId === round.id) {
+        cancelEditingRound();
+      }
+    } catch (cause) {
+      handleMutationError(cause, 'No se pudo borrar la ronda.');
+    } finally {
+      setDeletingRoundId(null);
+    }
+  };
+
+  const handleExportCsv = () => {
+    if (!game) {
+      return;
+    }
+
+    downloadTextFile(getGameCsvFileName(game), gameToCsv(game), 'text/csv;charset=utf-8');
+  };
+
   const handleFinishGame = async () => {
-    if (!game || game.status === 'finished') {
+    if (!game || game.status !== 'open') {
       return;
     }
 
@@ -347,15 +789,116 @@ export default function GamePage() {
     setIsFinishing(true);
 
     try {
-      const updatedGame = await repository.finishGame(game.id);
+      const updatedGame = await repository.finishGame(game.id, {
+        expectedRevision: game.revision
+      });
       setGame(updatedGame);
     } catch (cause) {
-      setError(cause instanceof Error ? cause.message : 'No se pudo finalizar la partida.');
+      handleMutationError(cause, 'No se pudo finalizar la partida.');
     } finally {
       setIsFinishing(false);
     }
   };
 
+  const handleReopenGame = async () => {
+    if (!game || game.status === 'open') {
+      return;
+    }
+
+    const shouldReopen = window.confirm('¿Reabrir esta partida para seguir cargando rondas?');
+
+    if (!shouldReopen) {
+      return;
+    }
+
+    setError(null);
+    setIsUpdatingStatus(true);
+
+    try {
+      const updatedGame = await repository.reopenGame(game.id, {
+        expectedRevision: game.revision
+      });
+      setGame(updatedGame);
+    } catch (cause) {
+      handleMutationError(cause, 'No se pudo reabrir la partida.');
+    } finally {
+      setIsUpdatingStatus(false);
+    }
+  };
+
+  const handleArchiveGame = async () => {
+    if (!game || game.status !== 'finished') {
+      return;
+    }
+
+    const shouldArchive = window.confirm(
+      '¿Archivar esta partida? Dejará de aparecer en el home, pero no se borra.'
+    );
+
+    if (!shouldArchive) {
+      return;
+    }
+
+    setError(null);
+    setIsUpdatingStatus(true);
+
+    try {
+      const updatedGame = await repository.archiveGame(game.id, {
+        expectedRevision: game.revision
+      });
+      setGame(updatedGame);
+    } catch (cause) {
+      handleMutationError(cause, 'No se pudo archivar la partida.');
+    } finally {
+      setIsUpdatingStatus(false);
+    }
+  };
+
+  const handleDeleteGame = async () => {
+    if (!game) {
+      return;
+    }
+
+    const shouldDelete = window.confirm(
+      `¿Mover esta partida a la papelera? Podrás restaurarla durante ${getTrashRetentionDays()} días.`
+    );
+
+    if (!shouldDelete) {
+      return;
+    }
+
+    setError(null);
+    setIsUpdatingStatus(true);
+
+    try {
+      await repository.deleteGame(game.id, { expectedRevision: game.revision });
+      router.push('/');
+    } catch (cause) {
+      handleMutationError(cause, 'No se pudo borrar la partida.');
+      setIsUpdatingStatus(false);
+    }
+  };
+
+  const handleRestoreGame = async () => {
+    if (!game?.deletedAt) {
+      return;
+    }
+
+    setError(null);
+    setIsUpdatingStatus(true);
+
+    try {
+      const updatedGame = await repository.restoreGame(game.id, {
+        expectedRevision: game.revision
+      });
+      setGame(updatedGame);
+    } catch (cause) {
+      handleMutationError(cause, 'No se pudo restaurar la partida.');
+    } finally {
+      setIsUpdatingStatus(false);
+    }
+  };
+
   if (error && !game) {
     return (
       <main className="page">
@@ -379,6 +922,32 @@ export default function GamePage() {
     );
   }
 
+  const isEditable = game.status === 'open' && !game.deletedAt;
+  const endCondition = getEndCondition(game);
+  const winnerNames = getWinnerNames(game);
+  const teamTotals = getTeamTotals(game);
+  const playersById = new Map(game.players.map((player) => [player.id, player]));
+  const scoreEntryGroups = getScoreEntryGroups(game);
+  const teamStandings = getTeamStandings(game);
+  const tieBreak = getTieBreakPolicy(game);
+  const podium: PodiumEntry[] = game.teams?.length
+    ? teamStandings.slice(0, 3).map(({ competitor: team, total, place }) => ({
+        id: team.id,
+        name: team.name,
+        color: team.color,
+        score: total,
+        place,
+        isWinner: team.playerIds.some((playerId) => winnerIds.has(playerId))
+      }))
+    : standings.slice(0, 3).map(({ competitor: player, total, place }) => ({
+        id: player.id,
+        name: player.name,
+        color: player.color,
+        score: total,
+        place,
+        isWinner: winnerIds.has(player.id)
+      }));
+
   return (
     <main className="page">
       <section className="panel">
@@ -386,68 +955,230 @@ export default function GamePage() {
           <div>
             <div className="game-title-line">
               <h1>{getGameDisplayName(game)}</h1>
-              <span className="game-type-badge">{getGameTypeLabel(gameType)}</span>
+              <span className="game-type-badge">{rules.label}</span>
             </div>
             <p>
-              Estado: {game.status === 'open' ? 'Abierta' : 'Terminada'} · Rondas: {game.rounds.length}
+              Estado: {getGameStatusLabel(game.status)} · Rondas: {game.rounds.length}
             </p>
             <p>Creada: {formatDate(game.createdAt)}</p>
+            {endCondition && <p>{getEndConditionLabel(endCondition)}</p>}
+            {getScoringDirection(game) === 'lowest-wins' && (
+              <p>{getScoringDirectionLabel('lowest-wins')}</p>
+            )}
+            {tieBreak !== 'shared' && <p>Desempate: {getTieBreakLabel(tieBreak)}</p>}
+            {isEditable && currentDealer && firstPlayer && (
+              <p className="turn-line">
+                Reparte:{' '}
+                <span
+                  className="player-name-tag compact"
+                  style={{ backgroundColor: getPlayerColor(currentDealer.color) }}
+                >
+                  {currentDealer.name}
+                </span>{' '}
+                · Empieza:{' '}
+                <span
+                  className="player-name-tag compact"
+                  style={{ backgroundColor: getPlayerColor(firstPlayer.color) }}
+                >
+                  {firstPlayer.name}
+                </span>
+              </p>
+            )}
             {game.finishedAt && <p>Finalizada: {formatDate(game.finishedAt)}</p>}
+            {game.archivedAt && <p>Archivada: {formatDate(game.archivedAt)}</p>}
+            {game.deletedAt && (
+              <p className="error">En la papelera desde {formatDate(game.deletedAt)}.</p>
+            )}
           </div>
 
           <div className="row-actions">
             <Link href="/" className="secondary inline-btn">
               Volver al home
             </Link>
-            <button
-              type="button"
-              className="danger"
-              onClick={handleFinishGame}
-              disabled={game.status === 'finished' || isFinishing}
-            >
-              {game.status === 'finished'
-                ? 'Partida terminada'
-                : isFinishing
-                  ? 'Terminando...'
-                  : 'Terminar partida'}
+            <button type="button" className="secondary" onClick={handleExportCsv}>
+              Exportar CSV
             </button>
+            {game.deletedAt ? (
+              <button
+                type="button"
+                className="primary"
+                onClick={() => void handleRestoreGame()}
+                disabled={isUpdatingStatus}
+              >
+                Restaurar partida
+              </button>
+            ) : game.status === 'open' ? (
+              <button
+                type="button"
+                className="danger"
+                onClick={handleFinishGame}
+                disabled={isFinishing}
+              >
+                {isFinishing ? 'Terminando...' : 'Terminar partida'}
+              </button>
+            ) : (
+              <button
+                type="button"
+                className="primary"
+                onClick={() => void handleReopenGame()}
+                disabled={isUpdatingStatus}
+              >
+                Reabrir partida
+              </button>
+            )}
+            {game.status === 'finished' && !game.deletedAt && (
+              <button
+                type="button"
+                className="secondary"
+                onClick={() => void handleArchiveGame()}
+                disabled={isUpdatingStatus}
+              >
+                Archivar
+              </button>
+            )}
+            {!game.deletedAt && (
+              <button
+                type="button"
+                className="danger"
+                onClick={() => void handleDeleteGame()}
+                disabled={isUpdatingStatus}
+              >
+                Borrar partida
+              </button>
+            )}
           </div>
         </div>
       </section>
 
-      {gameType === 'classic' && (
-        <section className="panel">
-          <h2>Totales actuales</h2>
-          <ul className="ranking">
-            {ranking.map((player, index) => (
-              <li key={player.id} className="ranking-item">
-                <div className="player-badge">
-                  <span className="player-rank">{index + 1}.</span>
-                  <span
-                    className="player-name-tag"
-                    style={{ backgroundColor: getPlayerColor(player.color) }}
-                  >
-                    {player.name}
-                  </span>
-                </div>
-                <span className="score">{totals[player.id] ?? 0}</span>
+      {game.status !== 'open' && winnerNames.length > 0 && (
+        <section className="panel results-panel">
+          <h2>Resultado final</h2>
+          <p className="results-winners">
+            {winnerNames.length === 1 ? 'Ganó' : 'Empataron'} {winnerNames.join(' y ')}
+          </p>
+          <ol className="podium">
+            {podium.map((entry, index) => (
+              <li
+                key={entry.id}
+                className={`podium-step podium-step-${index + 1}${entry.isWinner ? ' winner' : ''}`}
+              >
+                <span
+                  className="player-name-tag"
+                  style={{ backgroundColor: getPlayerColor(entry.color) }}
+                >
+                  {entry.name}
+                </span>
+                <span className="score">{entry.score}</span>
+                <span className="podium-place">{entry.place}°</span>
               </li>
             ))}
-          </ul>
+          </ol>
+        </section>
+      )}
+
+      {tieBreak === 'playoff' && (
+        <PlayoffPanel
+          game={game}
+          canRecord={!game.deletedAt && game.status !== 'archived'}
+          isSaving={isSavingPlayoff}
+          error={error}
+          onAddPlayoff={handleAddPlayoff}
+        />
+      )}
+
+      {roundForm === 'scores' && (
+        <section className="panel">
+          <h2>Totales actuales</h2>
+          {game.teams?.length ? (
+            <>
+              <p className="hint">{getTeamScoringLabel(getTeamScoring(game))}</p>
+              <ul className="ranking">
+                {teamStandings.map(({ competitor: team, place }) => (
+                  <li key={team.id} className="ranking-item">
+                    <div className="stack-sm">
+                      <div className="player-badge">
+                        <span className="player-rank">{place}.</span>
+                        <span
+                          className="player-name-tag"
+                          style={{ backgroundColor: getPlayerColor(team.color) }}
+                        >
+                          {team.name}
+                        </span>
+                      </div>
+                      <div className="game-players-line">
+                        {team.playerIds.map((playerId) => (
+                          <span
+                            key={playerId}
+                            className="player-name-tag compact"
+                            style={{ backgroundColor: getPlayerColor(playersById.get(playerId)?.color) }}
+                          >
+                            {getPlayerName(playerId)}
+                            {!isScoredPerTeam(game) && ` · ${totals[playerId] ?? 0}`}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    <span className="score">{teamTotals[team.id] ?? 0}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <ul className="ranking">
+              {standings.map(({ competitor: player, place }) => (
+                <li key={player.id} className="ranking-item">
+                  <div className="player-badge">
+                    <span className="player-rank">{place}.</span>
+                    <span
+                      className="player-name-tag"
+                      style={{ backgroundColor: getPlayerColor(player.color) }}
+                    >
+                      {player.name}
+                    </span>
+                  </div>
+                  <span className="score">{totals[player.id] ?? 0}</span>
+                </li>
+              ))}
+            </ul>
+          )}
         </section>
       )}
 
-      {gameType === 'podrida' ? (
+      {roundForm === 'podrida' ? (
         <>
           <section className="panel">
             <h2>Podrida</h2>
             {podridaMaxCards !== null && (
               <p className="hint">
-                Máximo por ronda: {podridaMaxCards} cartas ({game.players.length} jugadores, baraja de 48
-                cartas) · Jugadas: {podridaRounds.length}/{totalPodridaRounds} · Quedan:{' '}
-                {remainingPodridaRounds}
+                Máximo por ronda: {podridaMaxCards} cartas ({game.players.length} jugadores, baraja de{' '}
+                {podridaSettings?.deckSize} cartas) · Jugadas: {podridaRounds.length}/{totalPodridaRounds}{' '}
+                · Quedan: {remainingPodridaRounds}
+              </p>
+            )}
+            {podridaSettings && (
+              <p className="hint">{getPodridaSequenceLabel(podridaSettings)}.</p>
+            )}
+            {podridaSettings && (
+              <p className="hint">
+                Puntaje: {podridaSettings.hitBonus} por acertar + {podridaSettings.pointsPerTrick} por
+                baza.
               </p>
             )}
+            {nextPodridaCards !== null && isEditable && (
+              <label className="field">
+                <span>Cierre de ronda</span>
+                <select
+                  value={podridaEntryMode}
+                  onChange={(event) => {
+                    setPodridaEntryMode(event.target.value as PodridaEntryMode);
+                    clearPodridaRoundValues();
+                  }}
+                >
+                  <option value="tricks">Cargar bazas (puntaje automático)</option>
+                  <option value="totals">Cargar total acumulado a mano</option>
+                </select>
+              </label>
+            )}
             <div className="podrida-table-wrap">
               <table className="podrida-table compact">
                 <thead>
@@ -462,14 +1193,70 @@ export default function GamePage() {
                             {player.name}
                           </span>
                           <small>Apuesta / Total</small>
+                          {nextPodridaCards !== null && isEditable && getTurnBadge(player.id) && (
+                            <span className="turn-badge">{getTurnBadge(player.id)}</span>
+                          )}
                         </th>
                       ))}
                   </tr>
                 </thead>
                 <tbody>
                   {podridaRounds.map((round, index) => {
-                    const totalsByPlayerId = getRoundTotalsByPlayer(round);
+                    const totalsByPlayerId = getRoundTotalsByPlayer(roundResultsById.get(round.id));
                     const betsByPlayerId = round.betsByPlayerId ?? {};
+                    const tricksByPlayerId = round.tricksByPlayerId;
+                    const roundNumber = game.rounds.indexOf(round) + 1;
+
+                    if (editingRoundId === round.id) {
+                      return (
+                        <tr key={round.id} className="podrida-input-row">
+                          <td className="podrida-control-cell">
+                            <div className="podrida-cards-cell">
+                              <span className="cards-pill">Cartas: {round.cardsCount ?? '-'}</span>
+                              <small>Corregir Ronda {index + 1}</small>
+                            </div>
+                            <select
+                              value={editMode}
+                              onChange={(event) => setEditMode(event.target.value as 'add' | 'set')}
+                            >
+                              {rules.roundInput.modes.map((roundMode) => (
+                                <option key={roundMode} value={roundMode}>
+                                  {roundMode === 'add' ? 'Sumar' : 'Fijar total'}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              type="button"
+                              className="primary podrida-row-action"
+                              onClick={() => void saveEditedRound()}
+                              disabled={isSavingEdit}
+                            >
+                              {isSavingEdit ? 'Guardando...' : 'Guardar cambios'}
+                            </button>
+                            <button
+                              type="button"
+                              className="secondary podrida-row-action soft"
+                              onClick={cancelEditingRound}
+                            >
+                              Cancelar
+                            </button>
+                          </td>
+                          {game.players.map((player) => (
+                            <td key={`${round.id}-${player.id}`}>
+                              <input
+                                type="number"
+                                inputMode="decimal"
+                                step="any"
+                                className="podrida-cell-input"
+                                placeholder={editMode === 'add' ? 'Puntos' : 'Total'}
+                                value={editValues[player.id] ?? ''}
+                                onChange={(event) => handleEditValueChange(player.id, event.target.value)}
+                              />
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    }
 
                     return (
                       <tr key={round.id}>
@@ -477,14 +1264,39 @@ export default function GamePage() {
                           <div className="podrida-cards-cell">
                             <span className="cards-pill">Cartas: {round.cardsCount ?? '-'}</span>
                             <small>Ronda {index + 1}</small>
+                            {round.dealerId && <small>Repartió {getPlayerName(round.dealerId)}</small>}
                           </div>
+                          {isEditable && (
+                            <div className="history-actions">
+                              <button
+                                type="button"
+                                className="secondary podrida-row-action"
+                                onClick={() => startEditingRound(round)}
+                              >
+                                Editar
+                              </button>
+                              {index === podridaRounds.length - 1 && (
+                                <button
+                                  type="button"
+                                  className="danger podrida-row-action"
+                                  onClick={() => void handleDeleteRound(round, roundNumber)}
+                                  disabled={deletingRoundId === round.id}
+                                >
+                                  {deletingRoundId === round.id ? 'Borrando...' : 'Borrar'}
+                                </button>
+                              )}
+                            </div>
+                          )}
                         </td>
                         {game.players.map((player) => (
                           <td key={`${round.id}-${player.id}`}>
                             <div className="podrida-cell-split">
                               <span className="podrida-metric bet">
-                                <small>Apuesta</small>
-                                <strong>{betsByPlayerId[player.id] ?? '-'}</strong>
+                                <small>{tricksByPlayerId ? 'Apuesta / Bazas' : 'Apuesta'}</small>
+                                <strong>
+                                  {betsByPlayerId[player.id] ?? '-'}
+                                  {tricksByPlayerId && ` / ${tricksByPlayerId[player.id] ?? '-'}`}
+                                </strong>
                               </span>
                               <span className="podrida-metric total">
                                 <small>Total</small>
@@ -497,7 +1309,7 @@ export default function GamePage() {
                     );
                   })}
 
-                  {nextPodridaCards !== null && game.status === 'open' && (
+                  {nextPodridaCards !== null && isEditable && (
                     <>
                       <tr className="podrida-input-row bets">
                         <td className="podrida-control-cell">
@@ -520,12 +1332,19 @@ export default function GamePage() {
                               type="number"
                               inputMode="numeric"
                               step="1"
+                              min={0}
+                              max={nextPodridaCards}
                               className="podrida-cell-input"
                               placeholder="Apuesta"
                               value={podridaBets[player.id] ?? ''}
                               onChange={(event) => handlePodridaBetsChange(player.id, event.target.value)}
-                              disabled={game.status === 'finished'}
+                              disabled={!isEditable}
                             />
+                            {player.id === currentDealer?.id && forbiddenDealerBet !== null && (
+                              <small className="podrida-score-preview warning">
+                                No puede: {forbiddenDealerBet}
+                              </small>
+                            )}
                           </td>
                         ))}
                       </tr>
@@ -541,30 +1360,56 @@ export default function GamePage() {
                             onClick={() => void handleSavePodridaRound()}
                             disabled={isSavingPodridaRound || !hasPendingPodridaBets}
                           >
-                            {isSavingPodridaRound ? 'Guardando...' : 'Guardar Totales'}
+                            {isSavingPodridaRound
+                              ? 'Guardando...'
+                              : podridaEntryMode === 'tricks'
+                                ? 'Guardar Bazas'
+                                : 'Guardar Totales'}
                           </button>
+                          {podridaTricksCheck?.isMismatch && (
+                            <button
+                              type="button"
+                              className="danger podrida-row-action"
+                              onClick={() => void handleSavePodridaRound(true)}
+                              disabled={isSavingPodridaRound}
+                            >
+                              Guardar igual
+                            </button>
+                          )}
                           <button
                             type="button"
                             className="secondary podrida-row-action soft"
-                            onClick={clearPodridaTotals}
+                            onClick={clearPodridaRoundValues}
                           >
                             Limpiar
                           </button>
                         </td>
-                        {game.players.map((player) => (
-                          <td key={`total-${player.id}`}>
-                            <input
-                              type="number"
-                              inputMode="decimal"
-                              step="any"
-                              className="podrida-cell-input"
-                              placeholder="Total"
-                              value={podridaTotals[player.id] ?? ''}
-                              onChange={(event) => handlePodridaTotalsChange(player.id, event.target.value)}
-                              disabled={game.status === 'finished' || !hasPendingPodridaBets}
-                            />
-                          </td>
-                        ))}
+                        {game.players.map((player) => {
+                          const score = getPodridaScorePreview(player.id);
+
+                          return (
+                            <td key={`total-${player.id}`}>
+                              <input
+                                type="number"
+                                inputMode={podridaEntryMode === 'tricks' ? 'numeric' : 'decimal'}
+                                step={podridaEntryMode === 'tricks' ? '1' : 'any'}
+                                min={podridaEntryMode === 'tricks' ? 0 : undefined}
+                                className={`podrida-cell-input${
+                                  podridaTricksCheck?.suspectPlayerIds.includes(player.id) ? ' suspect' : ''
+                                }`}
+                                placeholder={podridaEntryMode === 'tricks' ? 'Bazas' : 'Total'}
+                                value={podridaRoundValues[player.id] ?? ''}
+                                onChange={(event) => handlePodridaRoundValueChange(player.id, event.target.value)}
+                                disabled={!isEditable || !hasPendingPodridaBets}
+                              />
+                              {score !== null && (
+                                <small className="podrida-score-preview">
+                                  {score >= 0 ? `+${score}` : score}
+                                </small>
+                              )}
+                            </td>
+                          );
+                        })}
                       </tr>
                     </>
                   )}
@@ -580,17 +1425,109 @@ export default function GamePage() {
               </table>
             </div>
 
+            {nextPodridaCards !== null && isEditable && (
+              <div className="stack-sm">
+                <p className="hint">
+                  Orden de apuesta:{' '}
+                  {turnOrder
+                    .map((player) =>
+                      player.id === currentDealer?.id ? `${player.name} (reparte)` : player.name
+                    )
+                    .join(' → ')}
+                </p>
+                <p
+                  className={`bets-indicator ${
+                    typedPodridaBetsSum === nextPodridaCards
+                      ? podridaSettings?.dealerCannotMatchCards
+                        ? 'warning'
+                        : ''
+                      : typedPodridaBetsSum > nextPodridaCards
+                        ? 'over'
+                        : 'under'
+                  }`}
+                >
+                  Apuestas: {typedPodridaBetsSum} / {nextPodridaCards} cartas ·{' '}
+                  {typedPodridaBetsSum === nextPodridaCards
+                    ? 'igual a las cartas'
+                    : typedPodridaBetsSum > nextPodridaCards
+                      ? `${typedPodridaBetsSum - nextPodridaCards} de más`
+                      : `${nextPodridaCards - typedPodridaBetsSum} de menos`}
+                </p>
+              </div>
+            )}
+
+            {podridaTricksCheck && (
+              <p className={`bets-indicator ${podridaTricksCheck.isMismatch ? 'warning' : ''}`}>
+                Bazas: {podridaTricksCheck.tricksTotal} / {podridaTricksCheck.cardsCount} cartas
+                {podridaTricksCheck.isMismatch && ' · no coinciden con las cartas repartidas'}
+              </p>
+            )}
+
             {hasPendingPodridaBets && nextPodridaCards !== null && (
-              <p className="hint">Apuestas guardadas. Completa los totales para cerrar la ronda actual.</p>
+              <p className="hint">
+                {podridaEntryMode === 'tricks'
+                  ? 'Apuestas guardadas. Ingresa las bazas de cada jugador para cerrar la ronda actual.'
+                  : 'Apuestas guardadas. Completa los totales para cerrar la ronda actual.'}
+              </p>
             )}
 
             {!hasPendingPodridaBets && nextPodridaCards !== null && (
-              <p className="empty">Guarda primero las apuestas para habilitar la fila de totales.</p>
+              <p className="empty">Guarda primero las apuestas para habilitar la fila de cierre.</p>
             )}
 
             {error && <p className="error">{error}</p>}
           </section>
         </>
+      ) : roundForm === 'truco' ? (
+        <TrucoBoard
+          game={game}
+          isEditable={isEditable}
+          isSaving={isSavingRound}
+          isSavingEdit={isSavingEdit}
+          deletingRoundId={deletingRoundId}
+          error={error}
+          onAddHand={(valuesByTeamId) =>
+            handleAddRulesRound({ mode: 'add', valuesByPlayerId: {}, valuesByTeamId })
+          }
+          onUpdateRound={handleUpdateRulesRound}
+          onDeleteRound={(round, roundNumber) => void handleDeleteRound(round, roundNumber)}
+        />
+      ) : roundForm === 'chinchon' ? (
+        <ChinchonBoard
+          game={game}
+          isEditable={isEditable}
+          isSaving={isSavingRound}
+          isSavingEdit={isSavingEdit}
+          deletingRoundId={deletingRoundId}
+          error={error}
+          onAddRound={handleAddRulesRound}
+          onUpdateRound={handleUpdateRulesRound}
+          onDeleteRound={(round, roundNumber) => void handleDeleteRound(round, roundNumber)}
+        />
+      ) : roundForm === 'burako' ? (
+        <BurakoBoard
+          game={game}
+          isEditable={isEditable}
+          isSaving={isSavingRound}
+          isSavingEdit={isSavingEdit}
+          deletingRoundId={deletingRoundId}
+          error={error}
+          onAddRound={handleAddRulesRound}
+          onUpdateRound={handleUpdateRulesRound}
+          onDeleteRound={(round, roundNumber) => void handleDeleteRound(round, roundNumber)}
+        />
+      ) : roundForm === 'generala' ? (
+        <GeneralaBoard
+          game={game}
+          isEditable={isEditable}
+          isSaving={isSavingRound}
+          isSavingEdit={isSavingEdit}
+          deletingRoundId={deletingRoundId}
+          error={error}
+          onAddRound={handleAddRulesRound}
+          onUpdateRound={handleUpdateRulesRound}
+          onDeleteRound={(round, roundNumber) => void handleDeleteRound(round, roundNumber)}
+        />
       ) : (
         <>
           <section className="panel">
@@ -599,44 +1536,59 @@ export default function GamePage() {
               <label className="field">
                 <span>Modo de carga</span>
                 <select value={mode} onChange={(event) => setMode(event.target.value as 'add' | 'set')}>
-                  <option value="add">Sumar valor a cada jugador</option>
-                  <option value="set">Fijar total directo de cada jugador</option>
+                  {rules.roundInput.modes.map((roundMode) => (
+                    <option key={roundMode} value={roundMode}>
+                      {ROUND_MODE_LABELS[roundMode]}
+                    </option>
+                  ))}
                 </select>
               </label>
 
-              <div className="stack-sm">
-                {game.players.map((player) => {
-                  const playerColor = getPlayerColor(player.color);
-                  const rowStyle = {
-                    '--round-player-color': playerColor
-                  } as CSSProperties;
+              {scoreEntryGroups.map((group, groupIndex) => (
+                <div key={group.team?.id ?? groupIndex} className="stack-sm">
+                  {group.team && (
+                    <span
+                      className="player-name-tag compact"
+                      style={{ backgroundColor: getPlayerColor(group.team.color) }}
+                    >
+                      {group.team.name}
+                    </span>
+                  )}
+                  {group.targets.map((target) => {
+                    const playerColor = getPlayerColor(target.color);
+                    const rowStyle = {
+                      '--round-player-color': playerColor
+                    } as CSSProperties;
 
-                  return (
-                    <label key={player.id} className="round-entry-row" style={rowStyle}>
-                      <span
-                        className="player-name-tag field-player-tag"
-                        style={{ backgroundColor: playerColor }}
-                      >
-                        {player.name}
-                      </span>
-                      <input
-                        type="number"
-                        inputMode="decimal"
-                        step="any"
-                        placeholder={mode === 'add' ? 'Ej: 5 o -2' : 'Ej: 23'}
-                        value={values[player.id] ?? ''}
-                        onChange={(event) => handleValueChange(player.id, event.target.value)}
-                        disabled={game.status === 'finished'}
-                      />
-                    </label>
-                  );
-                })}
-              </div>
+                    return (
+                      <label key={target.id} className="round-entry-row" style={rowStyle}>
+                        <span
+                          className="player-name-tag field-player-tag"
+                          style={{ backgroundColor: playerColor }}
+                        >
+                          {target.name}
+                          {isEditable && getTurnBadge(target.id) && ` · ${getTurnBadge(target.id)}`}
+                        </span>
+                        <input
+                          type="number"
+                          inputMode="decimal"
+                          step="any"
+                          placeholder={mode === 'add' ? 'Ej: 5 o -2' : 'Ej: 23'}
+                          value={values[target.id] ?? ''}
+                          onChange={(event) => handleValueChange(target.id, event.target.value)}
+                          disabled={!isEditable}
+                          required={rules.roundInput.requiresAllPlayers}
+                        />
+                      </label>
+                    );
+                  })}
+                </div>
+              ))}
 
               {error && <p className="error">{error}</p>}
 
               <div className="row-actions">
-                <button type="submit" className="primary" disabled={isSavingRound || game.status === 'finished'}>
+                <button type="submit" className="primary" disabled={isSavingRound || !isEditable}>
                   {isSavingRound ? 'Guardando...' : 'Guardar ronda'}
                 </button>
                 <button type="button" className="secondary" onClick={clearValues}>
@@ -652,34 +1604,156 @@ export default function GamePage() {
               <p className="empty">Todavía no hay rondas cargadas.</p>
             ) : (
               <ul className="history-list">
-                {[...game.rounds].reverse().map((round, index) => (
-                  <li key={round.id} className="history-item">
-                    <span className="history-date">{formatDate(round.createdAt)}</span>
-                    <div className="history-header">
-                      <strong>Ronda {game.rounds.length - index}</strong>
-                    </div>
-                    <p className="history-mode">Modo: {round.mode === 'add' ? 'Sumar' : 'Fijar total'}</p>
-                    <div className="history-changes">
-                      {round.entries.map((entry) => {
-                        const player = game.players.find((current) => current.id === entry.playerId);
-                        const playerName = player?.name ?? 'Jugador';
-                        const playerColor = getPlayerColor(player?.color);
-
-                        return (
-                          <span key={`${round.id}-${entry.playerId}`} className="history-change">
-                            <span
-                              className="player-name-tag compact"
-                              style={{ backgroundColor: playerColor }}
+                {[...game.rounds].reverse().map((round, index) => {
+                  const roundNumber = game.rounds.length - index;
+                  const roundResult = roundResultsById.get(round.id);
+
+                  return (
+                    <li key={round.id} className="history-item">
+                      <span className="history-date">{formatDate(round.createdAt)}</span>
+                      <div className="history-header">
+                        <strong>Ronda {roundNumber}</strong>
+                        {round.dealerId && (
+                          <span className="history-mode">Repartió: {getPlayerName(round.dealerId)}</span>
+                        )}
+                      </div>
+                      {editingRoundId === round.id ? (
+                        <form className="stack-sm history-edit" onSubmit={handleUpdateRound}>
+                          <label className="field">
+                            <span>Modo de carga</span>
+                            <select
+                              value={editMode}
+                              onChange={(event) => setEditMode(event.target.value as 'add' | 'set')}
                             >
-                              {playerName}
-                            </span>
-                            <strong>{entry.delta >= 0 ? `+${entry.delta}` : entry.delta}</strong>
-                          </span>
-                        );
-                      })}
-                    </div>
-                  </li>
-                ))}
+                              {rules.roundInput.modes.map((roundMode) => (
+                                <option key={roundMode} value={roundMode}>
+                                  {ROUND_MODE_LABELS[roundMode]}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+
+                          {scoreEntryGroups.map((group, groupIndex) => (
+                            <div key={group.team?.id ?? groupIndex} className="stack-sm">
+                              {group.team && (
+                                <span
+                                  className="player-name-tag compact"
+                                  style={{ backgroundColor: getPlayerColor(group.team.color) }}
+                                >
+                                  {group.team.name}
+                                </span>
+                              )}
+                              {group.targets.map((target) => {
+                                const playerColor = getPlayerColor(target.color);
+                                const rowStyle = {
+                                  '--round-player-color': playerColor
+                                } as CSSProperties;
+
+                                return (
+                                  <label key={target.id} className="round-entry-row" style={rowStyle}>
+                                    <span
+                                      className="player-name-tag field-player-tag"
+                                      style={{ backgroundColor: playerColor }}
+                                    >
+                                      {target.name}
+                                    </span>
+                                    <input
+                                      type="number"
+                                      inputMode="decimal"
+                                      step="any"
+                                      value={editValues[target.id] ?? ''}
+                                      onChange={(event) => handleEditValueChange(target.id, event.target.value)}
+                                    />
+                                  </label>
+                                );
+                              })}
+                            </div>
+                          ))}
+
+                          {error && <p className="error">{error}</p>}
+
+                          <div className="row-actions">
+                            <button type="submit" className="primary" disabled={isSavingEdit}>
+                              {isSavingEdit ? 'Guardando...' : 'Guardar cambios'}
+                            </button>
+                            <button type="button" className="secondary" onClick={cancelEditingRound}>
+                              Cancelar
+                            </button>
+                          </div>
+                        </form>
+                      ) : (
+                        <>
+                          <p className="history-mode">
+                            Modo: {round.mode === 'add' ? 'Sumar' : 'Fijar total'}
+                          </p>
+                          {Boolean(game.teams?.length) && roundResult && (
+                            <div className="history-changes">
+                              {Object.entries(getRoundTeamDeltas(game, roundResult)).map(
+                                ([teamId, delta]) => {
+                                  const team = game.teams?.find((current) => current.id === teamId);
+
+                                  return (
+                                    <span key={`${round.id}-${teamId}`} className="history-change">
+                                      <span
+                                        className="player-name-tag compact"
+                                        style={{ backgroundColor: getPlayerColor(team?.color) }}
+                                      >
+                                        {team?.name ?? 'Equipo'}
+                                      </span>
+                                      <strong>{delta >= 0 ? `+${delta}` : delta}</strong>
+                                    </span>
+                                  );
+                                }
+                              )}
+                            </div>
+                          )}
+                          {!isScoredPerTeam(game) && (
+                            <div className="history-changes">
+                              {(roundResult?.entries ?? []).map((entry) => {
+                                const player = game.players.find(
+                                  (current) => current.id === entry.playerId
+                                );
+                                const playerName = player?.name ?? 'Jugador';
+                                const playerColor = getPlayerColor(player?.color);
+
+                                return (
+                                  <span key={`${round.id}-${entry.playerId}`} className="history-change">
+                                    <span
+                                      className="player-name-tag compact"
+                                      style={{ backgroundColor: playerColor }}
+                                    >
+                                      {playerName}
+                                    </span>
+                                    <strong>{entry.delta >= 0 ? `+${entry.delta}` : entry.delta}</strong>
+                                  </span>
+                                );
+                              })}
+                            </div>
+                          )}
+                          {isEditable && (
+                            <div className="history-actions">
+                              <button
+                                type="button"
+                                className="secondary"
+                                onClick={() => startEditingRound(round)}
+                              >
+                                Editar
+                              </button>
+                              <button
+                                type="button"
+                                className="danger"
+                                onClick={() => void handleDeleteRound(round, roundNumber)}
+                                disabled={deletingRoundId === round.id}
+                              >
+                                {deletingRoundId === round.id ? 'Borrando...' : 'Borrar'}
+                              </button>
+                            </div>
+                          )}
+                        </>
+                      )}
+                    </li>
+                  );
+                })}
               </ul>
             )}
           </section>
@@ -0,0 +1,100 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { Game } from '@/lib/types';
+import { getTiedCompetitorIds } from '@/lib/utils/game';
+
+interface PlayoffPanelProps {
+  game: Game;
+  /** False for games in the recycle bin or archived. */
+  canRecord: boolean;
+  isSaving: boolean;
+  error: string | null;
+  /** Resolves to true once the playoff is saved. */
+  onAddPlayoff: (scoresById: Record<string, number>) => Promise<boolean>;
+}
+
+export function PlayoffPanel({ game, canRecord, isSaving, error, onAddPlayoff }: PlayoffPanelProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const competitors = [...(game.teams ?? []), ...game.players];
+  const competitorsById = new Map(competitors.map((competitor) => [competitor.id, competitor]));
+  const tiedIds = getTiedCompetitorIds(game);
+  const playoffs = game.playoffs ?? [];
+
+  if (tiedIds.length === 0 && playoffs.length === 0) {
+    return null;
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const scoresById: Record<string, number> = {};
+
+    for (const id of tiedIds) {
+      if (values[id]?.trim()) {
+        scoresById[id] = Number(values[id]);
+      }
+    }
+
+    if (await onAddPlayoff(scoresById)) {
+      setValues({});
+    }
+  };
+
+  return (
+    <section className="panel">
+      <h2>Ronda de desempate</h2>
+      {tiedIds.length > 0 ? (
+        <p className="hint">
+          Empatados: {tiedIds.map((id) => competitorsById.get(id)?.name).join(', ')}. Carguen el
+          resultado de una ronda extra; no cambia los totales.
+        </p>
+      ) : (
+        <p className="hint">Ya no quedan empates.</p>
+      )}
+
+      {canRecord && tiedIds.length > 0 && (
+        <form className="stack" onSubmit={(event) => void handleSubmit(event)}>
+          <div className="stack-sm">
+            {tiedIds.map((id) => (
+              <label key={id} className="field">
+                <span>{competitorsById.get(id)?.name}</span>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  step="any"
+                  required
+                  value={values[id] ?? ''}
+                  onChange={(event) =>
+                    setValues((previous) => ({ ...previous, [id]: event.target.value }))
+                  }
+                />
+              </label>
+            ))}
+          </div>
+
+          {error && <p className="error">{error}</p>}
+
+          <button type="submit" className="primary" disabled={isSaving}>
+            {isSaving ? 'Guardando...' : 'Guardar desempate'}
+          </button>
+        </form>
+      )}
+
+      {playoffs.length > 0 && (
+        <ul className="history-list">
+          {playoffs.map((playoff, index) => (
+            <li key={playoff.id} className="history-item">
+              <strong>Desempate {index + 1}</strong>
+              <p>
+                {Object.entries(playoff.scoresById)
+                  .map(([id, score]) => `${competitorsById.get(id)?.name ?? 'Jugador'}: ${score}`)
+                  .join(' · ')}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { Game, Round, RoundInput, Team } from '@/lib/types';
+import { getTeamTotals } from '@/lib/utils/game';
+import {
+  FOSFOROS_PER_SQUARE,
+  getFosforoSquares,
+  getTrucoScoreLabel,
+  getTrucoSettings,
+  TRUCO_QUICK_ADDS
+} from '@/lib/utils/truco';
+
+interface TrucoBoardProps {
+  game: Game;
+  isEditable: boolean;
+  isSaving: boolean;
+  isSavingEdit: boolean;
+  deletingRoundId: string | null;
+  error: string | null;
+  /** Resolves to true once the hand is saved. */
+  onAddHand: (valuesByTeamId: Record<string, number>) => Promise<boolean>;
+  /** Resolves to true once the edited hand is saved. */
+  onUpdateRound: (round: Round, input: RoundInput) => Promise<boolean>;
+  onDeleteRound: (round: Round, roundNumber: number) => void;
+}
+
+// Left, top, right and bottom sides, then the diagonal that closes the square.
+const FOSFORO_LINES = [
+  [4, 4, 4, 24],
+  [4, 4, 24, 4],
+  [24, 4, 24, 24],
+  [4, 24, 24, 24],
+  [4, 24, 24, 4]
+];
+
+function FosforoSquare({ sticks }: { sticks: number }) {
+  return (
+    <svg className="fosforo-square" viewBox="0 0 28 28" aria-hidden="true">
+      {FOSFORO_LINES.slice(0, sticks).map(([x1, y1, x2, y2], index) => (
+        <line key={index} x1={x1} y1={y1} x2={x2} y2={y2} />
+      ))}
+    </svg>
+  );
+}
+
+function FosforoTally({ points, target }: { points: number; target: number }) {
+  const squares = getFosforoSquares(points, target);
+  const half = target / 2;
+
+  return (
+    <div className="fosforo-tally" aria-label={`${points} puntos`}>
+      {squares.map((sticks, index) => (
+        <span key={index} className="fosforo-group">
+          {target === 30 && index * FOSFOROS_PER_SQUARE === half && (
+            <span className="fosforo-divider" />
+          )}
+          <FosforoSquare sticks={sticks} />
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function getHandPoints(round: Round, team: Team): number {
+  return round.entries.find((entry) => entry.playerId === team.playerIds[0])?.value ?? 0;
+}
+
+export function TrucoBoard({
+  game,
+  isEditable,
+  isSaving,
+  isSavingEdit,
+  deletingRoundId,
+  error,
+  onAddHand,
+  onUpdateRound,
+  onDeleteRound
+}: TrucoBoardProps) {
+  const [pendingByTeamId, setPendingByTeamId] = useState<Record<string, number>>({});
+  const [editingRoundId, setEditingRoundId] = useState<string | null>(null);
+  const [editValues, setEditValues] = useState<Record<string, string>>({});
+  const teams = game.teams ?? [];
+  const { target } = getTrucoSettings(game);
+  const teamTotals = getTeamTotals(game);
+  const pendingTotal = Object.values(pendingByTeamId).reduce((sum, value) => sum + value, 0);
+  const playersById = new Map(game.players.map((player) => [player.id, player]));
+
+  const addPoints = (teamId: string, points: number) => {
+    setPendingByTeamId((previous) => ({
+      ...previous,
+      [teamId]: Math.max(0, (previous[teamId] ?? 0) + points)
+    }));
+  };
+
+  const handleSaveHand = async () => {
+    if (await onAddHand(pendingByTeamId)) {
+      setPendingByTeamId({});
+    }
+  };
+
+  const startEditing = (round: Round) => {
+    const values: Record<string, string> = {};
+
+    for (const team of teams) {
+      values[team.id] = String(getHandPoints(round, team));
+    }
+
+    setEditingRoundId(round.id);
+    setEditValues(values);
+  };
+
+  const handleUpdate = async (event: FormEvent<HTMLFormElement>, round: Round) => {
+    event.preventDefault();
+
+    const valuesByTeamId: Record<string, number> = {};
+
+    for (const team of teams) {
+      valuesByTeamId[team.id] = editValues[team.id]?.trim() ? Number(editValues[team.id]) : 0;
+    }
+
+    if (await onUpdateRound(round, { mode: 'add', valuesByPlayerId: {}, valuesByTeamId })) {
+      setEditingRoundId(null);
+    }
+  };
+
+  return (
+    <>
+      <section className="panel">
+        <h2>Truco</h2>
+        <p className="hint">
+          Se juega a {target} puntos{target === 30 ? ': 15 malas y 15 buenas' : ''}.
+        </p>
+
+        <div className="truco-teams">
+          {teams.map((team) => {
+            const total = teamTotals[team.id] ?? 0;
+            const pending = pendingByTeamId[team.id] ?? 0;
+
+            return (
+              <div key={team.id} className="truco-team">
+                <div className="subsection-header">
+                  <h3>{team.name}</h3>
+                  <span className="score">{total}</span>
+                </div>
+                <p className="hint">
+                  {team.playerIds.map((playerId) => playersById.get(playerId)?.name).join(', ')}
+                </p>
+                <p>{getTrucoScoreLabel(total, target)}</p>
+                <FosforoTally points={total} target={target} />
+
+                {isEditable && (
+                  <>
+                    <div className="truco-quick-adds">
+                      {TRUCO_QUICK_ADDS.map((quickAdd) => (
+                        <button
+                          key={quickAdd.label}
+                          type="button"
+                          className="secondary"
+                          onClick={() => addPoints(team.id, quickAdd.points)}
+                        >
+                          {quickAdd.label} +{quickAdd.points}
+                        </button>
+                      ))}
+                      <button
+                        type="button"
+                        className="secondary"
+                        onClick={() => addPoints(team.id, -1)}
+                        disabled={pending === 0}
+                      >
+                        −1
+                      </button>
+                    </div>
+                    <p className="truco-pending">Esta mano: +{pending}</p>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {error && <p className="error">{error}</p>}
+
+        {isEditable && (
+          <div className="row-actions">
+            <button
+              type="button"
+              className="primary"
+              onClick={() => void handleSaveHand()}
+              disabled={isSaving || pendingTotal === 0}
+            >
+              {isSaving ? 'Guardando...' : 'Anotar mano'}
+            </button>
+            <button
+              type="button"
+              className="secondary"
+              onClick={() => setPendingByTeamId({})}
+              disabled={pendingTotal === 0}
+            >
+              Descartar
+            </button>
+          </div>
+        )}
+      </section>
+
+      <section className="panel">
+        <h2>Manos</h2>
+        {game.rounds.length === 0 ? (
+          <p className="empty">Todavía no hay manos anotadas.</p>
+        ) : (
+          <ul className="history-list">
+            {[...game.rounds].reverse().map((round, index) => {
+              const roundNumber = game.rounds.length - index;
+
+              return (
+                <li key={round.id} className="history-item">
+                  <div className="history-header">
+                    <strong>Mano {roundNumber}</strong>
+                  </div>
+                  {editingRoundId === round.id ? (
+                    <form
+                      className="stack-sm history-edit"
+                      onSubmit={(event) => void handleUpdate(event, round)}
+                    >
+                      {teams.map((team) => (
+                        <label key={team.id} className="field">
+                          <span>{team.name}</span>
+                          <input
+                            type="number"
+                            inputMode="numeric"
+                            step={1}
+                            min={0}
+                            value={editValues[team.id] ?? ''}
+                            onChange={(event) =>
+                              setEditValues((previous) => ({
+                                ...previous,
+                                [team.id]: event.target.value
+                              }))
+                            }
+                          />
+                        </label>
+                      ))}
+                      <div className="row-actions">
+                        <button type="submit" className="primary" disabled={isSavingEdit}>
+                          {isSavingEdit ? 'Guardando...' : 'Guardar cambios'}
+                        </button>
+                        <button
+                          type="button"
+                          className="secondary"
+                          onClick={() => setEditingRoundId(null)}
+                        >
+                          Cancelar
+                        </button>
+                      </div>
+                    </form>
+                  ) : (
+                    <p>
+                      {teams
+                        .map((team) => `${team.name} +${getHandPoints(round, team)}`)
+                        .join(' · ')}
+                    </p>
+                  )}
+                  {isEditable && editingRoundId !== round.id && (
+                    <div className="history-actions">
+                      <button
+                        type="button"
+                        className="secondary"
+                        onClick={() => startEditing(round)}
+                      >
+                        Editar
+                      </button>
+                      <button
+                        type="button"
+                        className="danger"
+                        onClick={() => onDeleteRound(round, roundNumber)}
+                        disabled={deletingRoundId === round.id}
+                      >
+                        {deletingRoundId === round.id ? 'Borrando...' : 'Borrar'}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </>
+  );
+}
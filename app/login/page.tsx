@@ -0,0 +1,65 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { ApiErrorBody, SESSION_API_PATH } from '@/lib/storage/api-contract';
+
+// Only same-site paths, so the login can't be used to send people elsewhere.
+function getNextPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next') ?? '/';
+  return next.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
+
+export default function LoginPage() {
+  const [token, setToken] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(SESSION_API_PATH, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token })
+      });
+
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as ApiErrorBody | null;
+        throw new Error(body?.error || 'No se pudo iniciar sesión.');
+      }
+
+      window.location.href = getNextPath();
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : 'No se pudo iniciar sesión.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="page">
+      <section className="panel">
+        <h1>Scores Recorder</h1>
+        <form className="stack" onSubmit={handleSubmit}>
+          <label className="field">
+            <span>Clave de acceso</span>
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={token}
+              onChange={(event) => setToken(event.target.value)}
+            />
+          </label>
+
+          {error && <p className="error">{error}</p>}
+
+          <button type="submit" className="primary" disabled={isSubmitting || !token}>
+            {isSubmitting ? 'Entrando...' : 'Entrar'}
+          </button>
+        </form>
+      </section>
+    </main>
+  );
+}
@@ -3,14 +3,74 @@
 import Link from 'next/link';
 import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react';
 import { FiMoon, FiSun, FiTrash2 } from 'react-icons/fi';
+import { BackupPanel } from '@/app/backup-panel';
+import {
+  BurakoSettingsDraft,
+  BurakoSettingsFields,
+  createBurakoSettingsDraft,
+  toBurakoSettingsInput
+} from '@/app/burako-settings-fields';
+import {
+  ChinchonSettingsDraft,
+  ChinchonSettingsFields,
+  createChinchonSettingsDraft,
+  toChinchonSettingsInput
+} from '@/app/chinchon-settings-fields';
+import {
+  createEndConditionDraft,
+  EndConditionDraft,
+  EndConditionFields,
+  toEndConditionInput
+} from '@/app/end-condition-fields';
+import {
+  createPodridaSettingsDraft,
+  PodridaSettingsDraft,
+  PodridaSettingsFields,
+  toPodridaSettingsInput
+} from '@/app/podrida-settings-fields';
+import {
+  createTeamSettingsDraft,
+  TeamSettingsDraft,
+  TeamSettingsFields,
+  toTeamsInput
+} from '@/app/team-settings-fields';
+import { createTrucoSettingsDraft, TrucoSettingsFields } from '@/app/truco-settings-fields';
+import {
+  GAME_TYPES,
+  getGameRules,
+  getGameType,
+  getGameTypeLabel,
+  getStandings
+} from '@/lib/game-types';
 import { getGameRepository } from '@/lib/storage';
-import { Game, GameType, RecentPlayer } from '@/lib/types';
-import { getGameDisplayName, getGameTotals, getGameType } from '@/lib/utils/game';
+import { GameConflictError } from '@/lib/storage/errors';
+import {
+  Game,
+  GameType,
+  Player,
+  RecentPlayer,
+  ScoringDirection,
+  Standing,
+  Team,
+  TieBreakPolicy,
+  TrucoSettings
+} from '@/lib/types';
+import {
+  getGameDisplayName,
+  getScoringDirectionLabel,
+  getTeamStandings,
+  getTieBreakLabel,
+  getWinnerNames,
+  SCORING_DIRECTIONS
+} from '@/lib/utils/game';
+import { getTrashRetentionDays } from '@/lib/utils/trash';
 
 interface PlayerDraft {
   name: string;
   color: string;
   colorInput: string;
+  /** Only sent when the game is played in teams. */
+  teamIndex: number;
 }
 
 const DEFAULT_PLAYER_COLOR = '#2f8f6a';
@@ -75,13 +135,14 @@ function getPlayerColor(color?: string): string {
   return normalizeHexColor(color ?? '') ?? DEFAULT_PLAYER_COLOR;
 }
 
-function createPlayerDraft(name = '', color = DEFAULT_PLAYER_COLOR): PlayerDraft {
+function createPlayerDraft(name = '', color = DEFAULT_PLAYER_COLOR, teamIndex = 0): PlayerDraft {
   const normalizedColor = getPlayerColor(color);
 
   return {
     name,
     color: normalizedColor,
-    colorInput: normalizedColor
+    colorInput: normalizedColor,
+    teamIndex
   };
 }
 
@@ -95,8 +156,14 @@ function formatDate(value: string): string {
   });
 }
 
-function getGameTypeLabel(gameType: GameType): string {
-  return gameType === 'podrida' ? 'Podrida' : 'Libre';
+function getWinnersLabel(game: Game): string {
+  const names = getWinnerNames(game);
+
+  if (names.length === 0) {
+    return 'Sin ganador';
+  }
+
+  return names.length === 1 ? `Ganó ${names[0]}` : `Empataron ${names.join(' y ')}`;
 }
 
 export default function HomePage() {
@@ -105,29 +172,55 @@ export default function HomePage() {
   const [recentPlayers, setRecentPlayers] = useState<RecentPlayer[]>([]);
   const [gameName, setGameName] = useState('');
   const [gameType, setGameType] = useState<GameType>('classic');
+  const [podridaSettings, setPodridaSettings] = useState<PodridaSettingsDraft>(
+    createPodridaSettingsDraft
+  );
+  const [trucoSettings, setTrucoSettings] = useState<TrucoSettings>(createTrucoSettingsDraft);
+  const [chinchonSettings, setChinchonSettings] = useState<ChinchonSettingsDraft>(
+    createChinchonSettingsDraft
+  );
+  const [burakoSettings, setBurakoSettings] = useState<BurakoSettingsDraft>(
+    createBurakoSettingsDraft
+  );
+  const [endCondition, setEndCondition] = useState<EndConditionDraft>(createEndConditionDraft);
+  const [scoringDirection, setScoringDirection] = useState<ScoringDirection>('highest-wins');
+  const [teamSettings, setTeamSettings] = useState<TeamSettingsDraft>(createTeamSettingsDraft);
+  const [tieBreak, setTieBreak] = useState<TieBreakPolicy>('shared');
+  const [startingDealerIndex, setStartingDealerIndex] = useState(0);
   const [players, setPlayers] = useState<PlayerDraft[]>([
     createPlayerDraft(),
-    createPlayerDraft()
+    createPlayerDraft('', DEFAULT_PLAYER_COLOR, 1)
   ]);
   const [theme, setTheme] = useState<ThemeMode>('light');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [deletingGameId, setDeletingGameId] = useState<string | null>(null);
+  const [busyGameId, setBusyGameId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const loadData = useCallback(async () => {
-    const [allGames, recent] = await Promise.all([
-      repository.getGames(),
-      repository.getRecentPlayers(12)
-    ]);
+    try {
+      const [allGames, recent] = await Promise.all([
+        repository.getGames(),
+        repository.getRecentPlayers(12)
+      ]);
 
-    setGames(allGames);
-    setRecentPlayers(recent);
+      setGames(allGames);
+      setRecentPlayers(recent);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : 'No se pudieron cargar las partidas.');
+    }
   }, [repository]);
 
   useEffect(() => {
     void loadData();
   }, [loadData]);
 
+  useEffect(() => repository.subscribe(() => void loadData()), [repository, loadData]);
+
+  useEffect(() => {
+    void repository.purgeExpiredGames(getTrashRetentionDays()).catch(() => undefined);
+  }, [repository]);
+
   useEffect(() => {
     const preferredTheme = getPreferredTheme();
     applyTheme(preferredTheme);
@@ -144,6 +237,21 @@ export default function HomePage() {
     [games]
   );
 
+  const archivedGames = useMemo(
+    () => games.filter((game) => game.status === 'archived'),
+    [games]
+  );
+
+  const {
+    setupForm,
+    scoringDirection: fixedScoringDirection,
+    customTeams,
+    tieBreaks
+  } = getGameRules(gameType);
+  // Keeps the pick when switching to a type that offers it too.
+  const selectedTieBreak = tieBreaks.includes(tieBreak) ? tieBreak : tieBreaks[0];
+  const isPlayingInTeams = Boolean(customTeams) && teamSettings.enabled;
+
   const updatePlayerName = (index: number, value: string) => {
     setPlayers((previous) =>
       previous.map((player, currentIndex) =>
@@ -208,6 +316,16 @@ export default function HomePage() {
   };
 
   const removePlayer = (index: number) => {
+    if (players.length > 2) {
+      setStartingDealerIndex((current) => {
+        if (current === index) {
+          return 0;
+        }
+
+        return current > index ? current - 1 : current;
+      });
+    }
+
     setPlayers((previous) => {
       if (previous.length <= 2) {
         return previous;
@@ -217,6 +335,34 @@ export default function HomePage() {
     });
   };
 
+  const updatePlayerTeam = (index: number, teamIndex: number) => {
+    setPlayers((previous) =>
+      previous.map((player, currentIndex) =>
+        currentIndex === index ? { ...player, teamIndex } : player
+      )
+    );
+  };
+
+  const removeTeam = (index: number) => {
+    if (teamSettings.teams.length <= 2) {
+      return;
+    }
+
+    setTeamSettings((previous) => ({
+      ...previous,
+      teams: previous.teams.filter((_, currentIndex) => currentIndex !== index)
+    }));
+    setPlayers((previous) =>
+      previous.map((player) => {
+        if (player.teamIndex === index) {
+          return { ...player, teamIndex: 0 };
+        }
+
+        return player.teamIndex > index ? { ...player, teamIndex: player.teamIndex - 1 } : player;
+      })
+    );
+  };
+
   const addRecentPlayer = (recent: RecentPlayer) => {
     setPlayers((previous) => {
       const alreadyExists = previous.some(
@@ -232,23 +378,42 @@ export default function HomePage() {
       if (replacementIndex >= 0) {
         return previous.map((player, index) =>
           index === replacementIndex
-            ? createPlayerDraft(recent.name, recent.color || DEFAULT_PLAYER_COLOR)
+            ? createPlayerDraft(recent.name, recent.color || DEFAULT_PLAYER_COLOR, player.teamIndex)
             : player
         );
       }
 
-      return [...previous, createPlayerDraft(recent.name, recent.color || DEFAULT_PLAYER_COLOR)];
+      return [
+        ...previous,
+        createPlayerDraft(
+          recent.name,
+          recent.color || DEFAULT_PLAYER_COLOR,
+          previous.length % teamSettings.teams.length
+        )
+      ];
     });
   };
 
   const addPlayerRow = () => {
-    setPlayers((previous) => [...previous, createPlayerDraft()]);
+    setPlayers((previous) => [
+      ...previous,
+      createPlayerDraft('', DEFAULT_PLAYER_COLOR, previous.length % teamSettings.teams.length)
+    ]);
   };
 
   const resetForm = () => {
     setGameName('');
     setGameType('classic');
-    setPlayers([createPlayerDraft(), createPlayerDraft()]);
+    setPodridaSettings(createPodridaSettingsDraft());
+    setTrucoSettings(createTrucoSettingsDraft());
+    setChinchonSettings(createChinchonSettingsDraft());
+    setBurakoSettings(createBurakoSettingsDraft());
+    setEndCondition(createEndConditionDraft());
+    setScoringDirection('highest-wins');
+    setTeamSettings(createTeamSettingsDraft());
+    setTieBreak('shared');
+    setPlayers([createPlayerDraft(), createPlayerDraft('', DEFAULT_PLAYER_COLOR, 1)]);
+    setStartingDealerIndex(0);
   };
 
   const handleCreateGame = async (event: FormEvent<HTMLFormElement>) => {
@@ -260,10 +425,24 @@ export default function HomePage() {
       const game = await repository.createGame({
         name: gameName,
         type: gameType,
+        startingDealerIndex,
+        scoringDirection: fixedScoringDirection ?? scoringDirection,
+        tieBreak: selectedTieBreak,
+        endCondition:
+          setupForm === 'end-condition' ? toEndConditionInput(endCondition) : undefined,
         players: players.map((player) => ({
           name: player.name,
-          color: player.color
-        }))
+          color: player.color,
+          teamIndex: isPlayingInTeams ? player.teamIndex : undefined
+        })),
+        teams: customTeams ? toTeamsInput(teamSettings) : undefined,
+        teamScoring: isPlayingInTeams ? teamSettings.scoring : undefined,
+        podridaSettings:
+          setupForm === 'podrida' ? toPodridaSettingsInput(podridaSettings) : undefined,
+        trucoSettings: setupForm === 'truco' ? trucoSettings : undefined,
+        chinchonSettings:
+          setupForm === 'chinchon' ? toChinchonSettingsInput(chinchonSettings) : undefined,
+        burakoSettings: setupForm === 'burako' ? toBurakoSettingsInput(burakoSettings) : undefined
       });
 
       resetForm();
@@ -284,26 +463,74 @@ export default function HomePage() {
     });
   };
 
-  const handleDeleteOpenGame = async (game: Game) => {
+  const runGameAction = async (
+    game: Game,
+    action: () => Promise<unknown>,
+    fallbackError: string
+  ) => {
+    setError(null);
+    setBusyGameId(game.id);
+
+    try {
+      await action();
+      await loadData();
+    } catch (cause) {
+      if (cause instanceof GameConflictError) {
+        await loadData();
+      }
+
+      setError(cause instanceof Error ? cause.message : fallbackError);
+    } finally {
+      setBusyGameId(null);
+    }
+  };
+
+  const handleDeleteGame = async (game: Game) => {
     const shouldDelete = window.confirm(
-      `¿Seguro que quieres borrar la partida abierta "${getGameDisplayName(game)}"? Esta acción no se puede deshacer.`
+      `¿Mover la partida "${getGameDisplayName(game)}" a la papelera? Podrás restaurarla durante ${getTrashRetentionDays()} días.`
     );
 
     if (!shouldDelete) {
       return;
     }
 
-    setError(null);
-    setDeletingGameId(game.id);
+    await runGameAction(
+      game,
+      () => repository.deleteGame(game.id, { expectedRevision: game.revision }),
+      'No se pudo borrar la partida.'
+    );
+  };
 
-    try {
-      await repository.deleteOpenGame(game.id);
-      await loadData();
-    } catch (cause) {
-      setError(cause instanceof Error ? cause.message : 'No se pudo borrar la partida.');
-    } finally {
-      setDeletingGameId(null);
+  const handleArchiveGame = async (game: Game) => {
+    const shouldArchive = window.confirm(
+      `¿Archivar la partida "${getGameDisplayName(game)}"? Dejará de aparecer en la lista de terminadas, pero no se borra.`
+    );
+
+    if (!shouldArchive) {
+      return;
     }
+
+    await runGameAction(
+      game,
+      () => repository.archiveGame(game.id, { expectedRevision: game.revision }),
+      'No se pudo archivar la partida.'
+    );
+  };
+
+  const handleReopenGame = async (game: Game) => {
+    const shouldReopen = window.confirm(
+      `¿Reabrir la partida "${getGameDisplayName(game)}" para seguir cargando rondas?`
+    );
+
+    if (!shouldReopen) {
+      return;
+    }
+
+    await runGameAction(
+      game,
+      () => repository.reopenGame(game.id, { expectedRevision: game.revision }),
+      'No se pudo reabrir la partida.'
+    );
   };
 
   return (
@@ -344,11 +571,67 @@ export default function HomePage() {
               value={gameType}
               onChange={(event) => setGameType(event.target.value as GameType)}
             >
-              <option value="classic">Partida libre</option>
-              <option value="podrida">Podrida</option>
+              {GAME_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {getGameTypeLabel(type)}
+                </option>
+              ))}
             </select>
           </label>
 
+          {!fixedScoringDirection && (
+            <label className="field">
+              <span>Ganador</span>
+              <select
+                value={scoringDirection}
+                onChange={(event) => setScoringDirection(event.target.value as ScoringDirection)}
+              >
+                {SCORING_DIRECTIONS.map((direction) => (
+                  <option key={direction} value={direction}>
+                    {getScoringDirectionLabel(direction)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {tieBreaks.length > 1 && (
+            <label className="field">
+              <span>Desempate</span>
+              <select
+                value={selectedTieBreak}
+                onChange={(event) => setTieBreak(event.target.value as TieBreakPolicy)}
+              >
+                {tieBreaks.map((policy) => (
+                  <option key={policy} value={policy}>
+                    {getTieBreakLabel(policy)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {setupForm === 'podrida' && (
+            <PodridaSettingsFields value={podridaSettings} onChange={setPodridaSettings} />
+          )}
+          {setupForm === 'truco' && (
+            <TrucoSettingsFields value={trucoSettings} onChange={setTrucoSettings} />
+          )}
+          {setupForm === 'chinchon' && (
+            <ChinchonSettingsFields value={chinchonSettings} onChange={setChinchonSettings} />
+          )}
+          {setupForm === 'burako' && (
+            <BurakoSettingsFields value={burakoSettings} onChange={setBurakoSettings} />
+          )}
+          {setupForm === 'end-condition' && (
+            <EndConditionFields value={endCondition} onChange={setEndCondition} />
+          )}
+          {customTeams && (
+            <TeamSettingsFields
+              value={teamSettings}
+              onChange={setTeamSettings}
+              onRemoveTeam={removeTeam}
+            />
+          )}
+
           <div className="subsection-header">
             <h3>Jugadores</h3>
             <button type="button" className="secondary" onClick={addPlayerRow}>
@@ -369,6 +652,22 @@ export default function HomePage() {
                   />
                 </label>
 
+                {isPlayingInTeams && (
+                  <label className="field">
+                    <span>Equipo</span>
+                    <select
+                      value={player.teamIndex}
+                      onChange={(event) => updatePlayerTeam(index, Number(event.target.value))}
+                    >
+                      {teamSettings.teams.map((team, teamIndex) => (
+                        <option key={`draft-team-option-${teamIndex}`} value={teamIndex}>
+                          {team.name || `Equipo ${teamIndex + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+
                 <div className="field player-tools-field">
                   <span>Color y acciones</span>
                   <div className="player-tools-row">
@@ -424,6 +723,23 @@ export default function HomePage() {
             </div>
           )}
 
+          <label className="field">
+            <span>Reparte primero</span>
+            <select
+              value={startingDealerIndex}
+              onChange={(event) => setStartingDealerIndex(Number(event.target.value))}
+            >
+              {players.map((player, index) => (
+                <option key={`dealer-option-${index}`} value={index}>
+                  {player.name.trim() || `Jugador ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="hint">
+            El orden de la lista es el orden en la mesa: cada ronda reparte el jugador siguiente.
+          </p>
+
           {error && <p className="error">{error}</p>}
 
           <button type="submit" className="primary" disabled={isSubmitting}>
@@ -443,10 +759,10 @@ export default function HomePage() {
         ) : (
           <ul className="game-list">
             {openGames.map((game) => {
-              const totals = getGameTotals(game);
-              const orderedPlayers = [...game.players].sort(
-                (a, b) => (totals[b.id] ?? 0) - (totals[a.id] ?? 0)
-              );
+              const standings: Standing<Player | Team>[] = game.teams?.length
+                ? getTeamStandings(game)
+                : getStandings(game);
+              const leaders = standings.filter((standing) => standing.place === 1);
 
               return (
                 <li key={game.id} className="game-item">
@@ -460,16 +776,19 @@ export default function HomePage() {
                       {formatDate(game.createdAt)}
                     </p>
                     <p>
-                      Lidera:{' '}
-                      {orderedPlayers[0] ? (
+                      {leaders.length > 1 ? 'Empatan' : 'Lidera'}:{' '}
+                      {leaders.length > 0 ? (
                         <>
-                          <span
-                            className="player-name-tag compact"
-                            style={{ backgroundColor: getPlayerColor(orderedPlayers[0].color) }}
-                          >
-                            {orderedPlayers[0].name}
-                          </span>{' '}
-                          ({totals[orderedPlayers[0].id] ?? 0})
+                          {leaders.map(({ competitor }) => (
+                            <span
+                              key={competitor.id}
+                              className="player-name-tag compact"
+                              style={{ backgroundColor: getPlayerColor(competitor.color) }}
+                            >
+                              {competitor.name}
+                            </span>
+                          ))}{' '}
+                          ({leaders[0].total})
                         </>
                       ) : (
                         '-'
@@ -495,10 +814,10 @@ export default function HomePage() {
                     <button
                       type="button"
                       className="danger game-delete-btn"
-                      onClick={() => void handleDeleteOpenGame(game)}
-                      disabled={deletingGameId === game.id}
+                      onClick={() => void handleDeleteGame(game)}
+                      disabled={busyGameId === game.id}
                     >
-                      {deletingGameId === game.id ? 'Borrando...' : 'Borrar'}
+                      Borrar
                     </button>
                   </div>
                 </li>
@@ -529,15 +848,112 @@ export default function HomePage() {
                     {game.players.length} jugadores · {game.rounds.length} rondas · finalizada{' '}
                     {game.finishedAt ? formatDate(game.finishedAt) : '-'}
                   </p>
+                  <p>{getWinnersLabel(game)}</p>
+                </div>
+                <div className="game-item-actions">
+                  <Link href={`/game/${game.id}`} className="secondary inline-btn">
+                    Ver detalle
+                  </Link>
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => void handleReopenGame(game)}
+                    disabled={busyGameId === game.id}
+                  >
+                    Reabrir
+                  </button>
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => void handleArchiveGame(game)}
+                    disabled={busyGameId === game.id}
+                  >
+                    Archivar
+                  </button>
+                  <button
+                    type="button"
+                    className="danger game-delete-btn"
+                    onClick={() => void handleDeleteGame(game)}
+                    disabled={busyGameId === game.id}
+                  >
+                    Borrar
+                  </button>
                 </div>
-                <Link href={`/game/${game.id}`} className="secondary inline-btn">
-                  Ver detalle
-                </Link>
               </li>
             ))}
           </ul>
         )}
       </section>
+
+      {archivedGames.length > 0 && (
+        <section className="panel">
+          <div className="subsection-header">
+            <h2>Partidas archivadas</h2>
+            <button
+              type="button"
+              className="secondary"
+              onClick={() => setShowArchived((previous) => !previous)}
+            >
+              {showArchived ? 'Ocultar' : `Mostrar (${archivedGames.length})`}
+            </button>
+          </div>
+
+          {showArchived && (
+            <ul className="game-list">
+              {archivedGames.map((game) => (
+                <li key={game.id} className="game-item">
+                  <div>
+                    <div className="game-title-line">
+                      <h3>{getGameDisplayName(game)}</h3>
+                      <span className="game-type-badge">{getGameTypeLabel(getGameType(game))}</span>
+                    </div>
+                    <p>
+                      {game.players.length} jugadores · {game.rounds.length} rondas · archivada{' '}
+                      {game.archivedAt ? formatDate(game.archivedAt) : '-'}
+                    </p>
+                  </div>
+                  <div className="game-item-actions">
+                    <Link href={`/game/${game.id}`} className="secondary inline-btn">
+                      Ver detalle
+                    </Link>
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() => void handleReopenGame(game)}
+                      disabled={busyGameId === game.id}
+                    >
+                      Reabrir
+                    </button>
+                    <button
+                      type="button"
+                      className="danger game-delete-btn"
+                      onClick={() => void handleDeleteGame(game)}
+                      disabled={busyGameId === game.id}
+                    >
+                      Borrar
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+
+      <section className="panel">
+        <div className="subsection-header">
+          <h2>Papelera</h2>
+          <Link href="/trash" className="secondary inline-btn">
+            Abrir papelera
+          </Link>
+        </div>
+        <p className="hint">
+          Las partidas borradas quedan en la papelera y se pueden restaurar hasta que se eliminen
+          definitivamente.
+        </p>
+      </section>
+
+      <BackupPanel repository={repository} onImported={loadData} />
     </main>
   );
 }
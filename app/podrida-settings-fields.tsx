@@ -0,0 +1,135 @@
+'use client';
+
+import { PodridaSequenceShape, PodridaSettings } from '@/lib/types';
+import { DEFAULT_PODRIDA_SETTINGS, PODRIDA_DECK_SIZES } from '@/lib/utils/game';
+
+export interface PodridaSettingsDraft {
+  hitBonus: string;
+  pointsPerTrick: string;
+  dealerCannotMatchCards: boolean;
+  deckSize: number;
+  startCards: number;
+  sequence: PodridaSequenceShape;
+  repeatMaxPerPlayer: boolean;
+}
+
+interface PodridaSettingsFieldsProps {
+  value: PodridaSettingsDraft;
+  onChange: (value: PodridaSettingsDraft) => void;
+}
+
+const START_CARDS_OPTIONS = [1, 3];
+
+function parseOptionalNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+export function createPodridaSettingsDraft(): PodridaSettingsDraft {
+  return {
+    ...DEFAULT_PODRIDA_SETTINGS,
+    hitBonus: String(DEFAULT_PODRIDA_SETTINGS.hitBonus),
+    pointsPerTrick: String(DEFAULT_PODRIDA_SETTINGS.pointsPerTrick)
+  };
+}
+
+export function toPodridaSettingsInput(draft: PodridaSettingsDraft): Partial<PodridaSettings> {
+  return {
+    ...draft,
+    hitBonus: parseOptionalNumber(draft.hitBonus),
+    pointsPerTrick: parseOptionalNumber(draft.pointsPerTrick)
+  };
+}
+
+export function PodridaSettingsFields({ value, onChange }: PodridaSettingsFieldsProps) {
+  const update = (changes: Partial<PodridaSettingsDraft>) => {
+    onChange({
+      ...value,
+      ...changes
+    });
+  };
+
+  return (
+    <div className="stack-sm">
+      <label className="field">
+        <span>Mazo</span>
+        <select
+          value={value.deckSize}
+          onChange={(event) => update({ deckSize: Number(event.target.value) })}
+        >
+          {PODRIDA_DECK_SIZES.map((deckSize) => (
+            <option key={deckSize} value={deckSize}>
+              {deckSize} cartas
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="field">
+        <span>Primera ronda</span>
+        <select
+          value={value.startCards}
+          onChange={(event) => update({ startCards: Number(event.target.value) })}
+        >
+          {START_CARDS_OPTIONS.map((startCards) => (
+            <option key={startCards} value={startCards}>
+              {startCards === 1 ? '1 carta' : `${startCards} cartas`}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="field">
+        <span>Secuencia</span>
+        <select
+          value={value.sequence}
+          onChange={(event) => update({ sequence: event.target.value as PodridaSequenceShape })}
+        >
+          <option value="up-down">Sube hasta el máximo y baja hasta 1</option>
+          <option value="up-only">Solo sube hasta el máximo</option>
+        </select>
+      </label>
+      <label className="field">
+        <span>Ronda con más cartas</span>
+        <select
+          value={value.repeatMaxPerPlayer ? 'per-player' : 'once'}
+          onChange={(event) => update({ repeatMaxPerPlayer: event.target.value === 'per-player' })}
+        >
+          <option value="once">Se juega una vez</option>
+          <option value="per-player">Se repite una vez por jugador</option>
+        </select>
+      </label>
+      <label className="field">
+        <span>Puntos por acertar la apuesta</span>
+        <input
+          type="number"
+          inputMode="numeric"
+          step="any"
+          value={value.hitBonus}
+          onChange={(event) => update({ hitBonus: event.target.value })}
+        />
+      </label>
+      <label className="field">
+        <span>Puntos por baza</span>
+        <input
+          type="number"
+          inputMode="numeric"
+          step="any"
+          value={value.pointsPerTrick}
+          onChange={(event) => update({ pointsPerTrick: event.target.value })}
+        />
+      </label>
+      <p className="hint">
+        Cada jugador suma los puntos por baza de la ronda, más el bonus si acierta su apuesta
+        exacta.
+      </p>
+      <label className="field">
+        <span>Apuesta del que reparte</span>
+        <select
+          value={value.dealerCannotMatchCards ? 'restricted' : 'free'}
+          onChange={(event) => update({ dealerCannotMatchCards: event.target.value === 'restricted' })}
+        >
+          <option value="restricted">No puede hacer que la suma iguale las cartas</option>
+          <option value="free">Sin restricción</option>
+        </select>
+      </label>
+    </div>
+  );
+}
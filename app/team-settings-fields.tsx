@@ -0,0 +1,133 @@
+'use client';
+
+import { FiTrash2 } from 'react-icons/fi';
+import { NewTeamInput, TeamScoring } from '@/lib/types';
+import { DEFAULT_TEAM_COLORS, getTeamScoringLabel } from '@/lib/utils/game';
+
+export interface TeamDraft {
+  name: string;
+  color: string;
+}
+
+export interface TeamSettingsDraft {
+  enabled: boolean;
+  scoring: TeamScoring;
+  teams: TeamDraft[];
+}
+
+interface TeamSettingsFieldsProps {
+  value: TeamSettingsDraft;
+  onChange: (value: TeamSettingsDraft) => void;
+  /** Players on the removed team need a new one, so the page handles removals. */
+  onRemoveTeam: (index: number) => void;
+}
+
+const TEAM_SCORINGS: TeamScoring[] = ['per-team', 'per-player'];
+
+function createTeamDraft(index: number): TeamDraft {
+  return {
+    name: `Equipo ${index + 1}`,
+    color: DEFAULT_TEAM_COLORS[index % DEFAULT_TEAM_COLORS.length]
+  };
+}
+
+export function createTeamSettingsDraft(): TeamSettingsDraft {
+  return {
+    enabled: false,
+    scoring: 'per-team',
+    teams: [createTeamDraft(0), createTeamDraft(1)]
+  };
+}
+
+export function toTeamsInput(draft: TeamSettingsDraft): NewTeamInput[] | undefined {
+  if (!draft.enabled) {
+    return undefined;
+  }
+
+  return draft.teams.map((team) => ({ name: team.name, color: team.color }));
+}
+
+export function TeamSettingsFields({ value, onChange, onRemoveTeam }: TeamSettingsFieldsProps) {
+  const updateTeam = (index: number, team: Partial<TeamDraft>) => {
+    onChange({
+      ...value,
+      teams: value.teams.map((current, currentIndex) =>
+        currentIndex === index ? { ...current, ...team } : current
+      )
+    });
+  };
+
+  return (
+    <div className="stack-sm">
+      <label className="field">
+        <span>Equipos</span>
+        <select
+          value={value.enabled ? 'teams' : 'solo'}
+          onChange={(event) => onChange({ ...value, enabled: event.target.value === 'teams' })}
+        >
+          <option value="solo">Cada uno juega solo</option>
+          <option value="teams">Por equipos</option>
+        </select>
+      </label>
+
+      {value.enabled && (
+        <>
+          <label className="field">
+            <span>Carga de puntos</span>
+            <select
+              value={value.scoring}
+              onChange={(event) =>
+                onChange({ ...value, scoring: event.target.value as TeamScoring })
+              }
+            >
+              {TEAM_SCORINGS.map((scoring) => (
+                <option key={scoring} value={scoring}>
+                  {getTeamScoringLabel(scoring)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {value.teams.map((team, index) => (
+            <div key={`draft-team-${index}`} className="team-row">
+              <label className="field">
+                <span>Equipo {index + 1}</span>
+                <input
+                  value={team.name}
+                  onChange={(event) => updateTeam(index, { name: event.target.value })}
+                />
+              </label>
+              <input
+                type="color"
+                aria-label={`Color del equipo ${index + 1}`}
+                value={team.color}
+                onChange={(event) => updateTeam(index, { color: event.target.value })}
+              />
+              <button
+                type="button"
+                className="danger icon-button"
+                onClick={() => onRemoveTeam(index)}
+                disabled={value.teams.length <= 2}
+                aria-label={`Eliminar equipo ${index + 1}`}
+                title={`Eliminar equipo ${index + 1}`}
+              >
+                <FiTrash2 size={16} aria-hidden />
+              </button>
+            </div>
+          ))}
+
+          <button
+            type="button"
+            className="secondary"
+            onClick={() =>
+              onChange({ ...value, teams: [...value.teams, createTeamDraft(value.teams.length)] })
+            }
+          >
+            + Agregar equipo
+          </button>
+          <p className="hint">Elige el equipo de cada jugador en la lista de jugadores.</p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { getGameType, getGameTypeLabel } from '@/lib/game-types';
+import { getGameRepository } from '@/lib/storage';
+import { GameConflictError } from '@/lib/storage/errors';
+import { Game } from '@/lib/types';
+import { getGameDisplayName, getGameStatusLabel } from '@/lib/utils/game';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getDaysUntilPurge,
+  getTrashRetentionDays,
+  isTrashRetentionShared,
+  saveTrashRetentionDays,
+  TRASH_RETENTION_OPTIONS
+} from '@/lib/utils/trash';
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString('es-AR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+function getPurgeLabel(daysLeft: number): string {
+  if (daysLeft === 0) {
+    return 'Se elimina hoy';
+  }
+
+  return daysLeft === 1 ? 'Se elimina en 1 día' : `Se elimina en ${daysLeft} días`;
+}
+
+export default function TrashPage() {
+  const repository = useMemo(() => getGameRepository(), []);
+  const [games, setGames] = useState<Game[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyGameId, setBusyGameId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGames = useCallback(async () => {
+    try {
+      setGames(await repository.getDeletedGames());
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : 'No se pudo cargar la papelera.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [repository]);
+
+  useEffect(() => {
+    const storedRetentionDays = getTrashRetentionDays();
+    setRetentionDays(storedRetentionDays);
+
+    const initialize = async () => {
+      await repository.purgeExpiredGames(storedRetentionDays).catch(() => undefined);
+      await loadGames();
+    };
+
+    void initialize();
+  }, [repository, loadGames]);
+
+  useEffect(() => repository.subscribe(() => void loadGames()), [repository, loadGames]);
+
+  const handleRetentionChange = async (days: number) => {
+    const expiredCount = games.filter((game) => getDaysUntilPurge(game, days) === 0).length;
+
+    if (expiredCount > 0) {
+      const gamesLabel = expiredCount === 1 ? '1 partida' : `${expiredCount} partidas`;
+      const shouldPurge = window.confirm(
+        `Con ${days} días se eliminarán definitivamente ${gamesLabel} de la papelera. ¿Continuar?`
+      );
+
+      if (!shouldPurge) {
+        return;
+      }
+    }
+
+    setRetentionDays(days);
+    saveTrashRetentionDays(days);
+    setError(null);
+
+    if (expiredCount === 0) {
+      return;
+    }
+
+    try {
+      await repository.purgeExpiredGames(days);
+      await loadGames();
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : 'No se pudo vaciar la papelera.');
+    }
+  };
+
+  const runGameAction = async (
+    game: Game,
+    action: () => Promise<unknown>,
+    fallbackError: string
+  ) => {
+    setError(null);
+    setBusyGameId(game.id);
+
+    try {
+      await action();
+      await loadGames();
+    } catch (cause) {
+      if (cause instanceof GameConflictError) {
+        await loadGames();
+      }
+
+      setError(cause instanceof Error ? cause.message : fallbackError);
+    } finally {
+      setBusyGameId(null);
+    }
+  };
+
+  const handleRestoreGame = async (game: Game) => {
+    await runGameAction(
+      game,
+      () => repository.restoreGame(game.id, { expectedRevision: game.revision }),
+      'No se pudo restaurar la partida.'
+    );
+  };
+
+  const handlePurgeGame = async (game: Game) => {
+    const shouldPurge = window.confirm(
+      `¿Eliminar definitivamente la partida "${getGameDisplayName(game)}"? Esta acción no se puede deshacer.`
+    );
+
+    if (!shouldPurge) {
+      return;
+    }
+
+    await runGameAction(
+      game,
+      () => repository.purgeGame(game.id, { expectedRevision: game.revision }),
+      'No se pudo eliminar la partida.'
+    );
+  };
+
+  return (
+    <main className="page">
+      <section className="panel">
+        <div className="subsection-header">
+          <div>
+            <h1>Papelera</h1>
+            <p className="hint">
+              Las partidas borradas se pueden restaurar hasta que pasen los días elegidos. Después
+              se eliminan definitivamente.
+            </p>
+          </div>
+          <Link href="/" className="secondary inline-btn">
+            Volver al home
+          </Link>
+        </div>
+
+        {isTrashRetentionShared() ? (
+          <p className="hint">
+            Las partidas se eliminan definitivamente después de {retentionDays} días. El plazo es
+            el mismo para todos los dispositivos.
+          </p>
+        ) : (
+          <label className="field">
+            <span>Eliminar definitivamente después de</span>
+            <select
+              value={retentionDays}
+              onChange={(event) => void handleRetentionChange(Number(event.target.value))}
+            >
+              {TRASH_RETENTION_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {days} días
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </section>
+
+      <section className="panel">
+        <div className="subsection-header">
+          <h2>Partidas borradas</h2>
+          <span className="counter">{games.length}</span>
+        </div>
+
+        {error && <p className="error">{error}</p>}
+
+        {isLoading ? (
+          <p>Cargando papelera...</p>
+        ) : games.length === 0 ? (
+          <p className="empty">La papelera está vacía.</p>
+        ) : (
+          <ul className="game-list">
+            {games.map((game) => (
+              <li key={game.id} className="game-item">
+                <div>
+                  <div className="game-title-line">
+                    <h3>{getGameDisplayName(game)}</h3>
+                    <span className="game-type-badge">{getGameTypeLabel(getGameType(game))}</span>
+                  </div>
+                  <p>
+                    {getGameStatusLabel(game.status)} · {game.players.length} jugadores ·{' '}
+                    {game.rounds.length} rondas
+                  </p>
+                  <p>
+                    Borrada {game.deletedAt ? formatDate(game.deletedAt) : '-'} ·{' '}
+                    {getPurgeLabel(getDaysUntilPurge(game, retentionDays))}
+                  </p>
+                </div>
+
+                <div className="game-item-actions">
+                  <button
+                    type="button"
+                    className="primary"
+                    onClick={() => void handleRestoreGame(game)}
+                    disabled={busyGameId === game.id}
+                  >
+                    Restaurar
+                  </button>
+                  <button
+                    type="button"
+                    className="danger game-delete-btn"
+                    onClick={() => void handlePurgeGame(game)}
+                    disabled={busyGameId === game.id}
+                  >
+                    Eliminar
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import { TrucoSettings } from '@/lib/types';
+import { DEFAULT_TEAM_NAMES } from '@/lib/utils/game';
+import { DEFAULT_TRUCO_SETTINGS, TRUCO_TARGETS } from '@/lib/utils/truco';
+
+interface TrucoSettingsFieldsProps {
+  value: TrucoSettings;
+  onChange: (value: TrucoSettings) => void;
+}
+
+export function createTrucoSettingsDraft(): TrucoSettings {
+  return { ...DEFAULT_TRUCO_SETTINGS };
+}
+
+export function TrucoSettingsFields({ value, onChange }: TrucoSettingsFieldsProps) {
+  return (
+    <div className="stack-sm">
+      <label className="field">
+        <span>Se juega a</span>
+        <select
+          value={value.target}
+          onChange={(event) => onChange({ ...value, target: Number(event.target.value) })}
+        >
+          {TRUCO_TARGETS.map((target) => (
+            <option key={target} value={target}>
+              {target === 30 ? '30 puntos (malas y buenas)' : `${target} puntos`}
+            </option>
+          ))}
+        </select>
+      </label>
+      <p className="hint">
+        Se juega de a 2, 4 o 6. Los equipos se arman alternando el orden en la mesa: el 1°, 3° y
+        5° jugador son {DEFAULT_TEAM_NAMES[0]}, y el resto {DEFAULT_TEAM_NAMES[1]}.
+      </p>
+    </div>
+  );
+}
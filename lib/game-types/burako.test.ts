@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { burakoRules } from '@/lib/game-types/burako';
+import { createGameRecord } from '@/lib/storage/game-mutations';
+import { BurakoRoundDetails } from '@/lib/types';
+
+describe('Burako rules', () => {
+  const game = createGameRecord({ type: 'burako', players: [{ name: 'Ana' }, { name: 'Beto' }] });
+  const [first, second] = game.teams ?? [];
+
+  it('scores each team from its parts', () => {
+    const round = burakoRules.scoreRound(game, {
+      mode: 'add',
+      valuesByPlayerId: {},
+      burako: {
+        partsByTeamId: {
+          [first.id]: {
+            cardsPoints: 120,
+            cleanCanastas: 1,
+            dirtyCanastas: 1,
+            closed: true,
+            handPenalty: 0
+          },
+          [second.id]: {
+            cardsPoints: 40,
+            cleanCanastas: 0,
+            dirtyCanastas: 0,
+            closed: false,
+            handPenalty: 30
+          }
+        }
+      }
+    });
+
+    expect(round.entries).toEqual([
+      { playerId: first.playerIds[0], value: 520 },
+      { playerId: second.playerIds[0], value: 10 }
+    ]);
+  });
+
+  it('treats missing parts as an empty round instead of failing', () => {
+    const round = burakoRules.scoreRound(game, {
+      mode: 'add',
+      valuesByPlayerId: {},
+      burako: {} as BurakoRoundDetails
+    });
+
+    expect(round.entries.map((entry) => entry.value)).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,116 @@
+import { BurakoRoundDetails, BurakoScoreParts, BurakoSettings, Round } from '@/lib/types';
+import { GameRules } from '@/lib/game-types/types';
+import { createAlternatingTeams, toNumericRecord } from '@/lib/game-types/helpers';
+import {
+  BURAKO_PLAYER_COUNTS,
+  DEFAULT_BURAKO_SETTINGS,
+  getBurakoNetScore,
+  getBurakoSettings
+} from '@/lib/utils/burako';
+import { GameValidationError } from '@/lib/storage/errors';
+
+function toBurakoSettings(input: Partial<BurakoSettings> = {}): BurakoSettings {
+  const target = input.target ?? DEFAULT_BURAKO_SETTINGS.target;
+
+  if (!Number.isInteger(target) || target <= 0) {
+    throw new GameValidationError('El puntaje para ganar debe ser un número entero mayor a 0.');
+  }
+
+  return { target };
+}
+
+function toScoreParts(value: unknown): BurakoScoreParts {
+  const parts = toNumericRecord(value);
+
+  return {
+    cardsPoints: parts.cardsPoints ?? 0,
+    cleanCanastas: parts.cleanCanastas ?? 0,
+    dirtyCanastas: parts.dirtyCanastas ?? 0,
+    closed: (value as Partial<BurakoScoreParts> | undefined)?.closed === true,
+    handPenalty: parts.handPenalty ?? 0
+  };
+}
+
+function toBurakoDetails(value: unknown): BurakoRoundDetails | undefined {
+  if (typeof value !== 'object' || value === null || !('partsByTeamId' in value)) {
+    return undefined;
+  }
+
+  const partsByTeamId: Record<string, BurakoScoreParts> = {};
+
+  for (const [teamId, parts] of Object.entries(value.partsByTeamId ?? {})) {
+    partsByTeamId[teamId] = toScoreParts(parts);
+  }
+
+  return { partsByTeamId };
+}
+
+export const burakoRules: GameRules = {
+  type: 'burako',
+  label: 'Burako',
+  setupForm: 'burako',
+  roundInput: {
+    form: 'burako',
+    modes: ['add'],
+    requiresAllPlayers: false
+  },
+  tieBreaks: ['shared', 'most-rounds-won', 'best-last-round', 'playoff'],
+  scoringDirection: 'highest-wins',
+  setupGame: (input, players) => {
+    if (!BURAKO_PLAYER_COUNTS.includes(players.length)) {
+      throw new GameValidationError(`El Burako se juega de a ${BURAKO_PLAYER_COUNTS.join(', ')} jugadores.`);
+    }
+
+    const burakoSettings = toBurakoSettings(input.burakoSettings);
+
+    return {
+      endCondition: { type: 'target-score', target: burakoSettings.target },
+      teams: createAlternatingTeams(players),
+      teamScoring: 'per-team',
+      burakoSettings
+    };
+  },
+  scoreRound: (game, input) => {
+    const entries: Round['entries'] = [];
+    const partsByTeamId: Record<string, BurakoScoreParts> = {};
+    let closingTeams = 0;
+
+    for (const team of game.teams ?? []) {
+      const parts = toScoreParts(input.burako?.partsByTeamId?.[team.id]);
+
+      if (!Number.isInteger(parts.cleanCanastas) || !Number.isInteger(parts.dirtyCanastas)) {
+        throw new GameValidationError(`Las canastas de ${team.name} deben ser números enteros.`);
+      }
+
+      if (parts.cleanCanastas < 0 || parts.dirtyCanastas < 0 || parts.handPenalty < 0) {
+        throw new GameValidationError(`Revisa los valores de ${team.name}: no pueden ser negativos.`);
+      }
+
+      if (parts.closed) {
+        closingTeams += 1;
+      }
+
+      partsByTeamId[team.id] = parts;
+
+      for (const playerId of team.playerIds) {
+        entries.push({ playerId, value: getBurakoNetScore(parts) });
+      }
+    }
+
+    if (closingTeams > 1) {
+      throw new GameValidationError('Solo un equipo puede cortar en cada ronda.');
+    }
+
+    return {
+      mode: 'add',
+      entries,
+      burako: { partsByTeamId }
+    };
+  },
+  getEndCondition: (game) => ({ type: 'target-score', target: getBurakoSettings(game).target }),
+  normalizeRound: (round, base) => ({
+    ...base,
+    type: 'burako',
+    burako: toBurakoDetails(round.burako)
+  })
+};
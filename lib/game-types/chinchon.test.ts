@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { GameValidationError } from '@/lib/storage/errors';
+import { addRoundToGame, createGameRecord, updateRoundInGame } from '@/lib/storage/game-mutations';
+import { Game } from '@/lib/types';
+
+function createChinchonGame(names: string[], allowReentry: boolean): Game {
+  return createGameRecord({
+    type: 'chinchon',
+    players: names.map((name) => ({ name })),
+    chinchonSettings: { eliminationScore: 100, allowReentry }
+  });
+}
+
+function addHand(game: Game, values: number[]): Game {
+  const valuesByPlayerId: Record<string, number> = {};
+  game.players.forEach((player, index) => {
+    if (values[index] !== undefined) {
+      valuesByPlayerId[player.id] = values[index];
+    }
+  });
+
+  return addRoundToGame(game, { mode: 'add', valuesByPlayerId, chinchon: {} });
+}
+
+describe('Chinchón rules', () => {
+  it('rejects an edit that eliminates a player who still plays later rounds', () => {
+    let game = createChinchonGame(['Ana', 'Beto', 'Caro'], false);
+    game = addHand(game, [50, 10, 10]);
+    game = addHand(game, [20, 10, 10]);
+    const [ana, beto, caro] = game.players;
+    const firstRound = game.rounds[0];
+
+    expect(() =>
+      updateRoundInGame(game, firstRound.id, {
+        mode: 'add',
+        valuesByPlayerId: { [ana.id]: 101, [beto.id]: 10, [caro.id]: 10 },
+        chinchon: {}
+      })
+    ).toThrow(GameValidationError);
+
+    const edited = updateRoundInGame(game, firstRound.id, {
+      mode: 'add',
+      valuesByPlayerId: { [ana.id]: 60, [beto.id]: 10, [caro.id]: 10 },
+      chinchon: {}
+    });
+    expect(edited.rounds[0].entries[0].value).toBe(60);
+  });
+
+  it('finishes when one player is left and re-entry is off', () => {
+    const game = addHand(createChinchonGame(['Ana', 'Beto'], false), [101, 5]);
+
+    expect(game.status).toBe('finished');
+    expect(game.winnerIds).toEqual([game.players[1].id]);
+  });
+
+  it('keeps a two-player game open so the eliminated player can re-enter', () => {
+    const game = addHand(createChinchonGame(['Ana', 'Beto'], true), [101, 5]);
+    const [ana] = game.players;
+
+    expect(game.status).toBe('open');
+
+    const reentered = addRoundToGame(game, {
+      mode: 'add',
+      valuesByPlayerId: {},
+      chinchon: { reentryPlayerId: ana.id }
+    });
+    expect(reentered.status).toBe('open');
+    expect(reentered.rounds[1].entries).toEqual([{ playerId: ana.id, value: 5 }]);
+  });
+});
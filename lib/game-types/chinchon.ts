@@ -0,0 +1,208 @@
+import { ChinchonRoundDetails, ChinchonSettings, Game, Round, RoundInput } from '@/lib/types';
+import { GameRules, ScoredRound } from '@/lib/game-types/types';
+import {
+  CHINCHON_CLOSING_BONUS,
+  ChinchonStatus,
+  DEFAULT_CHINCHON_SETTINGS,
+  getActiveChinchonPlayers,
+  getChinchonReentryScore,
+  getChinchonSettings,
+  getChinchonStandings,
+  getChinchonStatus
+} from '@/lib/utils/chinchon';
+import { GameValidationError } from '@/lib/storage/errors';
+
+function toChinchonSettings(input: Partial<ChinchonSettings> = {}): ChinchonSettings {
+  const settings: ChinchonSettings = {
+    eliminationScore: input.eliminationScore ?? DEFAULT_CHINCHON_SETTINGS.eliminationScore,
+    allowReentry: Boolean(input.allowReentry ?? DEFAULT_CHINCHON_SETTINGS.allowReentry)
+  };
+
+  if (!Number.isInteger(settings.eliminationScore) || settings.eliminationScore <= 0) {
+    throw new GameValidationError('El puntaje de eliminación debe ser un número entero mayor a 0.');
+  }
+
+  return settings;
+}
+
+function toChinchonDetails(value: unknown): ChinchonRoundDetails | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+
+  const details = value as ChinchonRoundDetails;
+
+  return {
+    closedById: typeof details.closedById === 'string' ? details.closedById : undefined,
+    isChinchon: details.isChinchon === true || undefined,
+    reentryPlayerId:
+      typeof details.reentryPlayerId === 'string' ? details.reentryPlayerId : undefined
+  };
+}
+
+function scoreChinchonRound(game: Game, input: RoundInput, round?: Round): ScoredRound {
+  const roundIndex = round ? game.rounds.indexOf(round) : game.rounds.length;
+  const status = getChinchonStatus(game, game.rounds.slice(0, roundIndex));
+  const activePlayers = getActiveChinchonPlayers(game, status);
+  const details = input.chinchon ?? {};
+
+  if (details.reentryPlayerId) {
+    const player = game.players.find((current) => current.id === details.reentryPlayerId);
+
+    if (!getChinchonSettings(game).allowReentry) {
+      throw new GameValidationError('Esta partida no permite reenganche.');
+    }
+
+    if (!player || !status.eliminatedIds.includes(player.id)) {
+      throw new GameValidationError('Solo un jugador eliminado puede reengancharse.');
+    }
+
+    return {
+      mode: 'set',
+      entries: [{ playerId: player.id, value: getChinchonReentryScore(game, status) }],
+      chinchon: { reentryPlayerId: player.id }
+    };
+  }
+
+  const closer = activePlayers.find((player) => player.id === details.closedById);
+
+  if (details.closedById && !closer) {
+    throw new GameValidationError('El jugador que cortó no está en juego.');
+  }
+
+  if (details.isChinchon && !closer) {
+    throw new GameValidationError('Indica quién hizo chinchón.');
+  }
+
+  const entries: Round['entries'] = [];
+
+  for (const player of game.players) {
+    const rawValue = input.valuesByPlayerId[player.id];
+    const hasValue = rawValue !== undefined && Number.isFinite(Number(rawValue));
+
+    if (!activePlayers.includes(player)) {
+      if (hasValue) {
+        throw new GameValidationError(`${player.name} está eliminado.`);
+      }
+
+      continue;
+    }
+
+    if (!hasValue) {
+      // A chinchón ends the game, so the other hands don't need to be counted.
+      if (details.isChinchon) {
+        continue;
+      }
+
+      throw new GameValidationError(`Debes ingresar los puntos de ${player.name}.`);
+    }
+
+    const value = Number(rawValue);
+    entries.push({
+      playerId: player.id,
+      value: player === closer && value === 0 ? CHINCHON_CLOSING_BONUS : value
+    });
+  }
+
+  return {
+    mode: 'add',
+    entries,
+    chinchon: {
+      closedById: closer?.id,
+      isChinchon: details.isChinchon || undefined
+    }
+  };
+}
+
+function fitsChinchonStatus(game: Game, round: Round, status: ChinchonStatus): boolean {
+  if (status.chinchonWinnerId) {
+    return false;
+  }
+
+  if (round.chinchon?.reentryPlayerId) {
+    return status.eliminatedIds.includes(round.chinchon.reentryPlayerId);
+  }
+
+  const playedIds = new Set(round.entries.map((entry) => entry.playerId));
+
+  return (
+    round.entries.every((entry) => !status.eliminatedIds.includes(entry.playerId)) &&
+    (Boolean(round.chinchon?.isChinchon) ||
+      getActiveChinchonPlayers(game, status).every((player) => playedIds.has(player.id)))
+  );
+}
+
+// Editing a round can change who is out later on, so every later round must still fit.
+function assertLaterRoundsStillFit(game: Game, rounds: Round[], editedIndex: number): void {
+  for (let index = editedIndex + 1; index < rounds.length; index += 1) {
+    if (!fitsChinchonStatus(game, rounds[index], getChinchonStatus(game, rounds.slice(0, index)))) {
+      throw new GameValidationError(
+        `Con este cambio la ronda ${index + 1} ya no cuadra. Corrige o borra las rondas siguientes primero.`
+      );
+    }
+  }
+}
+
+export const chinchonRules: GameRules = {
+  type: 'chinchon',
+  label: 'Chinchón',
+  setupForm: 'chinchon',
+  roundInput: {
+    form: 'chinchon',
+    modes: ['add'],
+    requiresAllPlayers: true
+  },
+  tieBreaks: ['shared'],
+  scoringDirection: 'lowest-wins',
+  setupGame: (input) => ({
+    endCondition: { type: 'last-player-standing' },
+    chinchonSettings: toChinchonSettings(input.chinchonSettings)
+  }),
+  scoreRound: (game, input, round) => {
+    const scoredRound = scoreChinchonRound(game, input, round);
+
+    if (round) {
+      const rounds = game.rounds.map((current) =>
+        current === round ? { ...round, ...scoredRound } : current
+      );
+      assertLaterRoundsStillFit(game, rounds, game.rounds.indexOf(round));
+    }
+
+    return scoredRound;
+  },
+  getEndCondition: () => ({ type: 'last-player-standing' }),
+  isGameOver: (game) => {
+    const status = getChinchonStatus(game);
+
+    if (status.chinchonWinnerId) {
+      return true;
+    }
+
+    // With re-entry the eliminated can still come back, so the players finish the game.
+    return (
+      !getChinchonSettings(game).allowReentry &&
+      game.rounds.length > 0 &&
+      getActiveChinchonPlayers(game, status).length <= 1
+    );
+  },
+  getWinners: (game) => {
+    const status = getChinchonStatus(game);
+    const chinchonWinner = game.players.find((player) => player.id === status.chinchonWinnerId);
+
+    if (chinchonWinner) {
+      return [chinchonWinner];
+    }
+
+    const activePlayers = getActiveChinchonPlayers(game, status);
+    const candidates = activePlayers.length > 0 ? activePlayers : game.players;
+    const lowest = Math.min(...candidates.map((player) => status.totals[player.id] ?? 0));
+
+    return candidates.filter((player) => (status.totals[player.id] ?? 0) === lowest);
+  },
+  getStandings: (game) => getChinchonStandings(game, getChinchonStatus(game)),
+  normalizeRound: (round, base) => ({
+    ...base,
+    type: 'chinchon',
+    chinchon: toChinchonDetails(round.chinchon)
+  })
+};
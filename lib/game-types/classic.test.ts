@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { classicRules } from '@/lib/game-types/classic';
+import { GameValidationError } from '@/lib/storage/errors';
+import { createGameRecord } from '@/lib/storage/game-mutations';
+
+describe('Classic rules', () => {
+  const game = createGameRecord({ players: [{ name: 'Ana' }, { name: 'Beto' }] });
+  const [ana, beto] = game.players;
+
+  it('scores the players that got a value and keeps the mode', () => {
+    const round = classicRules.scoreRound(game, {
+      mode: 'set',
+      valuesByPlayerId: { [ana.id]: 12, [beto.id]: Number.NaN, unknown: 3 }
+    });
+
+    expect(round).toEqual({ mode: 'set', entries: [{ playerId: ana.id, value: 12 }] });
+  });
+
+  it('rejects a round without any score', () => {
+    expect(() => classicRules.scoreRound(game, { mode: 'add', valuesByPlayerId: {} })).toThrow(
+      GameValidationError
+    );
+  });
+
+  it('has no end condition unless one is picked at setup', () => {
+    expect(classicRules.getEndCondition(game)).toBeUndefined();
+    expect(
+      classicRules.setupGame(
+        { players: [], endCondition: { type: 'target-score', target: 100 } },
+        game.players
+      )
+    ).toEqual({ endCondition: { type: 'target-score', target: 100 } });
+  });
+
+  it('rejects end conditions a free game cannot meet', () => {
+    expect(() =>
+      createGameRecord({
+        players: [{ name: 'Ana' }, { name: 'Beto' }],
+        endCondition: { type: 'target-score', target: 0 }
+      })
+    ).toThrow('El puntaje objetivo debe ser un número mayor a 0.');
+    expect(() =>
+      createGameRecord({
+        players: [{ name: 'Ana' }, { name: 'Beto' }],
+        endCondition: { type: 'sequence-complete' }
+      })
+    ).toThrow(GameValidationError);
+  });
+});
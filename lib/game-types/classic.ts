@@ -0,0 +1,32 @@
+import { GameRules } from '@/lib/game-types/types';
+import { buildRoundEntries, toScoreEndCondition } from '@/lib/game-types/helpers';
+import { GameValidationError } from '@/lib/storage/errors';
+
+export const classicRules: GameRules = {
+  type: 'classic',
+  label: 'Libre',
+  setupForm: 'end-condition',
+  roundInput: {
+    form: 'scores',
+    modes: ['add', 'set'],
+    requiresAllPlayers: false
+  },
+  tieBreaks: ['shared', 'most-rounds-won', 'best-last-round', 'playoff'],
+  customTeams: true,
+  setupGame: (input) => ({
+    endCondition: toScoreEndCondition(input.endCondition)
+  }),
+  scoreRound: (game, input) => {
+    const entries = buildRoundEntries(game, input);
+
+    if (entries.length === 0) {
+      throw new GameValidationError('Ingresa al menos un puntaje para guardar la ronda.');
+    }
+
+    return {
+      mode: input.mode,
+      entries
+    };
+  },
+  getEndCondition: (game) => game.endCondition
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { getWinners } from '@/lib/game-types';
+import { GameValidationError } from '@/lib/storage/errors';
+import { addRoundToGame, createGameRecord } from '@/lib/storage/game-mutations';
+import { Game, GeneralaRoundInput } from '@/lib/types';
+import { GENERALA_CATEGORIES, getGeneralaScorecard } from '@/lib/utils/generala';
+
+function createGeneralaGame(): Game {
+  return createGameRecord({ type: 'generala', players: [{ name: 'Ana' }, { name: 'Beto' }] });
+}
+
+function score(game: Game, generala: GeneralaRoundInput): Game {
+  return addRoundToGame(game, { mode: 'add', valuesByPlayerId: {}, generala });
+}
+
+describe('Generala rules', () => {
+  it('scores the number boxes from the dice and the rest from the box', () => {
+    let game = createGeneralaGame();
+    const [ana, beto] = game.players;
+    game = score(game, { playerId: ana.id, category: 'fours', dice: 3 });
+    game = score(game, { playerId: beto.id, category: 'full-house', served: true });
+    game = score(game, { playerId: beto.id, category: 'straight', scratched: true });
+
+    expect(getGeneralaScorecard(game)).toEqual({
+      [ana.id]: { fours: { category: 'fours', value: 12 } },
+      [beto.id]: {
+        'full-house': { category: 'full-house', served: true, value: 35 },
+        straight: { category: 'straight', scratched: true, value: 0 }
+      }
+    });
+  });
+
+  it('rejects a box that is already filled', () => {
+    const game = createGeneralaGame();
+    const [ana] = game.players;
+    const scored = score(game, { playerId: ana.id, category: 'sixes', dice: 2 });
+
+    expect(() => score(scored, { playerId: ana.id, category: 'sixes', dice: 1 })).toThrow(
+      'Ana ya anotó 6.'
+    );
+  });
+
+  it('rejects impossible dice and a double generala without the generala', () => {
+    const game = createGeneralaGame();
+    const [ana] = game.players;
+
+    expect(() => score(game, { playerId: ana.id, category: 'ones', dice: 6 })).toThrow(
+      GameValidationError
+    );
+    expect(() => score(game, { playerId: ana.id, category: 'double-generala' })).toThrow(
+      'Para anotar doble generala primero hay que tener la generala.'
+    );
+  });
+
+  it('ends the game with a served generala, whatever the totals', () => {
+    let game = createGeneralaGame();
+    const [ana, beto] = game.players;
+    game = score(game, { playerId: ana.id, category: 'double-generala', scratched: true });
+    game = score(game, { playerId: ana.id, category: 'four-of-a-kind', served: true });
+    game = score(game, { playerId: beto.id, category: 'generala', served: true });
+
+    expect(game.status).toBe('finished');
+    expect(game.winnerIds).toEqual([beto.id]);
+  });
+
+  it('ends with the best total once every scorecard is full', () => {
+    let game = createGeneralaGame();
+    const [ana, beto] = game.players;
+
+    for (const rule of GENERALA_CATEGORIES) {
+      expect(game.status).toBe('open');
+      game = score(game, { playerId: ana.id, category: rule.category, scratched: true });
+      game = score(game, {
+        playerId: beto.id,
+        category: rule.category,
+        scratched: rule.category !== 'straight'
+      });
+    }
+
+    expect(game.status).toBe('finished');
+    expect(getWinners(game)).toEqual([beto]);
+  });
+});
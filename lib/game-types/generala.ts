@@ -0,0 +1,111 @@
+import { GeneralaRoundDetails, Round } from '@/lib/types';
+import { GameRules } from '@/lib/game-types/types';
+import { getGameWinners } from '@/lib/utils/game';
+import {
+  GENERALA_DICE,
+  getGeneralaCategoryRule,
+  getGeneralaScorecard,
+  getGeneralaServedWinnerId,
+  isGeneralaScorecardFull
+} from '@/lib/utils/generala';
+import { GameValidationError } from '@/lib/storage/errors';
+
+function toGeneralaDetails(value: unknown): GeneralaRoundDetails | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+
+  const details = value as GeneralaRoundDetails;
+
+  if (!getGeneralaCategoryRule(details.category)) {
+    return undefined;
+  }
+
+  return {
+    category: details.category,
+    served: details.served === true || undefined,
+    scratched: details.scratched === true || undefined
+  };
+}
+
+export const generalaRules: GameRules = {
+  type: 'generala',
+  label: 'Generala',
+  setupForm: 'none',
+  roundInput: {
+    form: 'generala',
+    modes: ['add'],
+    requiresAllPlayers: false
+  },
+  tieBreaks: ['shared', 'playoff'],
+  scoringDirection: 'highest-wins',
+  setupGame: () => ({
+    endCondition: { type: 'scorecard-complete' }
+  }),
+  scoreRound: (game, input, round) => {
+    const details = input.generala;
+    const player = game.players.find((current) => current.id === details?.playerId);
+    const rule = details ? getGeneralaCategoryRule(details.category) : undefined;
+
+    if (!details || !player || !rule) {
+      throw new GameValidationError('Elige el jugador y la casilla a anotar.');
+    }
+
+    const scorecard = getGeneralaScorecard({
+      ...game,
+      rounds: game.rounds.filter((current) => current !== round)
+    });
+    const playerCard = scorecard[player.id] ?? {};
+
+    if (playerCard[rule.category]) {
+      throw new GameValidationError(`${player.name} ya anotó ${rule.label}.`);
+    }
+
+    let value = 0;
+
+    if (!details.scratched && rule.face) {
+      const dice = Number(details.dice);
+
+      if (!Number.isInteger(dice) || dice < 1 || dice > GENERALA_DICE) {
+        throw new GameValidationError(`Indica cuántos dados de ${rule.label} sacó ${player.name}.`);
+      }
+
+      value = dice * rule.face;
+    } else if (!details.scratched) {
+      const generalaBox = playerCard.generala;
+
+      if (rule.category === 'double-generala' && (!generalaBox || generalaBox.scratched)) {
+        throw new GameValidationError('Para anotar doble generala primero hay que tener la generala.');
+      }
+
+      value = details.served && rule.servedPoints ? rule.servedPoints : (rule.points ?? 0);
+    }
+
+    const entries: Round['entries'] = [{ playerId: player.id, value }];
+
+    return {
+      mode: 'add',
+      entries,
+      generala: {
+        category: rule.category,
+        served: (!details.scratched && !rule.face && details.served) || undefined,
+        scratched: details.scratched || undefined
+      }
+    };
+  },
+  getEndCondition: () => ({ type: 'scorecard-complete' }),
+  isGameOver: (game) =>
+    Boolean(getGeneralaServedWinnerId(game)) || isGeneralaScorecardFull(game),
+  getWinners: (game) => {
+    const servedWinner = game.players.find(
+      (player) => player.id === getGeneralaServedWinnerId(game)
+    );
+
+    return servedWinner ? [servedWinner] : getGameWinners(game);
+  },
+  normalizeRound: (round, base) => ({
+    ...base,
+    type: 'generala',
+    generala: toGeneralaDetails(round.generala)
+  })
+};
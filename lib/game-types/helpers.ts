@@ -0,0 +1,168 @@
+import {
+  EndCondition,
+  Game,
+  Player,
+  Round,
+  RoundInput,
+  ScoringDirection,
+  Team,
+  TeamScoring,
+  TieBreakPolicy
+} from '@/lib/types';
+import { GameRules } from '@/lib/game-types/types';
+import {
+  DEFAULT_TEAM_COLORS,
+  DEFAULT_TEAM_NAMES,
+  getTeamScoring,
+  SCORING_DIRECTIONS
+} from '@/lib/utils/game';
+import { createId } from '@/lib/utils/id';
+import { GameValidationError } from '@/lib/storage/errors';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function toNumericRecord(value: unknown): Record<string, number> {
+  if (!isRecord(value)) {
+    return {};
+  }
+
+  const output: Record<string, number> = {};
+
+  for (const [key, rawValue] of Object.entries(value)) {
+    const numericValue = Number(rawValue);
+
+    if (Number.isFinite(numericValue)) {
+      output[key] = numericValue;
+    }
+  }
+
+  return output;
+}
+
+/** Games scored per team take `valuesByTeamId` and credit each team's value to all its members. */
+export function buildRoundEntries(game: Game, input: RoundInput): Round['entries'] {
+  const playerIds = new Set(game.players.map((player) => player.id));
+  const entries: Round['entries'] = [];
+
+  if (game.teams?.length && getTeamScoring(game) === 'per-team') {
+    for (const team of game.teams) {
+      const value = Number(input.valuesByTeamId?.[team.id] ?? Number.NaN);
+
+      if (!Number.isFinite(value)) {
+        continue;
+      }
+
+      for (const playerId of team.playerIds) {
+        entries.push({ playerId, value });
+      }
+    }
+
+    return entries;
+  }
+
+  for (const [playerId, rawValue] of Object.entries(input.valuesByPlayerId)) {
+    if (!playerIds.has(playerId)) {
+      continue;
+    }
+
+    const value = Number(rawValue);
+
+    if (Number.isNaN(value) || !Number.isFinite(value)) {
+      continue;
+    }
+
+    entries.push({
+      playerId,
+      value
+    });
+  }
+
+  return entries;
+}
+
+/** Partners sit across from each other, so teams alternate around the table. */
+export function createAlternatingTeams(players: Player[], names = DEFAULT_TEAM_NAMES): Team[] {
+  return names.map((name, teamIndex) => ({
+    id: createId('team'),
+    name,
+    color: DEFAULT_TEAM_COLORS[teamIndex % DEFAULT_TEAM_COLORS.length],
+    playerIds: players
+      .filter((_, playerIndex) => playerIndex % names.length === teamIndex)
+      .map((player) => player.id)
+  }));
+}
+
+export function assertEveryPlayerEntered(game: Game, input: RoundInput): void {
+  for (const player of game.players) {
+    if (!Number.isFinite(Number(input.valuesByPlayerId[player.id]))) {
+      throw new GameValidationError(
+        input.mode === 'set'
+          ? `Debes ingresar el total acumulado de ${player.name}.`
+          : `Debes ingresar los puntos de ${player.name}.`
+      );
+    }
+  }
+}
+
+/** Validates the score-based end conditions any game type can offer at setup. */
+export function toScoreEndCondition(endCondition?: EndCondition): EndCondition | undefined {
+  if (!endCondition) {
+    return undefined;
+  }
+
+  if (endCondition.type === 'target-score') {
+    if (!Number.isFinite(endCondition.target) || endCondition.target <= 0) {
+      throw new GameValidationError('El puntaje objetivo debe ser un número mayor a 0.');
+    }
+
+    return { type: 'target-score', target: endCondition.target };
+  }
+
+  if (endCondition.type === 'round-limit') {
+    if (!Number.isInteger(endCondition.rounds) || endCondition.rounds <= 0) {
+      throw new GameValidationError('La cantidad de rondas debe ser un número entero mayor a 0.');
+    }
+
+    return { type: 'round-limit', rounds: endCondition.rounds };
+  }
+
+  throw new GameValidationError('Este tipo de partida no termina al completar una secuencia.');
+}
+
+export function toScoringDirection(value: ScoringDirection | undefined): ScoringDirection {
+  if (value === undefined) {
+    return 'highest-wins';
+  }
+
+  if (!SCORING_DIRECTIONS.includes(value)) {
+    throw new GameValidationError('Elige si gana el puntaje más alto o el más bajo.');
+  }
+
+  return value;
+}
+
+export function toTeamScoring(value: TeamScoring | undefined): TeamScoring {
+  if (value === undefined) {
+    return 'per-team';
+  }
+
+  if (value !== 'per-team' && value !== 'per-player') {
+    throw new GameValidationError('Elige si los puntos se cargan por equipo o por jugador.');
+  }
+
+  return value;
+}
+
+export function toTieBreak(value: TieBreakPolicy | undefined, rules: GameRules): TieBreakPolicy {
+  if (value === undefined) {
+    return rules.tieBreaks[0];
+  }
+
+  if (!rules.tieBreaks.includes(value)) {
+    throw new GameValidationError(`${rules.label} no admite ese desempate.`);
+  }
+
+  return value;
+}
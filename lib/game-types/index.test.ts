@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import {
+  GAME_TYPES,
+  getGameRules,
+  getGameType,
+  getGameTypeLabel,
+  isGameType
+} from '@/lib/game-types';
+import { GameType } from '@/lib/types';
+
+describe('game type registry', () => {
+  it('lists every game type in the order of the create form', () => {
+    expect(GAME_TYPES).toEqual(['classic', 'podrida', 'truco', 'chinchon', 'generala', 'burako']);
+  });
+
+  it('registers each rules object under its own type', () => {
+    for (const type of GAME_TYPES) {
+      const rules = getGameRules(type);
+
+      expect(rules.type).toBe(type);
+      expect(rules.label).not.toBe('');
+      expect(rules.tieBreaks.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('only recognizes registered types', () => {
+    expect(isGameType('truco')).toBe(true);
+    expect(isGameType('poker')).toBe(false);
+    expect(isGameType('toString')).toBe(false);
+    expect(isGameType(undefined)).toBe(false);
+  });
+
+  it('falls back to classic for unknown types', () => {
+    expect(getGameType({ type: 'poker' as GameType })).toBe('classic');
+    expect(getGameRules(undefined)).toBe(getGameRules('classic'));
+    expect(getGameRules({ type: 'podrida' }).type).toBe('podrida');
+  });
+
+  it('labels each type from its rules', () => {
+    expect(getGameTypeLabel('classic')).toBe('Libre');
+    expect(getGameTypeLabel('podrida')).toBe('Podrida');
+  });
+});
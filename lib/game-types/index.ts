@@ -0,0 +1,78 @@
+import { EndCondition, Game, GameType, Player, Standing } from '@/lib/types';
+import { burakoRules } from '@/lib/game-types/burako';
+import { chinchonRules } from '@/lib/game-types/chinchon';
+import { classicRules } from '@/lib/game-types/classic';
+import { generalaRules } from '@/lib/game-types/generala';
+import { podridaRules } from '@/lib/game-types/podrida';
+import { trucoRules } from '@/lib/game-types/truco';
+import { GameRules } from '@/lib/game-types/types';
+import {
+  getGameTotals,
+  getGameWinners,
+  getPlayerStandings,
+  getTeamTotals
+} from '@/lib/utils/game';
+
+export type { GameRules, RoundFormKind, RoundInputSchema, SetupFormKind } from '@/lib/game-types/types';
+
+/** Every supported game type. Adding one here makes it available to storage and UI. */
+const GAME_RULES: Record<GameType, GameRules> = {
+  classic: classicRules,
+  podrida: podridaRules,
+  truco: trucoRules,
+  chinchon: chinchonRules,
+  generala: generalaRules,
+  burako: burakoRules
+};
+
+/** In the order the create form lists them. */
+export const GAME_TYPES = Object.keys(GAME_RULES) as GameType[];
+
+export function isGameType(value: unknown): value is GameType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(GAME_RULES, value);
+}
+
+/** Unknown or missing types fall back to classic, as games stored before types existed. */
+export function getGameType(game: Pick<Game, 'type'>): GameType {
+  return isGameType(game.type) ? game.type : 'classic';
+}
+
+export function getGameRules(gameOrType: Pick<Game, 'type'> | GameType | undefined): GameRules {
+  const type = typeof gameOrType === 'object' ? gameOrType.type : gameOrType;
+  return GAME_RULES[isGameType(type) ? type : 'classic'];
+}
+
+export function getGameTypeLabel(gameType: GameType): string {
+  return getGameRules(gameType).label;
+}
+
+export function getEndCondition(game: Game): EndCondition | undefined {
+  return getGameRules(game).getEndCondition(game);
+}
+
+export function isEndConditionMet(game: Game): boolean {
+  const endCondition = getEndCondition(game);
+
+  if (!endCondition) {
+    return false;
+  }
+
+  if (endCondition.type === 'round-limit') {
+    return game.rounds.length >= endCondition.rounds;
+  }
+
+  if (endCondition.type === 'target-score') {
+    const totals = game.teams?.length ? getTeamTotals(game) : getGameTotals(game);
+    return Object.values(totals).some((total) => total >= endCondition.target);
+  }
+
+  return getGameRules(game).isGameOver?.(game) ?? false;
+}
+
+export function getStandings(game: Game): Standing[] {
+  return getGameRules(game).getStandings?.(game) ?? getPlayerStandings(game);
+}
+
+export function getWinners(game: Game): Player[] {
+  return getGameRules(game).getWinners?.(game) ?? getGameWinners(game);
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { GameValidationError } from '@/lib/storage/errors';
+import {
+  addPodridaRoundToGame,
+  createGameRecord,
+  setPodridaBetsOnGame,
+  updateRoundInGame
+} from '@/lib/storage/game-mutations';
+import { Game, PodridaSettings } from '@/lib/types';
+import { getGameTotals, getPlayerStandings } from '@/lib/utils/game';
+
+function createPodridaGame(settings: Partial<PodridaSettings> = {}): Game {
+  return createGameRecord({
+    type: 'podrida',
+    players: [{ name: 'Ana' }, { name: 'Beto' }, { name: 'Caro' }],
+    tieBreak: 'fewest-missed-bets',
+    podridaSettings: settings
+  });
+}
+
+function toPlayerRecord(game: Game, values: number[]): Record<string, number> {
+  const record: Record<string, number> = {};
+  game.players.forEach((player, index) => {
+    record[player.id] = values[index];
+  });
+
+  return record;
+}
+
+function playRound(game: Game, bets: number[], tricks: number[], force?: boolean): Game {
+  const withBets = setPodridaBetsOnGame(game, { betsByPlayerId: toPlayerRecord(game, bets) });
+  return addPodridaRoundToGame(withBets, {
+    tricksByPlayerId: toPlayerRecord(game, tricks),
+    force
+  });
+}
+
+describe('Podrida bets', () => {
+  // Ana deals the first round, with 3 cards, and bets last.
+  it('rejects a dealer bet that makes the bets add up to the cards dealt', () => {
+    const game = createPodridaGame();
+
+    expect(() =>
+      setPodridaBetsOnGame(game, { betsByPlayerId: toPlayerRecord(game, [1, 1, 1]) })
+    ).toThrow('Ana reparte y no puede apostar 1');
+  });
+
+  it('accepts any other dealer bet', () => {
+    const game = createPodridaGame();
+    const betsByPlayerId = toPlayerRecord(game, [0, 1, 1]);
+
+    expect(setPodridaBetsOnGame(game, { betsByPlayerId }).podridaState).toEqual({
+      pendingBetsByPlayerId: betsByPlayerId
+    });
+  });
+
+  it('lets the bets add up to the cards dealt when the rule is off', () => {
+    const game = createPodridaGame({ dealerCannotMatchCards: false });
+    const betsByPlayerId = toPlayerRecord(game, [1, 1, 1]);
+
+    expect(setPodridaBetsOnGame(game, { betsByPlayerId }).podridaState).toEqual({
+      pendingBetsByPlayerId: betsByPlayerId
+    });
+  });
+
+  it('rejects a bet over the cards dealt', () => {
+    const game = createPodridaGame({ dealerCannotMatchCards: false });
+
+    expect(() =>
+      setPodridaBetsOnGame(game, { betsByPlayerId: toPlayerRecord(game, [0, 4, 0]) })
+    ).toThrow('La apuesta de Beto no puede superar las 3 cartas repartidas.');
+  });
+});
+
+describe('Podrida rounds from tricks', () => {
+  it('scores the hit bonus plus the points per trick', () => {
+    const game = createPodridaGame({ hitBonus: 5, pointsPerTrick: 2 });
+    const played = playRound(game, [1, 1, 0], [1, 2, 0]);
+    const [ana, beto, caro] = played.players;
+
+    expect(played.rounds[0].entries).toEqual([
+      { playerId: ana.id, value: 7 },
+      { playerId: beto.id, value: 4 },
+      { playerId: caro.id, value: 5 }
+    ]);
+    expect(getGameTotals(played)).toEqual({ [ana.id]: 7, [beto.id]: 4, [caro.id]: 5 });
+  });
+
+  it('rejects more tricks than the cards dealt', () => {
+    const game = createPodridaGame();
+
+    expect(() => playRound(game, [1, 1, 0], [4, 0, 0], true)).toThrow(
+      'Ana no puede ganar más bazas que las 3 cartas repartidas.'
+    );
+  });
+
+  it('rejects tricks that do not add up to the cards dealt and names the suspects', () => {
+    const game = createPodridaGame();
+
+    const save = () => playRound(game, [1, 1, 0], [0, 1, 0]);
+
+    expect(save).toThrow(GameValidationError);
+    expect(save).toThrow(/^Las bazas suman 1 y se repartieron 3 cartas\. Revisa: Ana\./);
+  });
+
+  it('saves a round whose tricks do not add up when forced', () => {
+    const game = playRound(createPodridaGame(), [1, 1, 0], [1, 1, 0], true);
+
+    expect(game.rounds).toHaveLength(1);
+    expect(game.rounds[0].tricksByPlayerId).toEqual(toPlayerRecord(game, [1, 1, 0]));
+  });
+
+  it('keeps the tricks when a round is corrected by hand', () => {
+    let game = playRound(createPodridaGame(), [1, 1, 0], [1, 2, 0]);
+    const round = game.rounds[0];
+
+    game = updateRoundInGame(game, round.id, {
+      mode: 'add',
+      valuesByPlayerId: toPlayerRecord(game, [11, 11, 11])
+    });
+    const [ana, beto, caro] = game.players;
+    const places = getPlayerStandings(game).map((standing) => [
+      standing.competitor.id,
+      standing.place
+    ]);
+
+    expect(game.rounds[0].tricksByPlayerId).toEqual(round.tricksByPlayerId);
+    expect(places).toEqual([
+      [ana.id, 1],
+      [caro.id, 1],
+      [beto.id, 3]
+    ]);
+  });
+});
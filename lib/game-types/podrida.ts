@@ -0,0 +1,108 @@
+import { PodridaSettings } from '@/lib/types';
+import { GameRules } from '@/lib/game-types/types';
+import {
+  assertEveryPlayerEntered,
+  buildRoundEntries,
+  toNumericRecord
+} from '@/lib/game-types/helpers';
+import {
+  DEFAULT_PODRIDA_SETTINGS,
+  getNextPodridaCards,
+  getPodridaMaxCards,
+  PODRIDA_DECK_SIZES
+} from '@/lib/utils/game';
+import { GameValidationError } from '@/lib/storage/errors';
+
+function toPodridaSettings(input: Partial<PodridaSettings> = {}): PodridaSettings {
+  const settings: PodridaSettings = {
+    hitBonus: input.hitBonus ?? DEFAULT_PODRIDA_SETTINGS.hitBonus,
+    pointsPerTrick: input.pointsPerTrick ?? DEFAULT_PODRIDA_SETTINGS.pointsPerTrick,
+    dealerCannotMatchCards: Boolean(
+      input.dealerCannotMatchCards ?? DEFAULT_PODRIDA_SETTINGS.dealerCannotMatchCards
+    ),
+    deckSize: input.deckSize ?? DEFAULT_PODRIDA_SETTINGS.deckSize,
+    startCards: input.startCards ?? DEFAULT_PODRIDA_SETTINGS.startCards,
+    sequence: input.sequence === 'up-only' ? 'up-only' : 'up-down',
+    repeatMaxPerPlayer: Boolean(
+      input.repeatMaxPerPlayer ?? DEFAULT_PODRIDA_SETTINGS.repeatMaxPerPlayer
+    )
+  };
+
+  if (!Number.isFinite(settings.hitBonus) || !Number.isFinite(settings.pointsPerTrick)) {
+    throw new GameValidationError('Los puntos por acertar y por baza deben ser números.');
+  }
+
+  if (!PODRIDA_DECK_SIZES.includes(settings.deckSize)) {
+    throw new GameValidationError(`El mazo debe tener ${PODRIDA_DECK_SIZES.join(' o ')} cartas.`);
+  }
+
+  if (!Number.isInteger(settings.startCards) || settings.startCards < 1) {
+    throw new GameValidationError('La primera ronda debe repartir al menos 1 carta.');
+  }
+
+  return settings;
+}
+
+export const podridaRules: GameRules = {
+  type: 'podrida',
+  label: 'Podrida',
+  setupForm: 'podrida',
+  roundInput: {
+    form: 'podrida',
+    modes: ['add', 'set'],
+    requiresAllPlayers: true
+  },
+  tieBreaks: ['shared', 'fewest-missed-bets', 'most-rounds-won', 'best-last-round', 'playoff'],
+  scoringDirection: 'highest-wins',
+  setupGame: (input, players) => {
+    const podridaSettings = toPodridaSettings(input.podridaSettings);
+
+    if (getPodridaMaxCards(players.length, podridaSettings.deckSize) < podridaSettings.startCards) {
+      throw new GameValidationError(
+        `Con esta cantidad de jugadores no se puede iniciar Podrida (mínimo ${podridaSettings.startCards} cartas por jugador).`
+      );
+    }
+
+    return {
+      endCondition: { type: 'sequence-complete' },
+      podridaSettings,
+      podridaState: {
+        pendingBetsByPlayerId: {}
+      }
+    };
+  },
+  scoreRound: (game, input, round) => {
+    if (!round) {
+      throw new GameValidationError('Esta partida usa reglas especiales. Usa la carga de Podrida.');
+    }
+
+    assertEveryPlayerEntered(game, input);
+
+    // A manual correction only changes the score: the stored bets and tricks still count
+    // for the fewest-missed-bets tie-break.
+    return {
+      mode: input.mode,
+      entries: buildRoundEntries(game, input)
+    };
+  },
+  getEndCondition: () => ({ type: 'sequence-complete' }),
+  isGameOver: (game) => getNextPodridaCards(game) === null,
+  normalizeRound: (round, base) => {
+    if (typeof round.cardsCount !== 'number' || !Number.isFinite(round.cardsCount)) {
+      return {
+        ...base,
+        type: 'classic'
+      };
+    }
+
+    return {
+      ...base,
+      type: 'podrida',
+      // Podrida rounds held accumulated totals unless explicitly stored as points to add.
+      mode: round.mode === 'add' ? 'add' : 'set',
+      cardsCount: round.cardsCount,
+      betsByPlayerId: toNumericRecord(round.betsByPlayerId),
+      tricksByPlayerId: round.tricksByPlayerId ? toNumericRecord(round.tricksByPlayerId) : undefined
+    };
+  }
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { addRoundToGame, createGameRecord } from '@/lib/storage/game-mutations';
+import { Game } from '@/lib/types';
+
+function createTrucoGame(target?: number): Game {
+  return createGameRecord({
+    type: 'truco',
+    players: [{ name: 'Ana' }, { name: 'Beto' }, { name: 'Caro' }, { name: 'Dani' }],
+    trucoSettings: target === undefined ? undefined : { target }
+  });
+}
+
+function addHand(game: Game, points: number[]): Game {
+  const [nosotros, ellos] = game.teams ?? [];
+  return addRoundToGame(game, {
+    mode: 'add',
+    valuesByPlayerId: {},
+    valuesByTeamId: { [nosotros.id]: points[0], [ellos.id]: points[1] }
+  });
+}
+
+describe('Truco rules', () => {
+  it('pairs players across the table and plays to 30 by default', () => {
+    const game = createTrucoGame();
+    const [ana, beto, caro, dani] = game.players;
+
+    expect(game.endCondition).toEqual({ type: 'target-score', target: 30 });
+    expect(game.teams?.map((team) => team.playerIds)).toEqual([
+      [ana.id, caro.id],
+      [beto.id, dani.id]
+    ]);
+  });
+
+  it('finishes when a team reaches 15', () => {
+    let game = addHand(createTrucoGame(15), [14, 3]);
+    expect(game.status).toBe('open');
+
+    game = addHand(game, [1, 0]);
+    expect(game.status).toBe('finished');
+    expect(game.winnerIds).toEqual(game.teams?.[0].playerIds);
+  });
+
+  it('finishes when a team reaches 30', () => {
+    let game = addHand(createTrucoGame(30), [15, 29]);
+    expect(game.status).toBe('open');
+
+    game = addHand(game, [0, 4]);
+    expect(game.status).toBe('finished');
+    expect(game.winnerIds).toEqual(game.teams?.[1].playerIds);
+  });
+
+  it('only plays to 15 or 30', () => {
+    expect(() => createTrucoGame(20)).toThrow('El Truco se juega a 15 o 30 puntos.');
+  });
+
+  it('rejects a hand without points', () => {
+    expect(() => addHand(createTrucoGame(), [0, 0])).toThrow(
+      'Anota al menos un punto para guardar la mano.'
+    );
+  });
+});
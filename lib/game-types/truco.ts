@@ -0,0 +1,75 @@
+import { Round, TrucoSettings } from '@/lib/types';
+import { GameRules } from '@/lib/game-types/types';
+import { createAlternatingTeams } from '@/lib/game-types/helpers';
+import {
+  DEFAULT_TRUCO_SETTINGS,
+  getTrucoSettings,
+  TRUCO_PLAYER_COUNTS,
+  TRUCO_TARGETS
+} from '@/lib/utils/truco';
+import { GameValidationError } from '@/lib/storage/errors';
+
+function toTrucoSettings(input: Partial<TrucoSettings> = {}): TrucoSettings {
+  const target = input.target ?? DEFAULT_TRUCO_SETTINGS.target;
+
+  if (!TRUCO_TARGETS.includes(target)) {
+    throw new GameValidationError(`El Truco se juega a ${TRUCO_TARGETS.join(' o ')} puntos.`);
+  }
+
+  return { target };
+}
+
+export const trucoRules: GameRules = {
+  type: 'truco',
+  label: 'Truco',
+  setupForm: 'truco',
+  roundInput: {
+    form: 'truco',
+    modes: ['add'],
+    requiresAllPlayers: false
+  },
+  tieBreaks: ['shared', 'most-rounds-won', 'best-last-round', 'playoff'],
+  scoringDirection: 'highest-wins',
+  setupGame: (input, players) => {
+    if (!TRUCO_PLAYER_COUNTS.includes(players.length)) {
+      throw new GameValidationError(`El Truco se juega de a ${TRUCO_PLAYER_COUNTS.join(', ')} jugadores.`);
+    }
+
+    const trucoSettings = toTrucoSettings(input.trucoSettings);
+
+    return {
+      endCondition: { type: 'target-score', target: trucoSettings.target },
+      teams: createAlternatingTeams(players),
+      teamScoring: 'per-team',
+      trucoSettings
+    };
+  },
+  scoreRound: (game, input) => {
+    const entries: Round['entries'] = [];
+    let handTotal = 0;
+
+    for (const team of game.teams ?? []) {
+      const points = Number(input.valuesByTeamId?.[team.id] ?? 0);
+
+      if (!Number.isInteger(points) || points < 0) {
+        throw new GameValidationError(`Los puntos de ${team.name} deben ser un número entero positivo.`);
+      }
+
+      handTotal += points;
+
+      for (const playerId of team.playerIds) {
+        entries.push({ playerId, value: points });
+      }
+    }
+
+    if (handTotal === 0) {
+      throw new GameValidationError('Anota al menos un punto para guardar la mano.');
+    }
+
+    return {
+      mode: 'add',
+      entries
+    };
+  },
+  getEndCondition: (game) => ({ type: 'target-score', target: getTrucoSettings(game).target })
+};
@@ -0,0 +1,63 @@
+import {
+  CreateGameInput,
+  EndCondition,
+  Game,
+  GameType,
+  Player,
+  Round,
+  RoundInput,
+  ScoringDirection,
+  Standing,
+  TieBreakPolicy
+} from '@/lib/types';
+
+/** Extra fields the create form renders for the game type. */
+export type SetupFormKind =
+  | 'none'
+  | 'end-condition'
+  | 'podrida'
+  | 'truco'
+  | 'chinchon'
+  | 'burako';
+
+/** Round entry form the game page renders for the game type. */
+export type RoundFormKind = 'scores' | 'podrida' | 'truco' | 'chinchon' | 'generala' | 'burako';
+
+export interface RoundInputSchema {
+  form: RoundFormKind;
+  /** Modes offered when typing or editing a round. */
+  modes: Round['mode'][];
+  /** Every player needs a value before the round can be saved. */
+  requiresAllPlayers: boolean;
+}
+
+export type ScoredRound = Pick<Round, 'mode' | 'entries'> & Partial<Round>;
+
+export interface GameRules {
+  type: GameType;
+  label: string;
+  setupForm: SetupFormKind;
+  roundInput: RoundInputSchema;
+  /** Fixed by the rules of the game; when missing, players pick it on the create form. */
+  scoringDirection?: ScoringDirection;
+  /** Players can split into their own teams on the create form. */
+  customTeams?: boolean;
+  /** Tie-break policies offered on the create form; the first one is the default. */
+  tieBreaks: TieBreakPolicy[];
+  /** Validates the create input and returns the fields this type adds to the new game. */
+  setupGame(input: CreateGameInput, players: Player[]): Partial<Game>;
+  /**
+   * Turns a typed round into what gets stored. `round` is set when editing a saved round.
+   * Throws with a message for the user when the input doesn't fit the rules.
+   */
+  scoreRound(game: Game, input: RoundInput, round?: Round): ScoredRound;
+  getEndCondition(game: Game): EndCondition | undefined;
+  /** Decides the end conditions that depend on the type's own rules, like `sequence-complete`. */
+  isGameOver?(game: Game): boolean;
+  /** Overrides the default winners: every player tied with the best total. */
+  getWinners?(game: Game): Player[];
+  /** Overrides the default standings: by total in the game's direction, then the tie-break. */
+  getStandings?(game: Game): Standing[];
+  /** Keeps the type-specific fields of a stored round when loading or importing data. */
+  normalizeRound?(round: Round, base: Round): Round;
+}
@@ -0,0 +1,7 @@
+import { AppData } from '@/lib/types';
+
+// Persistence used by the server repository. Implement this to back the API with another database.
+export interface GameStore {
+  read(): Promise<AppData>;
+  write(data: AppData): Promise<void>;
+}
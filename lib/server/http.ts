@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { toMutationOptions } from '@/lib/server/request-validation';
+import {
+  ApiErrorBody,
+  EXPECTED_REVISION_PARAM,
+  MutationRequestBody
+} from '@/lib/storage/api-contract';
+import { GameConflictError, GameNotFoundError, GameValidationError } from '@/lib/storage/errors';
+import { MutationOptions } from '@/lib/types';
+
+function toErrorResponse(cause: unknown): NextResponse<ApiErrorBody> {
+  if (cause instanceof GameConflictError) {
+    return NextResponse.json(
+      { error: cause.message, latestGame: cause.latestGame },
+      { status: 409 }
+    );
+  }
+
+  if (cause instanceof GameNotFoundError) {
+    return NextResponse.json({ error: cause.message }, { status: 404 });
+  }
+
+  if (cause instanceof GameValidationError) {
+    return NextResponse.json({ error: cause.message }, { status: 400 });
+  }
+
+  console.error(cause);
+  return NextResponse.json({ error: 'Error inesperado del servidor.' }, { status: 500 });
+}
+
+export async function respond<T>(action: () => Promise<T>, status = 200): Promise<NextResponse> {
+  try {
+    const result = await action();
+    return NextResponse.json(result ?? null, { status });
+  } catch (cause) {
+    return toErrorResponse(cause);
+  }
+}
+
+export async function readJsonBody<T>(request: Request): Promise<T> {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    throw new GameValidationError('Solicitud inválida.');
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new GameValidationError('Solicitud inválida.');
+  }
+
+  return body as T;
+}
+
+export async function readMutationBody<TInput>(
+  request: Request,
+  toInput: (value: unknown) => TInput
+): Promise<MutationRequestBody<TInput>> {
+  const body = await readJsonBody<Record<string, unknown>>(request);
+  return { input: toInput(body.input), options: toMutationOptions(body.options) };
+}
+
+export async function readOptionsBody(request: Request): Promise<MutationOptions | undefined> {
+  const body = await readJsonBody<Record<string, unknown>>(request);
+  return toMutationOptions(body.options);
+}
+
+export function readOptionsFromQuery(request: Request): MutationOptions {
+  const rawRevision = new URL(request.url).searchParams.get(EXPECTED_REVISION_PARAM);
+
+  if (rawRevision === null) {
+    return {};
+  }
+
+  const expectedRevision = Number(rawRevision);
+
+  if (!Number.isInteger(expectedRevision)) {
+    throw new GameValidationError('La revisión esperada no es válida.');
+  }
+
+  return { expectedRevision };
+}
@@ -0,0 +1,19 @@
+import path from 'path';
+import { JsonFileGameStore } from '@/lib/server/json-file-store';
+import { ServerGameRepository } from '@/lib/server/server-game-repository';
+import { GameRepository } from '@/lib/storage/repository';
+
+const DEFAULT_DATA_FILE = path.join(process.cwd(), '.data', 'scores-recorder.json');
+
+let repository: GameRepository | null = null;
+
+export function getServerGameRepository(): GameRepository {
+  if (!repository) {
+    // Switch point for the API: pass another GameStore here to use a real database.
+    repository = new ServerGameRepository(
+      new JsonFileGameStore(process.env.SCORES_DATA_FILE || DEFAULT_DATA_FILE)
+    );
+  }
+
+  return repository;
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AppData } from '@/lib/types';
+import { GameStore } from '@/lib/server/game-store';
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateAppData,
+  needsMigration,
+  parseSchemaVersion
+} from '@/lib/storage/migrations';
+import { normalizeAppData } from '@/lib/storage/normalize';
+
+interface StoredFile {
+  schemaVersion: number;
+  data: AppData;
+}
+
+function isMissingFileError(cause: unknown): boolean {
+  return (cause as NodeJS.ErrnoException | undefined)?.code === 'ENOENT';
+}
+
+export class JsonFileGameStore implements GameStore {
+  constructor(private readonly filePath: string) {}
+
+  async read(): Promise<AppData> {
+    let raw: string;
+
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (cause) {
+      if (isMissingFileError(cause)) {
+        return {
+          games: [],
+          recentPlayers: []
+        };
+      }
+
+      throw cause;
+    }
+
+    const parsed = JSON.parse(raw) as Partial<StoredFile>;
+    const schemaVersion = parseSchemaVersion(parsed.schemaVersion);
+
+    if (!needsMigration(schemaVersion)) {
+      return normalizeAppData(parsed.data);
+    }
+
+    // The original file stays next to the data so a failed migration can be rolled back by hand.
+    await fs.writeFile(`${this.filePath}.backup`, raw, 'utf8');
+
+    const migrated = normalizeAppData(migrateAppData(parsed.data, schemaVersion));
+    await this.write(migrated);
+    return migrated;
+  }
+
+  async write(data: AppData): Promise<void> {
+    const stored: StoredFile = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      data
+    };
+    const tempPath = `${this.filePath}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(stored), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,15 @@
+import { GameStore } from '@/lib/server/game-store';
+import { AppData } from '@/lib/types';
+
+// Keeps the data in memory; used by the tests. Copies on every read and write, like a real store.
+export class MemoryGameStore implements GameStore {
+  private data: AppData = { games: [], recentPlayers: [] };
+
+  async read(): Promise<AppData> {
+    return structuredClone(this.data);
+  }
+
+  async write(data: AppData): Promise<void> {
+    this.data = structuredClone(data);
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import {
+  toCreateGameInput,
+  toMutationOptions,
+  toRoundInput
+} from '@/lib/server/request-validation';
+import { GameValidationError } from '@/lib/storage/errors';
+
+describe('request validation', () => {
+  it('accepts the inputs the app sends', () => {
+    const round = {
+      mode: 'add',
+      valuesByPlayerId: { a: 3 },
+      burako: { partsByTeamId: { team: { cardsPoints: 10 } } }
+    };
+
+    expect(toRoundInput(round)).toBe(round);
+    expect(toCreateGameInput({ players: [{ name: 'Ana' }, { name: 'Beto' }] })).toBeDefined();
+    expect(toMutationOptions(undefined)).toBeUndefined();
+    expect(toMutationOptions({ expectedRevision: 2 })).toEqual({ expectedRevision: 2 });
+  });
+
+  it('rejects bodies the rules could not read', () => {
+    expect(() => toRoundInput(undefined)).toThrow(GameValidationError);
+    expect(() => toRoundInput({ mode: 'add' })).toThrow(GameValidationError);
+    expect(() => toRoundInput({ mode: 'add', valuesByPlayerId: { a: '3' } })).toThrow(
+      GameValidationError
+    );
+    expect(() =>
+      toRoundInput({ mode: 'add', valuesByPlayerId: {}, burako: {} })
+    ).toThrow(GameValidationError);
+    expect(() => toCreateGameInput({})).toThrow(GameValidationError);
+    expect(() => toCreateGameInput({ players: [{}] })).toThrow(GameValidationError);
+    expect(() => toMutationOptions({ expectedRevision: 'x' })).toThrow(GameValidationError);
+  });
+});
@@ -0,0 +1,128 @@
+import { GameValidationError } from '@/lib/storage/errors';
+import {
+  CreateGameInput,
+  MutationOptions,
+  PlayoffInput,
+  PodridaBetsInput,
+  PodridaRoundInput,
+  RoundInput
+} from '@/lib/types';
+
+// Shape checks for request bodies. They only make sure the game rules can read the input;
+// the rules themselves reject values that don't make sense for the game.
+
+type Check = (value: unknown) => boolean;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isString: Check = (value) => typeof value === 'string';
+const isNumber: Check = (value) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: Check = (value) => typeof value === 'boolean';
+
+function optional(check: Check): Check {
+  return (value) => value === undefined || check(value);
+}
+
+function arrayOf(check: Check): Check {
+  return (value) => Array.isArray(value) && value.every(check);
+}
+
+function recordOf(check: Check): Check {
+  return (value) => isRecord(value) && Object.values(value).every(check);
+}
+
+function shape(fields: Record<string, Check>): Check {
+  return (value) =>
+    isRecord(value) && Object.entries(fields).every(([key, check]) => check(value[key]));
+}
+
+const isNumberRecord = recordOf(isNumber);
+
+const isCreateGameInput = shape({
+  name: optional(isString),
+  players: arrayOf(
+    shape({ name: isString, color: optional(isString), teamIndex: optional(isNumber) })
+  ),
+  type: optional(isString),
+  startingDealerIndex: optional(isNumber),
+  endCondition: optional(shape({ type: isString })),
+  scoringDirection: optional(isString),
+  tieBreak: optional(isString),
+  teams: optional(arrayOf(shape({ name: isString, color: optional(isString) }))),
+  teamScoring: optional(isString),
+  podridaSettings: optional(isRecord),
+  trucoSettings: optional(isRecord),
+  chinchonSettings: optional(isRecord),
+  burakoSettings: optional(isRecord)
+});
+
+const isRoundInput = shape({
+  mode: (value) => value === 'add' || value === 'set',
+  valuesByPlayerId: isNumberRecord,
+  valuesByTeamId: optional(isNumberRecord),
+  chinchon: optional(
+    shape({
+      closedById: optional(isString),
+      isChinchon: optional(isBoolean),
+      reentryPlayerId: optional(isString)
+    })
+  ),
+  generala: optional(
+    shape({
+      playerId: isString,
+      category: isString,
+      dice: optional(isNumber),
+      served: optional(isBoolean),
+      scratched: optional(isBoolean)
+    })
+  ),
+  burako: optional(shape({ partsByTeamId: recordOf(isRecord) }))
+});
+
+const isPlayoffInput = shape({ scoresById: isNumberRecord });
+
+const isPodridaBetsInput = shape({ betsByPlayerId: isNumberRecord });
+
+const isPodridaRoundInput = shape({
+  tricksByPlayerId: optional(isNumberRecord),
+  totalsByPlayerId: optional(isNumberRecord),
+  force: optional(isBoolean)
+});
+
+const isMutationOptions = optional(
+  shape({ expectedRevision: optional((value) => Number.isInteger(value)) })
+);
+
+function validate<T>(value: unknown, check: Check): T {
+  if (!check(value)) {
+    throw new GameValidationError('Solicitud inválida.');
+  }
+
+  return value as T;
+}
+
+export function toCreateGameInput(value: unknown): CreateGameInput {
+  return validate(value, isCreateGameInput);
+}
+
+export function toRoundInput(value: unknown): RoundInput {
+  return validate(value, isRoundInput);
+}
+
+export function toPlayoffInput(value: unknown): PlayoffInput {
+  return validate(value, isPlayoffInput);
+}
+
+export function toPodridaBetsInput(value: unknown): PodridaBetsInput {
+  return validate(value, isPodridaBetsInput);
+}
+
+export function toPodridaRoundInput(value: unknown): PodridaRoundInput {
+  return validate(value, isPodridaRoundInput);
+}
+
+export function toMutationOptions(value: unknown): MutationOptions | undefined {
+  return validate(value, isMutationOptions);
+}
@@ -0,0 +1,8 @@
+import { MemoryGameStore } from '@/lib/server/memory-game-store';
+import { ServerGameRepository } from '@/lib/server/server-game-repository';
+import { describeGameRepositoryContract } from '@/lib/storage/repository.contract';
+
+describeGameRepositoryContract(
+  'ServerGameRepository',
+  () => new ServerGameRepository(new MemoryGameStore())
+);
@@ -0,0 +1,228 @@
+import {
+  AppData,
+  CreateGameInput,
+  Game,
+  ImportStrategy,
+  MutationOptions,
+  PlayoffInput,
+  PodridaBetsInput,
+  PodridaRoundInput,
+  RecentPlayer,
+  RoundInput
+} from '@/lib/types';
+import { GameStore } from '@/lib/server/game-store';
+import { mergeAppData } from '@/lib/storage/backup';
+import { GameNotFoundError } from '@/lib/storage/errors';
+import {
+  addPlayoffToGame,
+  addPodridaRoundToGame,
+  addRoundToGame,
+  applyGameMutation,
+  archiveGameRecord,
+  assertGameCanBePurged,
+  assertExpectedRevision,
+  createGameRecord,
+  deleteRoundFromGame,
+  finishGameRecord,
+  getActiveGames,
+  getDeletedGames,
+  isGameExpired,
+  moveGameToTrash,
+  reopenGameRecord,
+  restoreGameRecord,
+  setPodridaBetsOnGame,
+  sortRecentPlayers,
+  updateRoundInGame,
+  upsertRecentPlayers
+} from '@/lib/storage/game-mutations';
+import { GameRepository } from '@/lib/storage/repository';
+
+export class ServerGameRepository implements GameRepository {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly store: GameStore) {}
+
+  // Runs read-modify-write cycles one at a time so concurrent requests cannot drop each other's writes.
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private updateGame(
+    gameId: string,
+    mutate: (game: Game) => Game,
+    options?: MutationOptions
+  ): Promise<Game> {
+    return this.exclusive(async () => {
+      const data = await this.store.read();
+      const gameIndex = data.games.findIndex((game) => game.id === gameId);
+
+      if (gameIndex < 0) {
+        throw new GameNotFoundError();
+      }
+
+      const game = data.games[gameIndex];
+      const updatedGame = applyGameMutation(game, mutate, options);
+
+      if (updatedGame === game) {
+        return game;
+      }
+
+      const games = [...data.games];
+      games[gameIndex] = updatedGame;
+
+      await this.store.write({
+        ...data,
+        games
+      });
+
+      return updatedGame;
+    });
+  }
+
+  async getAppData(): Promise<AppData> {
+    return this.store.read();
+  }
+
+  async getGames(): Promise<Game[]> {
+    const data = await this.store.read();
+    return getActiveGames(data.games);
+  }
+
+  async getDeletedGames(): Promise<Game[]> {
+    const data = await this.store.read();
+    return getDeletedGames(data.games);
+  }
+
+  async getGameById(id: string): Promise<Game | undefined> {
+    const data = await this.store.read();
+    return data.games.find((game) => game.id === id);
+  }
+
+  async getRecentPlayers(limit = 8): Promise<RecentPlayer[]> {
+    const data = await this.store.read();
+    return sortRecentPlayers(data.recentPlayers, limit);
+  }
+
+  async createGame(input: CreateGameInput): Promise<Game> {
+    const game = createGameRecord(input);
+
+    return this.exclusive(async () => {
+      const data = await this.store.read();
+
+      await this.store.write({
+        games: [game, ...data.games],
+        recentPlayers: upsertRecentPlayers(data.recentPlayers, game.players)
+      });
+
+      return game;
+    });
+  }
+
+  async addRound(gameId: string, input: RoundInput, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, (game) => addRoundToGame(game, input), options);
+  }
+
+  async setPodridaBets(
+    gameId: string,
+    input: PodridaBetsInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    return this.updateGame(gameId, (game) => setPodridaBetsOnGame(game, input), options);
+  }
+
+  async addPodridaRound(
+    gameId: string,
+    input: PodridaRoundInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    return this.updateGame(gameId, (game) => addPodridaRoundToGame(game, input), options);
+  }
+
+  async addPlayoff(gameId: string, input: PlayoffInput, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, (game) => addPlayoffToGame(game, input), options);
+  }
+
+  async updateRound(
+    gameId: string,
+    roundId: string,
+    input: RoundInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    return this.updateGame(gameId, (game) => updateRoundInGame(game, roundId, input), options);
+  }
+
+  async deleteRound(gameId: string, roundId: string, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, (game) => deleteRoundFromGame(game, roundId), options);
+  }
+
+  async deleteGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, moveGameToTrash, options);
+  }
+
+  async restoreGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, restoreGameRecord, options);
+  }
+
+  async purgeGame(gameId: string, options?: MutationOptions): Promise<void> {
+    return this.exclusive(async () => {
+      const data = await this.store.read();
+      const game = data.games.find((currentGame) => currentGame.id === gameId);
+
+      if (!game) {
+        throw new GameNotFoundError();
+      }
+
+      assertExpectedRevision(game, options);
+      assertGameCanBePurged(game);
+
+      await this.store.write({
+        ...data,
+        games: data.games.filter((currentGame) => currentGame.id !== gameId)
+      });
+    });
+  }
+
+  async purgeExpiredGames(retentionDays: number): Promise<number> {
+    return this.exclusive(async () => {
+      const data = await this.store.read();
+      const games = data.games.filter((game) => !isGameExpired(game, retentionDays));
+      const purgedCount = data.games.length - games.length;
+
+      if (purgedCount > 0) {
+        await this.store.write({
+          ...data,
+          games
+        });
+      }
+
+      return purgedCount;
+    });
+  }
+
+  async finishGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, finishGameRecord, options);
+  }
+
+  async reopenGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, reopenGameRecord, options);
+  }
+
+  async archiveGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, archiveGameRecord, options);
+  }
+
+  async importAppData(data: AppData, strategy: ImportStrategy): Promise<AppData> {
+    return this.exclusive(async () => {
+      const merged = mergeAppData(await this.store.read(), data, strategy);
+      await this.store.write(merged);
+      return merged;
+    });
+  }
+
+  subscribe(): () => void {
+    // Server code has no other tabs to listen to.
+    return () => undefined;
+  }
+}
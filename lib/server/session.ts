@@ -0,0 +1,32 @@
+// Browser session for the server driver. The cookie holds an HMAC of SCORES_API_TOKEN, so the
+// token itself never reaches the client and changing it signs every device out.
+
+export const SESSION_COOKIE = 'scores-recorder-session';
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+export async function createSessionValue(apiToken: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(apiToken),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(SESSION_COOKIE));
+
+  const bytes = Array.from(new Uint8Array(signature));
+
+  return bytes.map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Compares every character so the response time doesn't reveal how much of the secret matched.
+export function isSameSecret(received: string, expected: string): boolean {
+  let difference = received.length ^ expected.length;
+
+  for (let index = 0; index < expected.length; index += 1) {
+    difference |= received.charCodeAt(index) ^ expected.charCodeAt(index);
+  }
+
+  return difference === 0;
+}
@@ -0,0 +1,38 @@
+import { Game, ImportStrategy, MutationOptions } from '@/lib/types';
+import { BackupFile } from '@/lib/storage/backup';
+
+// Request and response shapes shared by the `app/api/games` route handlers and HttpGameRepository.
+
+export const GAMES_API_PATH = '/api/games';
+export const SESSION_API_PATH = '/api/session';
+
+export interface MutationRequestBody<TInput> {
+  input: TInput;
+  options?: MutationOptions;
+}
+
+export interface OptionsRequestBody {
+  options?: MutationOptions;
+}
+
+export interface ImportRequestBody {
+  /** Sent as a backup file so the server validates it like an uploaded one. */
+  backup: BackupFile;
+  strategy: ImportStrategy;
+}
+
+export interface SessionRequestBody {
+  token: string;
+}
+
+export interface PurgeExpiredResponseBody {
+  purgedCount: number;
+}
+
+export interface ApiErrorBody {
+  error: string;
+  /** Present on 409 responses so the client can show the stored game. */
+  latestGame?: Game;
+}
+
+export const EXPECTED_REVISION_PARAM = 'expectedRevision';
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createBackup, readBackup } from '@/lib/storage/backup';
+import { GameValidationError } from '@/lib/storage/errors';
+import { createGameRecord } from '@/lib/storage/game-mutations';
+
+function withData(data: unknown) {
+  return { ...createBackup({ games: [], recentPlayers: [] }), data };
+}
+
+describe('readBackup', () => {
+  it('returns the data of a backup created by the app', () => {
+    const game = createGameRecord({ players: [{ name: 'Ana' }, { name: 'Beto' }] });
+    const backup = createBackup({ games: [game], recentPlayers: [] });
+    const data = readBackup(JSON.parse(JSON.stringify(backup)));
+
+    expect(data.games).toHaveLength(1);
+    expect(data.games[0].id).toBe(game.id);
+  });
+
+  it('fills in a missing revision and update date', () => {
+    const game = { id: 'x', createdAt: '2024-01-01', players: [{ id: 'a', name: 'Ana' }] };
+    const data = readBackup(withData({ games: [game] }));
+
+    expect(data.games[0]).toMatchObject({ revision: 0, updatedAt: '2024-01-01' });
+  });
+
+  it('rejects data without a list of games', () => {
+    expect(() => readBackup(withData({ games: 'nope' }))).toThrow(GameValidationError);
+    expect(() => readBackup(withData({}))).toThrow(GameValidationError);
+  });
+
+  it('rejects games without players', () => {
+    expect(() => readBackup(withData({ games: [{ id: 'x' }] }))).toThrow(GameValidationError);
+    expect(() =>
+      readBackup(withData({ games: [{ id: 'x', createdAt: '2024-01-01', players: [1] }] }))
+    ).toThrow(GameValidationError);
+  });
+
+  it('rejects content that is not a backup', () => {
+    expect(() => readBackup({ games: [] })).toThrow(GameValidationError);
+    expect(() => readBackup(null)).toThrow(GameValidationError);
+  });
+});
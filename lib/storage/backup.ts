@@ -0,0 +1,170 @@
+import { AppData, Game, ImportStrategy } from '@/lib/types';
+import { mergeRecentPlayers } from '@/lib/storage/game-mutations';
+import { CURRENT_SCHEMA_VERSION, migrateAppData, parseSchemaVersion } from '@/lib/storage/migrations';
+import { normalizeAppData } from '@/lib/storage/normalize';
+import { GameValidationError } from '@/lib/storage/errors';
+
+export const BACKUP_FORMAT = 'scores-recorder-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  exportedAt: string;
+  data: AppData;
+}
+
+export interface ImportPreview {
+  totalGames: number;
+  /** Games whose id is not stored yet. */
+  newGames: Game[];
+  /** Games already stored that the backup has a newer version of. */
+  updatedGames: Game[];
+  /** Games already stored with the same or a newer version; a merge leaves them as they are. */
+  unchangedGames: Game[];
+  recentPlayersCount: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNewerGame(candidate: Game, current: Game): boolean {
+  if (candidate.revision !== current.revision) {
+    return candidate.revision > current.revision;
+  }
+
+  return candidate.updatedAt.localeCompare(current.updatedAt) > 0;
+}
+
+export function createBackup(data: AppData): BackupFile {
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data
+  };
+}
+
+export function getBackupFileName(date = new Date()): string {
+  return `scores-recorder-respaldo-${date.toISOString().slice(0, 10)}.json`;
+}
+
+export function parseBackup(content: string): AppData {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new GameValidationError('El archivo no es un JSON válido.');
+  }
+
+  return readBackup(parsed);
+}
+
+function isValidPlayer(player: unknown): boolean {
+  return isRecord(player) && typeof player.id === 'string' && typeof player.name === 'string';
+}
+
+function isValidGame(game: unknown): boolean {
+  return (
+    isRecord(game) &&
+    typeof game.id === 'string' &&
+    typeof game.createdAt === 'string' &&
+    Array.isArray(game.players) &&
+    game.players.every(isValidPlayer) &&
+    (game.rounds === undefined || Array.isArray(game.rounds))
+  );
+}
+
+// Validates an already parsed backup, e.g. the body of an import request.
+export function readBackup(parsed: unknown): AppData {
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT || !isRecord(parsed.data)) {
+    throw new GameValidationError('El archivo no es un respaldo de Scores Recorder.');
+  }
+
+  const formatVersion = Number(parsed.formatVersion);
+
+  if (!Number.isInteger(formatVersion) || formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new GameValidationError('El respaldo fue creado con una versión más nueva de la app.');
+  }
+
+  const schemaVersion = parseSchemaVersion(parsed.schemaVersion);
+
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new GameValidationError('El respaldo fue creado con una versión más nueva de la app.');
+  }
+
+  const { games, recentPlayers } = parsed.data;
+
+  if (!Array.isArray(games) || !games.every(isValidGame)) {
+    throw new GameValidationError('El respaldo contiene partidas con un formato inválido.');
+  }
+
+  if (recentPlayers !== undefined && !Array.isArray(recentPlayers)) {
+    throw new GameValidationError('El respaldo contiene jugadores recientes con un formato inválido.');
+  }
+
+  let migrated: AppData;
+
+  try {
+    migrated = migrateAppData(parsed.data, schemaVersion);
+  } catch (cause) {
+    throw new GameValidationError(cause instanceof Error ? cause.message : String(cause));
+  }
+
+  // Same rules the repositories apply to their own stored data.
+  return normalizeAppData(migrated);
+}
+
+export function previewImport(current: AppData, incoming: AppData): ImportPreview {
+  const currentById = new Map(current.games.map((game) => [game.id, game]));
+  const preview: ImportPreview = {
+    totalGames: incoming.games.length,
+    newGames: [],
+    updatedGames: [],
+    unchangedGames: [],
+    recentPlayersCount: incoming.recentPlayers.length
+  };
+
+  for (const game of incoming.games) {
+    const existing = currentById.get(game.id);
+
+    if (!existing) {
+      preview.newGames.push(game);
+    } else if (isNewerGame(game, existing)) {
+      preview.updatedGames.push(game);
+    } else {
+      preview.unchangedGames.push(game);
+    }
+  }
+
+  return preview;
+}
+
+export function mergeAppData(
+  current: AppData,
+  incoming: AppData,
+  strategy: ImportStrategy
+): AppData {
+  if (strategy === 'replace') {
+    return incoming;
+  }
+
+  const gamesById = new Map(current.games.map((game) => [game.id, game]));
+
+  for (const game of incoming.games) {
+    const existing = gamesById.get(game.id);
+
+    if (!existing || isNewerGame(game, existing)) {
+      gamesById.set(game.id, game);
+    }
+  }
+
+  return {
+    games: [...gamesById.values()],
+    recentPlayers: mergeRecentPlayers(current.recentPlayers, incoming.recentPlayers)
+  };
+}
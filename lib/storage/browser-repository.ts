@@ -0,0 +1,140 @@
+import {
+  AppData,
+  CreateGameInput,
+  Game,
+  ImportStrategy,
+  MutationOptions,
+  PlayoffInput,
+  PodridaBetsInput,
+  PodridaRoundInput,
+  RecentPlayer,
+  RoundInput
+} from '@/lib/types';
+import { canOpenIndexedDB, IndexedDBGameRepository } from '@/lib/storage/indexeddb-repository';
+import { LocalStorageGameRepository } from '@/lib/storage/local-storage-repository';
+import { GameRepository, RepositoryChangeListener } from '@/lib/storage/repository';
+
+// Uses IndexedDB when the browser can open a database and localStorage otherwise.
+// The choice needs an async open, so every call waits for it before delegating.
+export class BrowserGameRepository implements GameRepository {
+  private repositoryPromise: Promise<GameRepository> | null = null;
+
+  private getRepository(): Promise<GameRepository> {
+    if (!this.repositoryPromise) {
+      this.repositoryPromise = canOpenIndexedDB().then((canOpen) =>
+        canOpen ? new IndexedDBGameRepository() : new LocalStorageGameRepository()
+      );
+    }
+
+    return this.repositoryPromise;
+  }
+
+  async getAppData(): Promise<AppData> {
+    return (await this.getRepository()).getAppData();
+  }
+
+  async getGames(): Promise<Game[]> {
+    return (await this.getRepository()).getGames();
+  }
+
+  async getDeletedGames(): Promise<Game[]> {
+    return (await this.getRepository()).getDeletedGames();
+  }
+
+  async getGameById(id: string): Promise<Game | undefined> {
+    return (await this.getRepository()).getGameById(id);
+  }
+
+  async getRecentPlayers(limit?: number): Promise<RecentPlayer[]> {
+    return (await this.getRepository()).getRecentPlayers(limit);
+  }
+
+  async createGame(input: CreateGameInput): Promise<Game> {
+    return (await this.getRepository()).createGame(input);
+  }
+
+  async addRound(gameId: string, input: RoundInput, options?: MutationOptions): Promise<Game> {
+    return (await this.getRepository()).addRound(gameId, input, options);
+  }
+
+  async setPodridaBets(
+    gameId: string,
+    input: PodridaBetsInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    return (await this.getRepository()).setPodridaBets(gameId, input, options);
+  }
+
+  async addPodridaRound(
+    gameId: string,
+    input: PodridaRoundInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    return (await this.getRepository()).addPodridaRound(gameId, input, options);
+  }
+
+  async addPlayoff(gameId: string, input: PlayoffInput, options?: MutationOptions): Promise<Game> {
+    return (await this.getRepository()).addPlayoff(gameId, input, options);
+  }
+
+  async updateRound(
+    gameId: string,
+    roundId: string,
+    input: RoundInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    return (await this.getRepository()).updateRound(gameId, roundId, input, options);
+  }
+
+  async deleteRound(gameId: string, roundId: string, options?: MutationOptions): Promise<Game> {
+    return (await this.getRepository()).deleteRound(gameId, roundId, options);
+  }
+
+  async deleteGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return (await this.getRepository()).deleteGame(gameId, options);
+  }
+
+  async restoreGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return (await this.getRepository()).restoreGame(gameId, options);
+  }
+
+  async purgeGame(gameId: string, options?: MutationOptions): Promise<void> {
+    return (await this.getRepository()).purgeGame(gameId, options);
+  }
+
+  async purgeExpiredGames(retentionDays: number): Promise<number> {
+    return (await this.getRepository()).purgeExpiredGames(retentionDays);
+  }
+
+  async finishGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return (await this.getRepository()).finishGame(gameId, options);
+  }
+
+  async reopenGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return (await this.getRepository()).reopenGame(gameId, options);
+  }
+
+  async archiveGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return (await this.getRepository()).archiveGame(gameId, options);
+  }
+
+  async importAppData(data: AppData, strategy: ImportStrategy): Promise<AppData> {
+    return (await this.getRepository()).importAppData(data, strategy);
+  }
+
+  subscribe(listener: RepositoryChangeListener): () => void {
+    let unsubscribe: (() => void) | null = null;
+    let isSubscribed = true;
+
+    void this.getRepository().then((repository) => {
+      if (isSubscribed) {
+        unsubscribe = repository.subscribe(listener);
+      }
+    });
+
+    return () => {
+      isSubscribed = false;
+      unsubscribe?.();
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import { RepositoryChangeListener } from '@/lib/storage/repository';
+import { createId } from '@/lib/utils/id';
+
+interface ChangeMessage {
+  sourceId: string;
+}
+
+// Tells other tabs and windows of the same origin that persisted data changed.
+// Uses BroadcastChannel when available and falls back to localStorage `storage` events.
+export class ChangeNotifier {
+  private channel: BroadcastChannel | null = null;
+  private readonly sourceId = createId('tab');
+
+  constructor(private readonly channelName: string) {}
+
+  private get pingKey(): string {
+    return `${this.channelName}:ping`;
+  }
+
+  private getChannel(): BroadcastChannel | null {
+    if (typeof window === 'undefined' || typeof window.BroadcastChannel === 'undefined') {
+      return null;
+    }
+
+    if (!this.channel) {
+      this.channel = new BroadcastChannel(this.channelName);
+    }
+
+    return this.channel;
+  }
+
+  notify(): void {
+    const channel = this.getChannel();
+
+    if (channel) {
+      const message: ChangeMessage = { sourceId: this.sourceId };
+      channel.postMessage(message);
+      return;
+    }
+
+    if (typeof window !== 'undefined') {
+      try {
+        window.localStorage.setItem(this.pingKey, String(Date.now()));
+      } catch {
+        // Ignore storage errors (private mode, quota, etc).
+      }
+    }
+  }
+
+  subscribe(listener: RepositoryChangeListener): () => void {
+    if (typeof window === 'undefined') {
+      return () => undefined;
+    }
+
+    if (typeof window.BroadcastChannel !== 'undefined') {
+      const channel = new BroadcastChannel(this.channelName);
+
+      // Same-tab channels also receive the message, so skip changes this tab made itself.
+      channel.onmessage = (event: MessageEvent<ChangeMessage>) => {
+        if (event.data?.sourceId !== this.sourceId) {
+          listener();
+        }
+      };
+
+      return () => channel.close();
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === this.pingKey) {
+        listener();
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+}
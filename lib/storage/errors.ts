@@ -0,0 +1,26 @@
+import { Game } from '@/lib/types';
+
+export class GameConflictError extends Error {
+  readonly latestGame: Game;
+
+  constructor(latestGame: Game) {
+    super('La partida cambió en otra pestaña o dispositivo. Se cargó la versión más reciente.');
+    this.name = 'GameConflictError';
+    this.latestGame = latestGame;
+  }
+}
+
+export class GameNotFoundError extends Error {
+  constructor() {
+    super('No se encontró la partida.');
+    this.name = 'GameNotFoundError';
+  }
+}
+
+// Thrown when the game rules reject an input; the message is meant for the user.
+export class GameValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GameValidationError';
+  }
+}
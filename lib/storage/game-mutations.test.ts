@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addRoundToGame,
+  createGameRecord,
+  reopenGameRecord,
+  updateRoundInGame
+} from '@/lib/storage/game-mutations';
+import { EndCondition, Game } from '@/lib/types';
+
+function createGame(endCondition: EndCondition): Game {
+  return createGameRecord({ players: [{ name: 'Ana' }, { name: 'Beto' }], endCondition });
+}
+
+function addScores(game: Game, values: number[]): Game {
+  const [ana, beto] = game.players;
+  return addRoundToGame(game, {
+    mode: 'add',
+    valuesByPlayerId: { [ana.id]: values[0], [beto.id]: values[1] }
+  });
+}
+
+describe('auto-finish', () => {
+  it('stays open while nobody reaches the target score', () => {
+    const game = addScores(createGame({ type: 'target-score', target: 50 }), [30, 49]);
+
+    expect(game.status).toBe('open');
+    expect(game.winnerIds).toBeUndefined();
+  });
+
+  it('finishes and records the winner once someone reaches the target score', () => {
+    let game = addScores(createGame({ type: 'target-score', target: 50 }), [30, 20]);
+    game = addScores(game, [25, 10]);
+
+    expect(game.status).toBe('finished');
+    expect(game.finishedAt).toBeDefined();
+    expect(game.winnerIds).toEqual([game.players[0].id]);
+  });
+
+  it('finishes after the last round of a round limit', () => {
+    let game = addScores(createGame({ type: 'round-limit', rounds: 2 }), [1, 2]);
+    expect(game.status).toBe('open');
+
+    game = addScores(game, [1, 2]);
+    expect(game.status).toBe('finished');
+    expect(game.winnerIds).toEqual([game.players[1].id]);
+  });
+
+  it('reopens without a winner and stays open after a fix that misses the target', () => {
+    const finished = addScores(createGame({ type: 'target-score', target: 50 }), [60, 10]);
+    const reopened = reopenGameRecord(finished);
+
+    expect(reopened).toMatchObject({ status: 'open', finishedAt: undefined, winnerIds: undefined });
+
+    const [ana, beto] = reopened.players;
+    const fixed = updateRoundInGame(reopened, reopened.rounds[0].id, {
+      mode: 'add',
+      valuesByPlayerId: { [ana.id]: 40, [beto.id]: 10 }
+    });
+    expect(fixed.status).toBe('open');
+
+    expect(addScores(fixed, [15, 0]).status).toBe('finished');
+  });
+});
@@ -0,0 +1,660 @@
+import { getGameRules, getGameType, getWinners, isEndConditionMet } from '@/lib/game-types';
+import {
+  toNumericRecord,
+  toScoringDirection,
+  toTeamScoring,
+  toTieBreak
+} from '@/lib/game-types/helpers';
+import {
+  CreateGameInput,
+  Game,
+  MutationOptions,
+  NewPlayerInput,
+  Player,
+  PlayoffInput,
+  PodridaBetsInput,
+  PodridaRoundInput,
+  RecentPlayer,
+  Round,
+  RoundInput,
+  Team
+} from '@/lib/types';
+import { createId } from '@/lib/utils/id';
+import {
+  getCurrentDealer,
+  getForbiddenDealerBet,
+  getNextPodridaCards,
+  getPodridaRoundScore,
+  getPodridaSettings,
+  getSuspectPodridaTricks,
+  getTieBreakPolicy,
+  getTiedCompetitorIds
+} from '@/lib/utils/game';
+import { DAY_IN_MS } from '@/lib/utils/trash';
+import { GameConflictError, GameValidationError } from '@/lib/storage/errors';
+
+// Storage-agnostic game rules shared by every GameRepository implementation.
+
+const RECENT_LIMIT = 20;
+
+function normalizeName(value: string): string {
+  return value.trim().replace(/\s+/g, ' ');
+}
+
+function toPlayers(inputPlayers: NewPlayerInput[]): Player[] {
+  const seenNames = new Set<string>();
+  const players: Player[] = [];
+
+  for (const input of inputPlayers) {
+    const name = normalizeName(input.name);
+
+    if (!name) {
+      continue;
+    }
+
+    const lowerName = name.toLowerCase();
+
+    if (seenNames.has(lowerName)) {
+      continue;
+    }
+
+    seenNames.add(lowerName);
+    players.push({
+      id: createId('player'),
+      name,
+      color: input.color || undefined
+    });
+  }
+
+  return players;
+}
+
+function assertNotDeleted(game: Game): void {
+  if (game.deletedAt) {
+    throw new GameValidationError('La partida está en la papelera.');
+  }
+}
+
+function assertOpen(game: Game): void {
+  assertNotDeleted(game);
+
+  if (game.status === 'finished') {
+    throw new GameValidationError('La partida está finalizada.');
+  }
+
+  if (game.status === 'archived') {
+    throw new GameValidationError('La partida está archivada.');
+  }
+}
+
+export function assertExpectedRevision(game: Game, options?: MutationOptions): void {
+  if (options?.expectedRevision !== undefined && options.expectedRevision !== game.revision) {
+    throw new GameConflictError(game);
+  }
+}
+
+export function applyGameMutation(
+  game: Game,
+  mutate: (game: Game) => Game,
+  options?: MutationOptions
+): Game {
+  assertExpectedRevision(game, options);
+
+  const updatedGame = mutate(game);
+
+  if (updatedGame === game) {
+    return game;
+  }
+
+  return {
+    ...updatedGame,
+    revision: game.revision + 1
+  };
+}
+
+export function sortGames(games: Game[]): Game[] {
+  return [...games].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getActiveGames(games: Game[]): Game[] {
+  return sortGames(games.filter((game) => !game.deletedAt));
+}
+
+export function getDeletedGames(games: Game[]): Game[] {
+  return games
+    .filter((game) => game.deletedAt)
+    .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+}
+
+export function isGameExpired(game: Game, retentionDays: number, now = new Date()): boolean {
+  if (!game.deletedAt) {
+    return false;
+  }
+
+  const expiresAt = new Date(game.deletedAt).getTime() + retentionDays * DAY_IN_MS;
+  return expiresAt <= now.getTime();
+}
+
+export function sortRecentPlayers(recentPlayers: RecentPlayer[], limit?: number): RecentPlayer[] {
+  return [...recentPlayers]
+    .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+    .slice(0, limit);
+}
+
+export function upsertRecentPlayers(existing: RecentPlayer[], players: Player[]): RecentPlayer[] {
+  const map = new Map(existing.map((player) => [player.name.toLowerCase(), player]));
+  const now = new Date().toISOString();
+
+  for (const player of players) {
+    const key = player.name.toLowerCase();
+    const previous = map.get(key);
+
+    map.set(key, {
+      id: previous?.id ?? createId('recent_player'),
+      name: player.name,
+      color: player.color,
+      lastUsedAt: now
+    });
+  }
+
+  return sortRecentPlayers([...map.values()], RECENT_LIMIT);
+}
+
+export function mergeRecentPlayers(
+  existing: RecentPlayer[],
+  incoming: RecentPlayer[]
+): RecentPlayer[] {
+  const map = new Map(existing.map((player) => [player.name.toLowerCase(), player]));
+
+  for (const player of incoming) {
+    const key = player.name.toLowerCase();
+    const previous = map.get(key);
+
+    if (!previous || previous.lastUsedAt.localeCompare(player.lastUsedAt) < 0) {
+      map.set(key, previous ? { ...player, id: previous.id } : player);
+    }
+  }
+
+  return sortRecentPlayers([...map.values()], RECENT_LIMIT);
+}
+
+function getStartingDealer(input: CreateGameInput, players: Player[]): Player {
+  const dealerInput =
+    input.startingDealerIndex === undefined ? undefined : input.players[input.startingDealerIndex];
+
+  if (input.startingDealerIndex !== undefined && !dealerInput) {
+    throw new GameValidationError('El jugador que reparte primero no está en la partida.');
+  }
+
+  const dealerName = normalizeName(dealerInput?.name ?? '').toLowerCase();
+  const dealer = players.find((player) => player.name.toLowerCase() === dealerName);
+
+  if (dealerInput && !dealer) {
+    throw new GameValidationError('El jugador que reparte primero no está en la partida.');
+  }
+
+  return dealer ?? players[0];
+}
+
+/** Builds the teams picked on the create form; every player must end up in exactly one of them. */
+function toCustomTeams(input: CreateGameInput, players: Player[]): Team[] | undefined {
+  if (!input.teams?.length) {
+    return undefined;
+  }
+
+  if (input.teams.length < 2) {
+    throw new GameValidationError('Debes armar al menos 2 equipos.');
+  }
+
+  const teams: Team[] = input.teams.map((team, index) => ({
+    id: createId('team'),
+    name: normalizeName(team.name) || `Equipo ${index + 1}`,
+    color: team.color || undefined,
+    playerIds: []
+  }));
+
+  if (new Set(teams.map((team) => team.name.toLowerCase())).size < teams.length) {
+    throw new GameValidationError('Los equipos deben tener nombres distintos.');
+  }
+
+  const playersByName = new Map(players.map((player) => [player.name.toLowerCase(), player]));
+  const assignedIds = new Set<string>();
+
+  for (const playerInput of input.players) {
+    const player = playersByName.get(normalizeName(playerInput.name).toLowerCase());
+
+    // Blank rows and repeated names were dropped from `players`.
+    if (!player || assignedIds.has(player.id)) {
+      continue;
+    }
+
+    const team = playerInput.teamIndex === undefined ? undefined : teams[playerInput.teamIndex];
+
+    if (!team) {
+      throw new GameValidationError(`Elige el equipo de ${player.name}.`);
+    }
+
+    team.playerIds.push(player.id);
+    assignedIds.add(player.id);
+  }
+
+  const emptyTeam = teams.find((team) => team.playerIds.length === 0);
+
+  if (emptyTeam) {
+    throw new GameValidationError(`El equipo ${emptyTeam.name} no tiene jugadores.`);
+  }
+
+  return teams;
+}
+
+export function createGameRecord(input: CreateGameInput): Game {
+  const players = toPlayers(input.players);
+
+  if (players.length < 2) {
+    throw new GameValidationError('Debes ingresar al menos 2 jugadores.');
+  }
+
+  const rules = getGameRules(input.type);
+  const teams = rules.customTeams ? toCustomTeams(input, players) : undefined;
+  const setup = rules.setupGame(input, players);
+  const now = new Date().toISOString();
+
+  return {
+    id: createId('game'),
+    name: input.name?.trim() || undefined,
+    type: rules.type,
+    players,
+    seatingOrder: players.map((player) => player.id),
+    startingDealerId: getStartingDealer(input, players).id,
+    scoringDirection: rules.scoringDirection ?? toScoringDirection(input.scoringDirection),
+    teams,
+    teamScoring: teams ? toTeamScoring(input.teamScoring) : undefined,
+    tieBreak: toTieBreak(input.tieBreak, rules),
+    rounds: [],
+    status: 'open',
+    createdAt: now,
+    updatedAt: now,
+    revision: 0,
+    ...setup
+  };
+}
+
+export function addRoundToGame(game: Game, input: RoundInput): Game {
+  assertOpen(game);
+
+  const rules = getGameRules(game);
+  const scoredRound = rules.scoreRound(game, input);
+  const now = new Date().toISOString();
+  const round: Round = {
+    id: createId('round'),
+    createdAt: now,
+    type: rules.type,
+    dealerId: getCurrentDealer(game)?.id,
+    ...scoredRound
+  };
+
+  return finishIfEndConditionMet({
+    ...game,
+    rounds: [...game.rounds, round],
+    updatedAt: now
+  });
+}
+
+export function setPodridaBetsOnGame(game: Game, input: PodridaBetsInput): Game {
+  assertOpen(game);
+
+  if (getGameType(game) !== 'podrida') {
+    throw new GameValidationError('Solo las partidas de Podrida permiten apuestas por ronda.');
+  }
+
+  const nextCardsCount = getNextPodridaCards(game);
+
+  if (nextCardsCount === null) {
+    throw new GameValidationError('La secuencia de Podrida ya está completa.');
+  }
+
+  const betsByPlayerId: Record<string, number> = {};
+
+  for (const player of game.players) {
+    const betValue = Number(input.betsByPlayerId[player.id]);
+
+    if (!Number.isFinite(betValue) || !Number.isInteger(betValue)) {
+      throw new GameValidationError(`Debes ingresar una apuesta entera para ${player.name}.`);
+    }
+
+    if (betValue < 0) {
+      throw new GameValidationError(`La apuesta de ${player.name} no puede ser negativa.`);
+    }
+
+    if (betValue > nextCardsCount) {
+      throw new GameValidationError(
+        `La apuesta de ${player.name} no puede superar las ${nextCardsCount} cartas repartidas.`
+      );
+    }
+
+    betsByPlayerId[player.id] = betValue;
+  }
+
+  const dealer = getCurrentDealer(game);
+  const forbiddenDealerBet = getForbiddenDealerBet(game, betsByPlayerId);
+
+  if (dealer && forbiddenDealerBet !== null && betsByPlayerId[dealer.id] === forbiddenDealerBet) {
+    throw new GameValidationError(
+      `${dealer.name} reparte y no puede apostar ${forbiddenDealerBet}: la suma de apuestas no puede ser igual a las ${nextCardsCount} cartas.`
+    );
+  }
+
+  return {
+    ...game,
+    updatedAt: new Date().toISOString(),
+    podridaState: {
+      pendingBetsByPlayerId: betsByPlayerId
+    }
+  };
+}
+
+function assertTricksMatchCards(
+  game: Game,
+  cardsCount: number,
+  betsByPlayerId: Record<string, number>,
+  tricksByPlayerId: Record<string, number>
+): void {
+  const tricksTotal = Object.values(tricksByPlayerId).reduce((sum, value) => sum + value, 0);
+
+  if (tricksTotal === cardsCount) {
+    return;
+  }
+
+  const suspectPlayerIds = getSuspectPodridaTricks(cardsCount, betsByPlayerId, tricksByPlayerId);
+  const suspectNames = game.players
+    .filter((player) => suspectPlayerIds.includes(player.id))
+    .map((player) => player.name);
+
+  throw new GameValidationError(
+    `Las bazas suman ${tricksTotal} y se repartieron ${cardsCount} cartas.` +
+      (suspectNames.length > 0 ? ` Revisa: ${suspectNames.join(', ')}.` : '') +
+      ' Si la regla de la casa lo permite, usa "Guardar igual".'
+  );
+}
+
+export function addPodridaRoundToGame(game: Game, input: PodridaRoundInput): Game {
+  assertOpen(game);
+
+  if (getGameType(game) !== 'podrida') {
+    throw new GameValidationError('Solo las partidas de Podrida usan este flujo de ronda.');
+  }
+
+  const nextCardsCount = getNextPodridaCards(game);
+
+  if (nextCardsCount === null) {
+    throw new GameValidationError('La secuencia de Podrida ya está completa.');
+  }
+
+  const pendingBetsByPlayerId = game.podridaState?.pendingBetsByPlayerId ?? {};
+  const settings = getPodridaSettings(game);
+  const scoreFromTricks = input.tricksByPlayerId !== undefined;
+  const entries: Round['entries'] = [];
+  const betsByPlayerId: Record<string, number> = {};
+  const tricksByPlayerId: Record<string, number> = {};
+
+  for (const player of game.players) {
+    const betValue = Number(pendingBetsByPlayerId[player.id]);
+
+    if (!Number.isFinite(betValue) || !Number.isInteger(betValue)) {
+      throw new GameValidationError(`Debes guardar primero la apuesta de ${player.name}.`);
+    }
+
+    betsByPlayerId[player.id] = betValue;
+
+    if (scoreFromTricks) {
+      const tricks = Number(input.tricksByPlayerId?.[player.id]);
+
+      if (!Number.isInteger(tricks) || tricks < 0) {
+        throw new GameValidationError(`Debes ingresar las bazas de ${player.name}.`);
+      }
+
+      if (tricks > nextCardsCount) {
+        throw new GameValidationError(
+          `${player.name} no puede ganar más bazas que las ${nextCardsCount} cartas repartidas.`
+        );
+      }
+
+      tricksByPlayerId[player.id] = tricks;
+      entries.push({
+        playerId: player.id,
+        value: getPodridaRoundScore(betValue, tricks, settings)
+      });
+      continue;
+    }
+
+    const totalValue = Number(input.totalsByPlayerId?.[player.id]);
+
+    if (!Number.isFinite(totalValue)) {
+      throw new GameValidationError(`Debes ingresar el total acumulado de ${player.name}.`);
+    }
+
+    entries.push({
+      playerId: player.id,
+      value: totalValue
+    });
+  }
+
+  if (scoreFromTricks && !input.force) {
+    assertTricksMatchCards(game, nextCardsCount, betsByPlayerId, tricksByPlayerId);
+  }
+
+  const now = new Date().toISOString();
+  const round: Round = {
+    id: createId('round'),
+    createdAt: now,
+    type: 'podrida',
+    mode: scoreFromTricks ? 'add' : 'set',
+    cardsCount: nextCardsCount,
+    betsByPlayerId,
+    tricksByPlayerId: scoreFromTricks ? tricksByPlayerId : undefined,
+    dealerId: getCurrentDealer(game)?.id,
+    entries
+  };
+
+  return finishIfEndConditionMet({
+    ...game,
+    rounds: [...game.rounds, round],
+    updatedAt: now,
+    podridaState: {
+      pendingBetsByPlayerId: {}
+    }
+  });
+}
+
+export function updateRoundInGame(game: Game, roundId: string, input: RoundInput): Game {
+  assertOpen(game);
+
+  const roundIndex = game.rounds.findIndex((round) => round.id === roundId);
+
+  if (roundIndex < 0) {
+    throw new GameValidationError('No se encontró la ronda.');
+  }
+
+  const round = game.rounds[roundIndex];
+  const rounds = [...game.rounds];
+  rounds[roundIndex] = {
+    ...round,
+    ...getGameRules(round.type).scoreRound(game, input, round)
+  };
+
+  return finishIfEndConditionMet({
+    ...game,
+    rounds,
+    updatedAt: new Date().toISOString()
+  });
+}
+
+export function deleteRoundFromGame(game: Game, roundId: string): Game {
+  assertOpen(game);
+
+  const round = game.rounds.find((currentRound) => currentRound.id === roundId);
+
+  if (!round) {
+    throw new GameValidationError('No se encontró la ronda.');
+  }
+
+  const podridaRounds = game.rounds.filter((currentRound) => currentRound.type === 'podrida');
+
+  // Podrida cards follow the round position, so removing a middle round would shift them.
+  if (round.type === 'podrida' && podridaRounds[podridaRounds.length - 1]?.id !== roundId) {
+    throw new GameValidationError('En Podrida solo se puede borrar la última ronda.');
+  }
+
+  return {
+    ...game,
+    rounds: game.rounds.filter((currentRound) => currentRound.id !== roundId),
+    updatedAt: new Date().toISOString(),
+    podridaState:
+      round.type === 'podrida'
+        ? {
+            pendingBetsByPlayerId: {}
+          }
+        : game.podridaState
+  };
+}
+
+/** Playoffs only reorder tied players, so they can be recorded after the game finishes too. */
+export function addPlayoffToGame(game: Game, input: PlayoffInput): Game {
+  assertNotDeleted(game);
+
+  if (game.status === 'archived') {
+    throw new GameValidationError('La partida está archivada.');
+  }
+
+  if (getTieBreakPolicy(game) !== 'playoff') {
+    throw new GameValidationError('Esta partida no desempata con una ronda extra.');
+  }
+
+  const tiedIds = getTiedCompetitorIds(game);
+
+  if (tiedIds.length === 0) {
+    throw new GameValidationError('No hay empates para desempatar.');
+  }
+
+  const scores = toNumericRecord(input.scoresById);
+  const namesById = new Map(
+    [...game.players, ...(game.teams ?? [])].map((competitor) => [competitor.id, competitor.name])
+  );
+  const scoresById: Record<string, number> = {};
+
+  for (const id of tiedIds) {
+    if (!(id in scores)) {
+      throw new GameValidationError(`Ingresa el puntaje de desempate de ${namesById.get(id)}.`);
+    }
+
+    scoresById[id] = scores[id];
+  }
+
+  const now = new Date().toISOString();
+  const updatedGame: Game = {
+    ...game,
+    playoffs: [...(game.playoffs ?? []), { id: createId('playoff'), createdAt: now, scoresById }],
+    updatedAt: now
+  };
+
+  if (updatedGame.status !== 'finished') {
+    return updatedGame;
+  }
+
+  return {
+    ...updatedGame,
+    winnerIds: getWinners(updatedGame).map((player) => player.id)
+  };
+}
+
+export function finishGameRecord(game: Game): Game {
+  assertNotDeleted(game);
+
+  if (game.status !== 'open') {
+    return game;
+  }
+
+  const now = new Date().toISOString();
+
+  return {
+    ...game,
+    status: 'finished',
+    finishedAt: now,
+    winnerIds: getWinners(game).map((player) => player.id),
+    updatedAt: now
+  };
+}
+
+function finishIfEndConditionMet(game: Game): Game {
+  return isEndConditionMet(game) ? finishGameRecord(game) : game;
+}
+
+export function reopenGameRecord(game: Game): Game {
+  assertNotDeleted(game);
+
+  if (game.status === 'open') {
+    return game;
+  }
+
+  return {
+    ...game,
+    status: 'open',
+    finishedAt: undefined,
+    winnerIds: undefined,
+    archivedAt: undefined,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+export function archiveGameRecord(game: Game): Game {
+  assertNotDeleted(game);
+
+  if (game.status === 'archived') {
+    return game;
+  }
+
+  if (game.status === 'open') {
+    throw new GameValidationError('Termina la partida antes de archivarla.');
+  }
+
+  const now = new Date().toISOString();
+
+  return {
+    ...game,
+    status: 'archived',
+    archivedAt: now,
+    updatedAt: now
+  };
+}
+
+export function moveGameToTrash(game: Game): Game {
+  if (game.deletedAt) {
+    return game;
+  }
+
+  const now = new Date().toISOString();
+
+  return {
+    ...game,
+    deletedAt: now,
+    updatedAt: now
+  };
+}
+
+export function restoreGameRecord(game: Game): Game {
+  if (!game.deletedAt) {
+    return game;
+  }
+
+  return {
+    ...game,
+    deletedAt: undefined,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+export function assertGameCanBePurged(game: Game): void {
+  if (!game.deletedAt) {
+    throw new GameValidationError('Solo se pueden eliminar definitivamente partidas de la papelera.');
+  }
+}
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, expect, it, vi } from 'vitest';
+import * as gameArchiveRoute from '@/app/api/games/[id]/archive/route';
+import * as gameFinishRoute from '@/app/api/games/[id]/finish/route';
+import * as gamePlayoffsRoute from '@/app/api/games/[id]/playoffs/route';
+import * as gamePodridaBetsRoute from '@/app/api/games/[id]/podrida-bets/route';
+import * as gamePodridaRoundsRoute from '@/app/api/games/[id]/podrida-rounds/route';
+import * as gamePurgeRoute from '@/app/api/games/[id]/purge/route';
+import * as gameReopenRoute from '@/app/api/games/[id]/reopen/route';
+import * as gameRestoreRoute from '@/app/api/games/[id]/restore/route';
+import * as gameRoundRoute from '@/app/api/games/[id]/rounds/[roundId]/route';
+import * as gameRoundsRoute from '@/app/api/games/[id]/rounds/route';
+import * as gameRoute from '@/app/api/games/[id]/route';
+import * as dataRoute from '@/app/api/games/data/route';
+import * as recentPlayersRoute from '@/app/api/games/recent-players/route';
+import * as gamesRoute from '@/app/api/games/route';
+import * as purgeExpiredRoute from '@/app/api/games/trash/purge-expired/route';
+import * as trashRoute from '@/app/api/games/trash/route';
+import { MemoryGameStore } from '@/lib/server/memory-game-store';
+import { ServerGameRepository } from '@/lib/server/server-game-repository';
+import { GameValidationError } from '@/lib/storage/errors';
+import { HttpGameRepository } from '@/lib/storage/http-repository';
+import { GameRepository } from '@/lib/storage/repository';
+import { describeGameRepositoryContract } from '@/lib/storage/repository.contract';
+import { RoundInput } from '@/lib/types';
+
+const server = vi.hoisted(() => ({ repository: null as unknown }));
+
+vi.mock('@/lib/server', () => ({
+  getServerGameRepository: () => server.repository
+}));
+
+type RouteHandler = (
+  request: Request,
+  context: { params: Promise<Record<string, string>> }
+) => Promise<Response>;
+
+// Same layout as `app/api/games`; static segments come before `[id]`.
+const ROUTES: [RegExp, Record<string, unknown>][] = [
+  [/^\/api\/games$/, gamesRoute],
+  [/^\/api\/games\/data$/, dataRoute],
+  [/^\/api\/games\/recent-players$/, recentPlayersRoute],
+  [/^\/api\/games\/trash$/, trashRoute],
+  [/^\/api\/games\/trash\/purge-expired$/, purgeExpiredRoute],
+  [/^\/api\/games\/(?<id>[^/]+)$/, gameRoute],
+  [/^\/api\/games\/(?<id>[^/]+)\/archive$/, gameArchiveRoute],
+  [/^\/api\/games\/(?<id>[^/]+)\/finish$/, gameFinishRoute],
+  [/^\/api\/games\/(?<id>[^/]+)\/playoffs$/, gamePlayoffsRoute],
+  [/^\/api\/games\/(?<id>[^/]+)\/podrida-bets$/, gamePodridaBetsRoute],
+  [/^\/api\/games\/(?<id>[^/]+)\/podrida-rounds$/, gamePodridaRoundsRoute],
+  [/^\/api\/games\/(?<id>[^/]+)\/purge$/, gamePurgeRoute],
+  [/^\/api\/games\/(?<id>[^/]+)\/reopen$/, gameReopenRoute],
+  [/^\/api\/games\/(?<id>[^/]+)\/restore$/, gameRestoreRoute],
+  [/^\/api\/games\/(?<id>[^/]+)\/rounds$/, gameRoundsRoute],
+  [/^\/api\/games\/(?<id>[^/]+)\/rounds\/(?<roundId>[^/]+)$/, gameRoundRoute]
+];
+
+// Calls the exported route handler the way Next.js would, without starting a server.
+async function callRoute(input: string, init: RequestInit = {}): Promise<Response> {
+  const url = new URL(input, 'http://localhost');
+  const method = init.method ?? 'GET';
+
+  for (const [pattern, route] of ROUTES) {
+    const match = pattern.exec(url.pathname);
+
+    if (!match) {
+      continue;
+    }
+
+    const handler = route[method] as RouteHandler | undefined;
+
+    if (!handler) {
+      return new Response(null, { status: 405 });
+    }
+
+    const params: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(match.groups ?? {})) {
+      params[key] = decodeURIComponent(value);
+    }
+
+    const request = new Request(url, { method, headers: init.headers, body: init.body });
+    return handler(request, { params: Promise.resolve(params) });
+  }
+
+  return new Response(null, { status: 404 });
+}
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', vi.fn(callRoute));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describeGameRepositoryContract(
+  'HttpGameRepository',
+  () => {
+    server.repository = new ServerGameRepository(new MemoryGameStore());
+    return new HttpGameRepository();
+  },
+  { hasSharedTrashRetention: true }
+);
+
+it('HttpGameRepository leaves the trash retention to the server', async () => {
+  server.repository = new ServerGameRepository(new MemoryGameStore());
+  const repository: GameRepository = new HttpGameRepository();
+  const game = await repository.createGame({ players: [{ name: 'Ana' }, { name: 'Beto' }] });
+  await repository.deleteGame(game.id);
+
+  expect(await repository.purgeExpiredGames(0)).toBe(0);
+  expect(await repository.getDeletedGames()).toHaveLength(1);
+});
+
+it('HttpGameRepository gets a 400 for a malformed body without a server error', async () => {
+  server.repository = new ServerGameRepository(new MemoryGameStore());
+  const repository = new HttpGameRepository();
+  const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  const game = await repository.createGame({ players: [{ name: 'Ana' }, { name: 'Beto' }] });
+
+  await expect(repository.addRound(game.id, {} as RoundInput)).rejects.toBeInstanceOf(
+    GameValidationError
+  );
+  expect(consoleError).not.toHaveBeenCalled();
+});
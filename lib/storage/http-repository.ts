@@ -0,0 +1,220 @@
+import {
+  AppData,
+  CreateGameInput,
+  Game,
+  ImportStrategy,
+  MutationOptions,
+  PlayoffInput,
+  PodridaBetsInput,
+  PodridaRoundInput,
+  RecentPlayer,
+  RoundInput
+} from '@/lib/types';
+import {
+  ApiErrorBody,
+  EXPECTED_REVISION_PARAM,
+  GAMES_API_PATH,
+  ImportRequestBody,
+  MutationRequestBody,
+  OptionsRequestBody,
+  PurgeExpiredResponseBody
+} from '@/lib/storage/api-contract';
+import { createBackup } from '@/lib/storage/backup';
+import { ChangeNotifier } from '@/lib/storage/change-notifier';
+import { GameConflictError, GameNotFoundError, GameValidationError } from '@/lib/storage/errors';
+import { GameRepository, RepositoryChangeListener } from '@/lib/storage/repository';
+
+const CHANGES_CHANNEL = 'scores-recorder:http-changes';
+
+function gamePath(gameId: string, suffix = ''): string {
+  return `${GAMES_API_PATH}/${encodeURIComponent(gameId)}${suffix}`;
+}
+
+function withRevision(path: string, options?: MutationOptions): string {
+  if (options?.expectedRevision === undefined) {
+    return path;
+  }
+
+  return `${path}?${EXPECTED_REVISION_PARAM}=${options.expectedRevision}`;
+}
+
+async function toRequestError(response: Response): Promise<Error> {
+  const body = (await response.json().catch(() => null)) as ApiErrorBody | null;
+
+  if (response.status === 409 && body?.latestGame) {
+    return new GameConflictError(body.latestGame);
+  }
+
+  if (response.status === 404) {
+    return new GameNotFoundError();
+  }
+
+  if (response.status === 400 && body?.error) {
+    return new GameValidationError(body.error);
+  }
+
+  return new Error(body?.error || 'No se pudo comunicar con el servidor.');
+}
+
+export class HttpGameRepository implements GameRepository {
+  private readonly notifier = new ChangeNotifier(CHANGES_CHANNEL);
+
+  constructor(private readonly baseUrl = '') {}
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  private async send<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const result = await this.request<T>(path, {
+      method,
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    this.notifier.notify();
+    return result;
+  }
+
+  async getAppData(): Promise<AppData> {
+    return this.request<AppData>(`${GAMES_API_PATH}/data`);
+  }
+
+  async getGames(): Promise<Game[]> {
+    return this.request<Game[]>(GAMES_API_PATH);
+  }
+
+  async getDeletedGames(): Promise<Game[]> {
+    return this.request<Game[]>(`${GAMES_API_PATH}/trash`);
+  }
+
+  async getGameById(id: string): Promise<Game | undefined> {
+    try {
+      return await this.request<Game>(gamePath(id));
+    } catch (cause) {
+      if (cause instanceof GameNotFoundError) {
+        return undefined;
+      }
+
+      throw cause;
+    }
+  }
+
+  async getRecentPlayers(limit = 8): Promise<RecentPlayer[]> {
+    return this.request<RecentPlayer[]>(`${GAMES_API_PATH}/recent-players?limit=${limit}`);
+  }
+
+  async createGame(input: CreateGameInput): Promise<Game> {
+    return this.send<Game>('POST', GAMES_API_PATH, input);
+  }
+
+  async addRound(gameId: string, input: RoundInput, options?: MutationOptions): Promise<Game> {
+    const body: MutationRequestBody<RoundInput> = { input, options };
+    return this.send<Game>('POST', gamePath(gameId, '/rounds'), body);
+  }
+
+  async setPodridaBets(
+    gameId: string,
+    input: PodridaBetsInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    const body: MutationRequestBody<PodridaBetsInput> = { input, options };
+    return this.send<Game>('PUT', gamePath(gameId, '/podrida-bets'), body);
+  }
+
+  async addPodridaRound(
+    gameId: string,
+    input: PodridaRoundInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    const body: MutationRequestBody<PodridaRoundInput> = { input, options };
+    return this.send<Game>('POST', gamePath(gameId, '/podrida-rounds'), body);
+  }
+
+  async addPlayoff(gameId: string, input: PlayoffInput, options?: MutationOptions): Promise<Game> {
+    const body: MutationRequestBody<PlayoffInput> = { input, options };
+    return this.send<Game>('POST', gamePath(gameId, '/playoffs'), body);
+  }
+
+  async updateRound(
+    gameId: string,
+    roundId: string,
+    input: RoundInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    const body: MutationRequestBody<RoundInput> = { input, options };
+    return this.send<Game>(
+      'PATCH',
+      gamePath(gameId, `/rounds/${encodeURIComponent(roundId)}`),
+      body
+    );
+  }
+
+  async deleteRound(gameId: string, roundId: string, options?: MutationOptions): Promise<Game> {
+    return this.send<Game>(
+      'DELETE',
+      withRevision(gamePath(gameId, `/rounds/${encodeURIComponent(roundId)}`), options)
+    );
+  }
+
+  async deleteGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return this.send<Game>('DELETE', withRevision(gamePath(gameId), options));
+  }
+
+  async restoreGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    const body: OptionsRequestBody = { options };
+    return this.send<Game>('POST', gamePath(gameId, '/restore'), body);
+  }
+
+  async purgeGame(gameId: string, options?: MutationOptions): Promise<void> {
+    const body: OptionsRequestBody = { options };
+    await this.send<null>('POST', gamePath(gameId, '/purge'), body);
+  }
+
+  // The server applies its own retention, so `retentionDays` isn't sent.
+  async purgeExpiredGames(): Promise<number> {
+    const { purgedCount } = await this.request<PurgeExpiredResponseBody>(
+      `${GAMES_API_PATH}/trash/purge-expired`,
+      { method: 'POST' }
+    );
+
+    if (purgedCount > 0) {
+      this.notifier.notify();
+    }
+
+    return purgedCount;
+  }
+
+  async finishGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    const body: OptionsRequestBody = { options };
+    return this.send<Game>('POST', gamePath(gameId, '/finish'), body);
+  }
+
+  async reopenGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    const body: OptionsRequestBody = { options };
+    return this.send<Game>('POST', gamePath(gameId, '/reopen'), body);
+  }
+
+  async archiveGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    const body: OptionsRequestBody = { options };
+    return this.send<Game>('POST', gamePath(gameId, '/archive'), body);
+  }
+
+  async importAppData(data: AppData, strategy: ImportStrategy): Promise<AppData> {
+    const body: ImportRequestBody = { backup: createBackup(data), strategy };
+    return this.send<AppData>('POST', `${GAMES_API_PATH}/data`, body);
+  }
+
+  subscribe(listener: RepositoryChangeListener): () => void {
+    return this.notifier.subscribe(listener);
+  }
+}
@@ -1,12 +1,22 @@
-import { LocalStorageGameRepository } from '@/lib/storage/local-storage-repository';
+import { BrowserGameRepository } from '@/lib/storage/browser-repository';
+import { HttpGameRepository } from '@/lib/storage/http-repository';
 import { GameRepository } from '@/lib/storage/repository';
 
+type StorageDriver = 'browser' | 'http';
+
+// `NEXT_PUBLIC_*` values are inlined at build time, so this must be read with a literal key.
+const STORAGE_DRIVER: StorageDriver =
+  process.env.NEXT_PUBLIC_STORAGE_DRIVER === 'http' ? 'http' : 'browser';
+
 let repository: GameRepository | null = null;
 
 export function getGameRepository(): GameRepository {
   if (!repository) {
-    // Future-friendly switch point: replace this with cloud repository when needed.
-    repository = new LocalStorageGameRepository();
+    if (STORAGE_DRIVER === 'http') {
+      repository = new HttpGameRepository(process.env.NEXT_PUBLIC_API_BASE_URL ?? '');
+    } else {
+      repository = new BrowserGameRepository();
+    }
   }
 
   return repository;
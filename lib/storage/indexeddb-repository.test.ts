@@ -0,0 +1,11 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { IndexedDBGameRepository } from '@/lib/storage/indexeddb-repository';
+import { describeGameRepositoryContract } from '@/lib/storage/repository.contract';
+
+describeGameRepositoryContract('IndexedDBGameRepository', () => {
+  window.indexedDB = new IDBFactory();
+  window.localStorage.clear();
+  return new IndexedDBGameRepository();
+});
@@ -0,0 +1,620 @@
+import {
+  AppData,
+  CreateGameInput,
+  Game,
+  ImportStrategy,
+  MutationOptions,
+  PlayoffInput,
+  PodridaBetsInput,
+  PodridaRoundInput,
+  RecentPlayer,
+  Round,
+  RoundInput
+} from '@/lib/types';
+import {
+  addPlayoffToGame,
+  addPodridaRoundToGame,
+  addRoundToGame,
+  applyGameMutation,
+  archiveGameRecord,
+  assertGameCanBePurged,
+  assertExpectedRevision,
+  createGameRecord,
+  deleteRoundFromGame,
+  finishGameRecord,
+  getActiveGames,
+  getDeletedGames,
+  isGameExpired,
+  moveGameToTrash,
+  reopenGameRecord,
+  restoreGameRecord,
+  setPodridaBetsOnGame,
+  sortGames,
+  sortRecentPlayers,
+  updateRoundInGame,
+  upsertRecentPlayers
+} from '@/lib/storage/game-mutations';
+import { readLocalStorageData } from '@/lib/storage/local-storage-repository';
+import {
+  CURRENT_SCHEMA_VERSION,
+  MigrationBackup,
+  migrateAppData,
+  needsMigration,
+  parseSchemaVersion
+} from '@/lib/storage/migrations';
+import { mergeAppData } from '@/lib/storage/backup';
+import { GameNotFoundError } from '@/lib/storage/errors';
+import { ChangeNotifier } from '@/lib/storage/change-notifier';
+import { normalizeAppData } from '@/lib/storage/normalize';
+import { GameRepository, RepositoryChangeListener } from '@/lib/storage/repository';
+
+const DATABASE_NAME = 'scores-recorder';
+const DATABASE_VERSION = 1;
+
+const GAMES_STORE = 'games';
+const ROUNDS_STORE = 'rounds';
+const RECENT_PLAYERS_STORE = 'recentPlayers';
+const META_STORE = 'meta';
+
+const ROUNDS_BY_GAME_INDEX = 'byGameId';
+const LOCAL_STORAGE_IMPORTED_KEY = 'localStorageImported';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const MIGRATION_BACKUP_KEY = 'migrationBackup';
+const CHANGES_CHANNEL = 'scores-recorder:changes';
+
+type StoredGame = Omit<Game, 'rounds'>;
+
+// Lists every field, optional ones included, so adding one to the type fails to compile until it is copied.
+type AllFields<T> = { [Key in keyof Required<T>]: T[Key] };
+
+interface StoredRound extends Round {
+  gameId: string;
+  position: number;
+}
+
+interface MetaRecord {
+  key: string;
+  value: unknown;
+}
+
+function isIndexedDBAvailable(): boolean {
+  try {
+    return typeof window !== 'undefined' && Boolean(window.indexedDB);
+  } catch {
+    return false;
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function toStoredGame(game: Game): StoredGame {
+  const storedGame: AllFields<StoredGame> = {
+    id: game.id,
+    name: game.name,
+    type: game.type,
+    players: game.players,
+    seatingOrder: game.seatingOrder,
+    startingDealerId: game.startingDealerId,
+    status: game.status,
+    createdAt: game.createdAt,
+    updatedAt: game.updatedAt,
+    finishedAt: game.finishedAt,
+    endCondition: game.endCondition,
+    scoringDirection: game.scoringDirection,
+    winnerIds: game.winnerIds,
+    tieBreak: game.tieBreak,
+    playoffs: game.playoffs,
+    archivedAt: game.archivedAt,
+    deletedAt: game.deletedAt,
+    podridaState: game.podridaState,
+    podridaSettings: game.podridaSettings,
+    teams: game.teams,
+    teamScoring: game.teamScoring,
+    trucoSettings: game.trucoSettings,
+    chinchonSettings: game.chinchonSettings,
+    burakoSettings: game.burakoSettings,
+    revision: game.revision
+  };
+
+  return storedGame;
+}
+
+function toStoredRound(gameId: string, round: Round, position: number): StoredRound {
+  return {
+    ...round,
+    gameId,
+    position
+  };
+}
+
+function fromStoredRound(storedRound: StoredRound): Round {
+  const round: AllFields<Round> = {
+    id: storedRound.id,
+    createdAt: storedRound.createdAt,
+    mode: storedRound.mode,
+    entries: storedRound.entries,
+    type: storedRound.type,
+    cardsCount: storedRound.cardsCount,
+    betsByPlayerId: storedRound.betsByPlayerId,
+    tricksByPlayerId: storedRound.tricksByPlayerId,
+    dealerId: storedRound.dealerId,
+    chinchon: storedRound.chinchon,
+    generala: storedRound.generala,
+    burako: storedRound.burako
+  };
+
+  return round;
+}
+
+function fromStoredRounds(storedRounds: StoredRound[]): Round[] {
+  return [...storedRounds].sort((a, b) => a.position - b.position).map(fromStoredRound);
+}
+
+function groupRoundsByGame(storedRounds: StoredRound[]): Map<string, StoredRound[]> {
+  const roundsByGameId = new Map<string, StoredRound[]>();
+
+  for (const storedRound of storedRounds) {
+    const gameRounds = roundsByGameId.get(storedRound.gameId) ?? [];
+    gameRounds.push(storedRound);
+    roundsByGameId.set(storedRound.gameId, gameRounds);
+  }
+
+  return roundsByGameId;
+}
+
+async function readGame(transaction: IDBTransaction, gameId: string): Promise<Game | undefined> {
+  const [storedGame, storedRounds] = await Promise.all([
+    requestToPromise<StoredGame | undefined>(transaction.objectStore(GAMES_STORE).get(gameId)),
+    requestToPromise<StoredRound[]>(
+      transaction.objectStore(ROUNDS_STORE).index(ROUNDS_BY_GAME_INDEX).getAll(gameId)
+    )
+  ]);
+
+  if (!storedGame) {
+    return undefined;
+  }
+
+  return {
+    ...storedGame,
+    rounds: fromStoredRounds(storedRounds)
+  };
+}
+
+async function readAllGames(transaction: IDBTransaction): Promise<Game[]> {
+  const [storedGames, storedRounds] = await Promise.all([
+    requestToPromise<StoredGame[]>(transaction.objectStore(GAMES_STORE).getAll()),
+    requestToPromise<StoredRound[]>(transaction.objectStore(ROUNDS_STORE).getAll())
+  ]);
+  const roundsByGameId = groupRoundsByGame(storedRounds);
+
+  return storedGames.map((storedGame) => ({
+    ...storedGame,
+    rounds: fromStoredRounds(roundsByGameId.get(storedGame.id) ?? [])
+  }));
+}
+
+function writeGame(transaction: IDBTransaction, game: Game, previous?: Game): void {
+  const roundsStore = transaction.objectStore(ROUNDS_STORE);
+  const previousRounds = previous?.rounds ?? [];
+  const nextRoundIds = new Set(game.rounds.map((round) => round.id));
+
+  transaction.objectStore(GAMES_STORE).put(toStoredGame(game));
+
+  // Only touch the rounds that actually changed instead of rewriting the whole game.
+  game.rounds.forEach((round, position) => {
+    if (previousRounds[position] !== round) {
+      roundsStore.put(toStoredRound(game.id, round, position));
+    }
+  });
+
+  for (const previousRound of previousRounds) {
+    if (!nextRoundIds.has(previousRound.id)) {
+      roundsStore.delete(previousRound.id);
+    }
+  }
+}
+
+function deleteStoredGame(transaction: IDBTransaction, game: Game): void {
+  transaction.objectStore(GAMES_STORE).delete(game.id);
+
+  for (const round of game.rounds) {
+    transaction.objectStore(ROUNDS_STORE).delete(round.id);
+  }
+}
+
+function writeRecentPlayers(transaction: IDBTransaction, recentPlayers: RecentPlayer[]): void {
+  const store = transaction.objectStore(RECENT_PLAYERS_STORE);
+
+  store.clear();
+
+  for (const recentPlayer of recentPlayers) {
+    store.put(recentPlayer);
+  }
+}
+
+async function importLocalStorageData(database: IDBDatabase): Promise<void> {
+  const transaction = database.transaction(
+    [GAMES_STORE, ROUNDS_STORE, RECENT_PLAYERS_STORE, META_STORE],
+    'readwrite'
+  );
+  const done = transactionDone(transaction);
+  const metaStore = transaction.objectStore(META_STORE);
+  const imported = await requestToPromise<MetaRecord | undefined>(
+    metaStore.get(LOCAL_STORAGE_IMPORTED_KEY)
+  );
+
+  if (!imported) {
+    const data = readLocalStorageData();
+
+    for (const game of data.games) {
+      writeGame(transaction, game);
+    }
+
+    writeRecentPlayers(transaction, data.recentPlayers);
+    metaStore.put({ key: LOCAL_STORAGE_IMPORTED_KEY, value: new Date().toISOString() });
+    // readLocalStorageData already migrated the imported blob to the current schema.
+    metaStore.put({ key: SCHEMA_VERSION_KEY, value: CURRENT_SCHEMA_VERSION });
+  }
+
+  await done;
+}
+
+async function migrateStoredData(database: IDBDatabase): Promise<void> {
+  const transaction = database.transaction(
+    [GAMES_STORE, ROUNDS_STORE, RECENT_PLAYERS_STORE, META_STORE],
+    'readwrite'
+  );
+  const done = transactionDone(transaction);
+  const metaStore = transaction.objectStore(META_STORE);
+  const versionRecord = await requestToPromise<MetaRecord | undefined>(
+    metaStore.get(SCHEMA_VERSION_KEY)
+  );
+  const schemaVersion = parseSchemaVersion(versionRecord?.value);
+
+  if (!needsMigration(schemaVersion)) {
+    await done;
+    return;
+  }
+
+  try {
+    const [games, recentPlayers] = await Promise.all([
+      readAllGames(transaction),
+      requestToPromise<RecentPlayer[]>(transaction.objectStore(RECENT_PLAYERS_STORE).getAll())
+    ]);
+    const data: AppData = { games, recentPlayers };
+    const backup: MigrationBackup = {
+      schemaVersion,
+      createdAt: new Date().toISOString(),
+      data
+    };
+    const migrated = normalizeAppData(migrateAppData(data, schemaVersion));
+
+    metaStore.put({ key: MIGRATION_BACKUP_KEY, value: backup });
+    transaction.objectStore(GAMES_STORE).clear();
+    transaction.objectStore(ROUNDS_STORE).clear();
+
+    for (const game of migrated.games) {
+      writeGame(transaction, game);
+    }
+
+    writeRecentPlayers(transaction, migrated.recentPlayers);
+    metaStore.put({ key: SCHEMA_VERSION_KEY, value: CURRENT_SCHEMA_VERSION });
+  } catch (cause) {
+    // Aborting discards every write above, leaving the pre-migration data in place.
+    transaction.abort();
+    await done.catch(() => undefined);
+    throw cause;
+  }
+
+  await done;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+    request.onupgradeneeded = () => {
+      const database = request.result;
+
+      if (!database.objectStoreNames.contains(GAMES_STORE)) {
+        database.createObjectStore(GAMES_STORE, { keyPath: 'id' });
+      }
+
+      if (!database.objectStoreNames.contains(ROUNDS_STORE)) {
+        const roundsStore = database.createObjectStore(ROUNDS_STORE, { keyPath: 'id' });
+        roundsStore.createIndex(ROUNDS_BY_GAME_INDEX, 'gameId');
+      }
+
+      if (!database.objectStoreNames.contains(RECENT_PLAYERS_STORE)) {
+        database.createObjectStore(RECENT_PLAYERS_STORE, { keyPath: 'id' });
+      }
+
+      if (!database.objectStoreNames.contains(META_STORE)) {
+        database.createObjectStore(META_STORE, { keyPath: 'key' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error('Cierra las otras pestañas de la app para actualizar la base de datos.'));
+  });
+}
+
+/** False when the API exists but the browser refuses to open a database (private modes, blocked storage). */
+export async function canOpenIndexedDB(): Promise<boolean> {
+  if (!isIndexedDBAvailable()) {
+    return false;
+  }
+
+  try {
+    const database = await openDatabase();
+    database.close();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export class IndexedDBGameRepository implements GameRepository {
+  private databasePromise: Promise<IDBDatabase> | null = null;
+  private readonly notifier = new ChangeNotifier(CHANGES_CHANNEL);
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.databasePromise) {
+      this.databasePromise = openDatabase().then(async (database) => {
+        await importLocalStorageData(database);
+        await migrateStoredData(database);
+        return database;
+      });
+
+      this.databasePromise.catch(() => {
+        this.databasePromise = null;
+      });
+    }
+
+    return this.databasePromise;
+  }
+
+  private async updateGame(
+    gameId: string,
+    mutate: (game: Game) => Game,
+    options?: MutationOptions
+  ): Promise<Game> {
+    const database = await this.getDatabase();
+    const transaction = database.transaction([GAMES_STORE, ROUNDS_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    let updatedGame: Game;
+
+    try {
+      const game = await readGame(transaction, gameId);
+
+      if (!game) {
+        throw new GameNotFoundError();
+      }
+
+      updatedGame = applyGameMutation(game, mutate, options);
+
+      if (updatedGame !== game) {
+        writeGame(transaction, updatedGame, game);
+      }
+    } catch (cause) {
+      transaction.abort();
+      await done.catch(() => undefined);
+      throw cause;
+    }
+
+    await done;
+    this.notifier.notify();
+    return updatedGame;
+  }
+
+  async getAppData(): Promise<AppData> {
+    const database = await this.getDatabase();
+    const transaction = database.transaction(
+      [GAMES_STORE, ROUNDS_STORE, RECENT_PLAYERS_STORE],
+      'readonly'
+    );
+    const [games, recentPlayers] = await Promise.all([
+      readAllGames(transaction),
+      requestToPromise<RecentPlayer[]>(transaction.objectStore(RECENT_PLAYERS_STORE).getAll())
+    ]);
+
+    return {
+      games: sortGames(games),
+      recentPlayers: sortRecentPlayers(recentPlayers)
+    };
+  }
+
+  async getGames(): Promise<Game[]> {
+    const database = await this.getDatabase();
+    const transaction = database.transaction([GAMES_STORE, ROUNDS_STORE], 'readonly');
+    return getActiveGames(await readAllGames(transaction));
+  }
+
+  async getDeletedGames(): Promise<Game[]> {
+    const database = await this.getDatabase();
+    const transaction = database.transaction([GAMES_STORE, ROUNDS_STORE], 'readonly');
+    return getDeletedGames(await readAllGames(transaction));
+  }
+
+  async getGameById(id: string): Promise<Game | undefined> {
+    const database = await this.getDatabase();
+    const transaction = database.transaction([GAMES_STORE, ROUNDS_STORE], 'readonly');
+    return readGame(transaction, id);
+  }
+
+  async getRecentPlayers(limit = 8): Promise<RecentPlayer[]> {
+    const database = await this.getDatabase();
+    const transaction = database.transaction(RECENT_PLAYERS_STORE, 'readonly');
+    const recentPlayers = await requestToPromise<RecentPlayer[]>(
+      transaction.objectStore(RECENT_PLAYERS_STORE).getAll()
+    );
+
+    return sortRecentPlayers(recentPlayers, limit);
+  }
+
+  async createGame(input: CreateGameInput): Promise<Game> {
+    const game = createGameRecord(input);
+    const database = await this.getDatabase();
+    const transaction = database.transaction([GAMES_STORE, RECENT_PLAYERS_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    const recentPlayers = await requestToPromise<RecentPlayer[]>(
+      transaction.objectStore(RECENT_PLAYERS_STORE).getAll()
+    );
+
+    transaction.objectStore(GAMES_STORE).put(toStoredGame(game));
+    writeRecentPlayers(transaction, upsertRecentPlayers(recentPlayers, game.players));
+
+    await done;
+    this.notifier.notify();
+    return game;
+  }
+
+  async addRound(gameId: string, input: RoundInput, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, (game) => addRoundToGame(game, input), options);
+  }
+
+  async setPodridaBets(
+    gameId: string,
+    input: PodridaBetsInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    return this.updateGame(gameId, (game) => setPodridaBetsOnGame(game, input), options);
+  }
+
+  async addPodridaRound(
+    gameId: string,
+    input: PodridaRoundInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    return this.updateGame(gameId, (game) => addPodridaRoundToGame(game, input), options);
+  }
+
+  async addPlayoff(gameId: string, input: PlayoffInput, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, (game) => addPlayoffToGame(game, input), options);
+  }
+
+  async updateRound(
+    gameId: string,
+    roundId: string,
+    input: RoundInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    return this.updateGame(gameId, (game) => updateRoundInGame(game, roundId, input), options);
+  }
+
+  async deleteRound(gameId: string, roundId: string, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, (game) => deleteRoundFromGame(game, roundId), options);
+  }
+
+  async deleteGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, moveGameToTrash, options);
+  }
+
+  async restoreGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, restoreGameRecord, options);
+  }
+
+  async purgeGame(gameId: string, options?: MutationOptions): Promise<void> {
+    const database = await this.getDatabase();
+    const transaction = database.transaction([GAMES_STORE, ROUNDS_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+
+    try {
+      const game = await readGame(transaction, gameId);
+
+      if (!game) {
+        throw new GameNotFoundError();
+      }
+
+      assertExpectedRevision(game, options);
+      assertGameCanBePurged(game);
+      deleteStoredGame(transaction, game);
+    } catch (cause) {
+      transaction.abort();
+      await done.catch(() => undefined);
+      throw cause;
+    }
+
+    await done;
+    this.notifier.notify();
+  }
+
+  async purgeExpiredGames(retentionDays: number): Promise<number> {
+    const database = await this.getDatabase();
+    const transaction = database.transaction([GAMES_STORE, ROUNDS_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    const expiredGames = (await readAllGames(transaction)).filter((game) =>
+      isGameExpired(game, retentionDays)
+    );
+
+    for (const game of expiredGames) {
+      deleteStoredGame(transaction, game);
+    }
+
+    await done;
+
+    if (expiredGames.length > 0) {
+      this.notifier.notify();
+    }
+
+    return expiredGames.length;
+  }
+
+  async finishGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, finishGameRecord, options);
+  }
+
+  async reopenGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, reopenGameRecord, options);
+  }
+
+  async archiveGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return this.updateGame(gameId, archiveGameRecord, options);
+  }
+
+  async importAppData(data: AppData, strategy: ImportStrategy): Promise<AppData> {
+    const database = await this.getDatabase();
+    const transaction = database.transaction(
+      [GAMES_STORE, ROUNDS_STORE, RECENT_PLAYERS_STORE],
+      'readwrite'
+    );
+    const done = transactionDone(transaction);
+    const [games, recentPlayers] = await Promise.all([
+      readAllGames(transaction),
+      requestToPromise<RecentPlayer[]>(transaction.objectStore(RECENT_PLAYERS_STORE).getAll())
+    ]);
+    const merged = mergeAppData({ games, recentPlayers }, data, strategy);
+
+    transaction.objectStore(GAMES_STORE).clear();
+    transaction.objectStore(ROUNDS_STORE).clear();
+
+    for (const game of merged.games) {
+      writeGame(transaction, game);
+    }
+
+    writeRecentPlayers(transaction, merged.recentPlayers);
+
+    await done;
+    this.notifier.notify();
+    return merged;
+  }
+
+  subscribe(listener: RepositoryChangeListener): () => void {
+    return this.notifier.subscribe(listener);
+  }
+}
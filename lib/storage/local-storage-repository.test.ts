@@ -0,0 +1,129 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  LocalStorageGameRepository,
+  readLocalStorageData
+} from '@/lib/storage/local-storage-repository';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/storage/migrations';
+import { describeGameRepositoryContract } from '@/lib/storage/repository.contract';
+
+const STORAGE_KEY = 'scores-recorder:v1';
+const SCHEMA_VERSION_KEY = 'scores-recorder:schema-version';
+const MIGRATION_BACKUP_KEY = 'scores-recorder:v1:backup';
+
+const LEGACY_DATA = {
+  games: [
+    {
+      id: 'game-1',
+      name: 'Viernes',
+      players: [{ id: 'a', name: 'Ana' }],
+      status: 'open',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      rounds: [
+        {
+          id: 'round-1',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          mode: 'add',
+          entries: [{ playerId: 'a', delta: 7, totalAfter: 7 }]
+        }
+      ]
+    }
+  ],
+  recentPlayers: []
+};
+
+describe('localStorage schema migration', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('migrates legacy data to the current version and keeps a backup of the original', () => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(LEGACY_DATA));
+
+    const data = readLocalStorageData();
+
+    expect(data.games[0]).toMatchObject({ type: 'classic', revision: 0 });
+    expect(data.games[0].rounds[0].entries).toEqual([{ playerId: 'a', value: 7 }]);
+    expect(window.localStorage.getItem(SCHEMA_VERSION_KEY)).toBe(String(CURRENT_SCHEMA_VERSION));
+    expect(JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '')).toEqual(data);
+    expect(JSON.parse(window.localStorage.getItem(MIGRATION_BACKUP_KEY) ?? '')).toMatchObject({
+      schemaVersion: 0,
+      data: LEGACY_DATA
+    });
+  });
+
+  it('leaves the stored data untouched when a migration fails', () => {
+    const raw = JSON.stringify({ games: [{ id: 'game-1', rounds: 'broken' }], recentPlayers: [] });
+    window.localStorage.setItem(STORAGE_KEY, raw);
+    window.localStorage.setItem(SCHEMA_VERSION_KEY, '2');
+
+    expect(() => readLocalStorageData()).toThrow(/versión 3/);
+    expect(window.localStorage.getItem(STORAGE_KEY)).toBe(raw);
+    expect(window.localStorage.getItem(SCHEMA_VERSION_KEY)).toBe('2');
+  });
+
+  it('restores the original data when writing the migrated data fails', () => {
+    const raw = JSON.stringify(LEGACY_DATA);
+    window.localStorage.setItem(STORAGE_KEY, raw);
+    const setItem = Storage.prototype.setItem;
+
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (
+      this: Storage,
+      key: string,
+      value: string
+    ) {
+      if (key === SCHEMA_VERSION_KEY && value === String(CURRENT_SCHEMA_VERSION)) {
+        throw new Error('disk error');
+      }
+
+      setItem.call(this, key, value);
+    });
+
+    expect(() => readLocalStorageData()).toThrow('disk error');
+    expect(window.localStorage.getItem(STORAGE_KEY)).toBe(raw);
+    expect(window.localStorage.getItem(SCHEMA_VERSION_KEY)).toBe('0');
+  });
+
+  it('still migrates when the backup copy does not fit', () => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(LEGACY_DATA));
+    const setItem = Storage.prototype.setItem;
+
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (
+      this: Storage,
+      key: string,
+      value: string
+    ) {
+      if (key === MIGRATION_BACKUP_KEY) {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      }
+
+      setItem.call(this, key, value);
+    });
+
+    expect(readLocalStorageData().games[0].revision).toBe(0);
+    expect(window.localStorage.getItem(SCHEMA_VERSION_KEY)).toBe(String(CURRENT_SCHEMA_VERSION));
+  });
+
+  it('normalizes data already at the current version', () => {
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ games: [{ id: 'game-1', rounds: 'broken', revision: 2 }] })
+    );
+    window.localStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+
+    const data = readLocalStorageData();
+
+    expect(data.games[0]).toMatchObject({ type: 'classic', rounds: [], revision: 2 });
+    expect(data.recentPlayers).toEqual([]);
+  });
+});
+
+describeGameRepositoryContract('LocalStorageGameRepository', () => {
+  window.localStorage.clear();
+  return new LocalStorageGameRepository();
+});
@@ -2,21 +2,51 @@ import {
   AppData,
   CreateGameInput,
   Game,
-  GameType,
-  NewPlayerInput,
-  Player,
+  ImportStrategy,
+  MutationOptions,
+  PlayoffInput,
   PodridaBetsInput,
   PodridaRoundInput,
   RecentPlayer,
-  Round,
   RoundInput
 } from '@/lib/types';
-import { createId } from '@/lib/utils/id';
-import { getNextPodridaCards, getPodridaMaxCards } from '@/lib/utils/game';
-import { GameRepository } from '@/lib/storage/repository';
+import {
+  addPlayoffToGame,
+  addPodridaRoundToGame,
+  addRoundToGame,
+  applyGameMutation,
+  archiveGameRecord,
+  assertGameCanBePurged,
+  assertExpectedRevision,
+  createGameRecord,
+  deleteRoundFromGame,
+  finishGameRecord,
+  getActiveGames,
+  getDeletedGames,
+  isGameExpired,
+  moveGameToTrash,
+  reopenGameRecord,
+  restoreGameRecord,
+  setPodridaBetsOnGame,
+  sortRecentPlayers,
+  updateRoundInGame,
+  upsertRecentPlayers
+} from '@/lib/storage/game-mutations';
+import {
+  CURRENT_SCHEMA_VERSION,
+  MigrationBackup,
+  migrateAppData,
+  needsMigration,
+  parseSchemaVersion
+} from '@/lib/storage/migrations';
+import { mergeAppData } from '@/lib/storage/backup';
+import { GameNotFoundError } from '@/lib/storage/errors';
+import { normalizeAppData } from '@/lib/storage/normalize';
+import { GameRepository, RepositoryChangeListener } from '@/lib/storage/repository';
 
 const STORAGE_KEY = 'scores-recorder:v1';
-const RECENT_LIMIT = 20;
+const SCHEMA_VERSION_KEY = 'scores-recorder:schema-version';
+const MIGRATION_BACKUP_KEY = 'scores-recorder:v1:backup';
 
 const DEFAULT_DATA: AppData = {
   games: [],
@@ -29,85 +59,51 @@ function assertBrowser(): void {
   }
 }
 
-function normalizeName(value: string): string {
-  return value.trim().replace(/\s+/g, ' ');
-}
-
-function getGameType(game: Game): GameType {
-  return game.type === 'podrida' ? 'podrida' : 'classic';
+function writeData(data: AppData): void {
+  assertBrowser();
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  window.localStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
 }
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value);
+function isQuotaExceededError(cause: unknown): boolean {
+  return (
+    cause instanceof DOMException &&
+    (cause.name === 'QuotaExceededError' || cause.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+  );
 }
 
-function toNumericRecord(value: unknown): Record<string, number> {
-  if (!isRecord(value)) {
-    return {};
-  }
-
-  const output: Record<string, number> = {};
-
-  for (const [key, rawValue] of Object.entries(value)) {
-    const numericValue = Number(rawValue);
+function migrateStoredData(raw: string, parsed: unknown, fromVersion: number): AppData {
+  // Migrations don't touch storage, so a failing one leaves the stored data as it was.
+  const migrated = normalizeAppData(migrateAppData(parsed, fromVersion));
+  const backup: MigrationBackup = {
+    schemaVersion: fromVersion,
+    createdAt: new Date().toISOString(),
+    data: parsed
+  };
 
-    if (Number.isFinite(numericValue)) {
-      output[key] = numericValue;
+  // The copy stays after a successful migration so a faulty one can be undone by hand, like the
+  // IndexedDB one. It doubles the space used, so it's skipped when it doesn't fit.
+  try {
+    window.localStorage.setItem(MIGRATION_BACKUP_KEY, JSON.stringify(backup));
+  } catch (cause) {
+    if (!isQuotaExceededError(cause)) {
+      throw cause;
     }
   }
 
-  return output;
-}
-
-function normalizeRound(round: Round): Round {
-  const mode = round.mode === 'set' ? 'set' : 'add';
-  const entries = Array.isArray(round.entries) ? round.entries : [];
-  const base: Round = {
-    id: round.id,
-    createdAt: round.createdAt,
-    mode,
-    entries
-  };
-
-  if (
-    round.type === 'podrida' &&
-    typeof round.cardsCount === 'number' &&
-    Number.isFinite(round.cardsCount)
-  ) {
-    return {
-      ...base,
-      type: 'podrida',
-      mode: 'set',
-      cardsCount: round.cardsCount,
-      betsByPlayerId: toNumericRecord(round.betsByPlayerId)
-    };
+  try {
+    writeData(migrated);
+  } catch (cause) {
+    // Roll back to the pre-migration blob so the app can retry on the next load.
+    window.localStorage.setItem(STORAGE_KEY, raw);
+    window.localStorage.setItem(SCHEMA_VERSION_KEY, String(fromVersion));
+    throw cause;
   }
 
-  return {
-    ...base,
-    type: 'classic'
-  };
+  return migrated;
 }
 
-function normalizeGame(game: Game): Game {
-  const type = getGameType(game);
-  const rounds = Array.isArray(game.rounds) ? game.rounds.map(normalizeRound) : [];
-  const pendingBetsByPlayerId = toNumericRecord(game.podridaState?.pendingBetsByPlayerId);
-
-  return {
-    ...game,
-    type,
-    rounds,
-    podridaState:
-      type === 'podrida'
-        ? {
-            pendingBetsByPlayerId
-          }
-        : undefined
-  };
-}
-
-function readData(): AppData {
+export function readLocalStorageData(): AppData {
   assertBrowser();
   const raw = window.localStorage.getItem(STORAGE_KEY);
 
@@ -115,419 +111,195 @@ function readData(): AppData {
     return DEFAULT_DATA;
   }
 
-  try {
-    const parsed = JSON.parse(raw) as AppData;
+  let parsed: unknown;
 
-    return {
-      games: Array.isArray(parsed.games) ? parsed.games.map((game) => normalizeGame(game)) : [],
-      recentPlayers: Array.isArray(parsed.recentPlayers) ? parsed.recentPlayers : []
-    };
+  try {
+    parsed = JSON.parse(raw);
   } catch {
     return DEFAULT_DATA;
   }
-}
 
-function writeData(data: AppData): void {
-  assertBrowser();
-  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-}
+  const schemaVersion = parseSchemaVersion(window.localStorage.getItem(SCHEMA_VERSION_KEY));
 
-function getTotals(game: Game): Record<string, number> {
-  const totals: Record<string, number> = {};
-
-  for (const player of game.players) {
-    totals[player.id] = 0;
+  if (needsMigration(schemaVersion)) {
+    return migrateStoredData(raw, parsed, schemaVersion);
   }
 
-  for (const round of game.rounds) {
-    for (const entry of round.entries) {
-      totals[entry.playerId] = entry.totalAfter;
-    }
-  }
-
-  return totals;
+  return normalizeAppData(parsed);
 }
 
-function upsertRecentPlayers(existing: RecentPlayer[], players: Player[]): RecentPlayer[] {
-  const map = new Map(existing.map((player) => [player.name.toLowerCase(), player]));
-  const now = new Date().toISOString();
-
-  for (const player of players) {
-    const key = player.name.toLowerCase();
-    const previous = map.get(key);
+function updateGame(
+  gameId: string,
+  mutate: (game: Game) => Game,
+  options?: MutationOptions
+): Game {
+  const data = readLocalStorageData();
+  const gameIndex = data.games.findIndex((game) => game.id === gameId);
 
-    map.set(key, {
-      id: previous?.id ?? createId('recent_player'),
-      name: player.name,
-      color: player.color,
-      lastUsedAt: now
-    });
+  if (gameIndex < 0) {
+    throw new GameNotFoundError();
   }
 
-  return [...map.values()]
-    .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
-    .slice(0, RECENT_LIMIT);
-}
-
-function toPlayers(inputPlayers: NewPlayerInput[]): Player[] {
-  const seenNames = new Set<string>();
-  const players: Player[] = [];
-
-  for (const input of inputPlayers) {
-    const name = normalizeName(input.name);
+  const game = data.games[gameIndex];
+  const updatedGame = applyGameMutation(game, mutate, options);
 
-    if (!name) {
-      continue;
-    }
-
-    const lowerName = name.toLowerCase();
+  if (updatedGame === game) {
+    return game;
+  }
 
-    if (seenNames.has(lowerName)) {
-      continue;
-    }
+  const games = [...data.games];
+  games[gameIndex] = updatedGame;
 
-    seenNames.add(lowerName);
-    players.push({
-      id: createId('player'),
-      name,
-      color: input.color || undefined
-    });
-  }
+  writeData({
+    ...data,
+    games
+  });
 
-  return players;
+  return updatedGame;
 }
 
 export class LocalStorageGameRepository implements GameRepository {
   async getAppData(): Promise<AppData> {
-    return readData();
+    return readLocalStorageData();
   }
 
   async getGames(): Promise<Game[]> {
-    const data = readData();
-    return [...data.games].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return getActiveGames(readLocalStorageData().games);
+  }
+
+  async getDeletedGames(): Promise<Game[]> {
+    return getDeletedGames(readLocalStorageData().games);
   }
 
   async getGameById(id: string): Promise<Game | undefined> {
-    const data = readData();
+    const data = readLocalStorageData();
     return data.games.find((game) => game.id === id);
   }
 
   async getRecentPlayers(limit = 8): Promise<RecentPlayer[]> {
-    const data = readData();
-
-    return [...data.recentPlayers]
-      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
-      .slice(0, limit);
+    return sortRecentPlayers(readLocalStorageData().recentPlayers, limit);
   }
 
   async createGame(input: CreateGameInput): Promise<Game> {
-    const data = readData();
-    const players = toPlayers(input.players);
+    const data = readLocalStorageData();
+    const game = createGameRecord(input);
 
-    if (players.length < 2) {
-      throw new Error('Debes ingresar al menos 2 jugadores.');
-    }
-
-    if (input.type === 'podrida' && getPodridaMaxCards(players.length) < 3) {
-      throw new Error(
-        'Con esta cantidad de jugadores no se puede iniciar Podrida (mínimo 3 cartas por jugador).'
-      );
-    }
-
-    const now = new Date().toISOString();
-    const game: Game = {
-      id: createId('game'),
-      name: input.name?.trim() || undefined,
-      type: input.type === 'podrida' ? 'podrida' : 'classic',
-      players,
-      rounds: [],
-      status: 'open',
-      createdAt: now,
-      updatedAt: now,
-      podridaState:
-        input.type === 'podrida'
-          ? {
-              pendingBetsByPlayerId: {}
-            }
-          : undefined
-    };
-
-    const nextData: AppData = {
+    writeData({
       games: [game, ...data.games],
-      recentPlayers: upsertRecentPlayers(data.recentPlayers, players)
-    };
+      recentPlayers: upsertRecentPlayers(data.recentPlayers, game.players)
+    });
 
-    writeData(nextData);
     return game;
   }
 
-  async addRound(gameId: string, input: RoundInput): Promise<Game> {
-    const data = readData();
-    const gameIndex = data.games.findIndex((game) => game.id === gameId);
-
-    if (gameIndex < 0) {
-      throw new Error('No se encontró la partida.');
-    }
-
-    const game = data.games[gameIndex];
-    const gameType = getGameType(game);
-
-    if (game.status === 'finished') {
-      throw new Error('La partida está finalizada.');
-    }
-
-    if (gameType !== 'classic') {
-      throw new Error('Esta partida usa reglas especiales. Usa la carga de Podrida.');
-    }
-
-    const playerIds = new Set(game.players.map((player) => player.id));
-    const currentTotals = getTotals(game);
-    const entries: Round['entries'] = [];
-
-    for (const [playerId, rawValue] of Object.entries(input.valuesByPlayerId)) {
-      if (!playerIds.has(playerId)) {
-        continue;
-      }
-
-      const value = Number(rawValue);
-
-      if (Number.isNaN(value) || !Number.isFinite(value)) {
-        continue;
-      }
-
-      const currentTotal = currentTotals[playerId] ?? 0;
-      const nextTotal = input.mode === 'add' ? currentTotal + value : value;
-      const delta = nextTotal - currentTotal;
-
-      entries.push({
-        playerId,
-        delta,
-        totalAfter: nextTotal
-      });
-    }
-
-    if (entries.length === 0) {
-      throw new Error('Ingresa al menos un puntaje para guardar la ronda.');
-    }
-
-    const now = new Date().toISOString();
-    const round: Round = {
-      id: createId('round'),
-      createdAt: now,
-      type: 'classic',
-      mode: input.mode,
-      entries
-    };
-
-    const updatedGame: Game = {
-      ...game,
-      rounds: [...game.rounds, round],
-      updatedAt: now
-    };
-
-    const games = [...data.games];
-    games[gameIndex] = updatedGame;
-
-    writeData({
-      ...data,
-      games
-    });
-
-    return updatedGame;
+  async addRound(gameId: string, input: RoundInput, options?: MutationOptions): Promise<Game> {
+    return updateGame(gameId, (game) => addRoundToGame(game, input), options);
   }
 
-  async setPodridaBets(gameId: string, input: PodridaBetsInput): Promise<Game> {
-    const data = readData();
-    const gameIndex = data.games.findIndex((game) => game.id === gameId);
-
-    if (gameIndex < 0) {
-      throw new Error('No se encontró la partida.');
-    }
-
-    const game = data.games[gameIndex];
+  async setPodridaBets(
+    gameId: string,
+    input: PodridaBetsInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    return updateGame(gameId, (game) => setPodridaBetsOnGame(game, input), options);
+  }
 
-    if (game.status === 'finished') {
-      throw new Error('La partida está finalizada.');
-    }
+  async addPodridaRound(
+    gameId: string,
+    input: PodridaRoundInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    return updateGame(gameId, (game) => addPodridaRoundToGame(game, input), options);
+  }
 
-    if (getGameType(game) !== 'podrida') {
-      throw new Error('Solo las partidas de Podrida permiten apuestas por ronda.');
-    }
+  async addPlayoff(gameId: string, input: PlayoffInput, options?: MutationOptions): Promise<Game> {
+    return updateGame(gameId, (game) => addPlayoffToGame(game, input), options);
+  }
 
-    const nextCardsCount = getNextPodridaCards(game);
+  async updateRound(
+    gameId: string,
+    roundId: string,
+    input: RoundInput,
+    options?: MutationOptions
+  ): Promise<Game> {
+    return updateGame(gameId, (game) => updateRoundInGame(game, roundId, input), options);
+  }
 
-    if (nextCardsCount === null) {
-      throw new Error('La secuencia de Podrida ya está completa.');
-    }
+  async deleteRound(gameId: string, roundId: string, options?: MutationOptions): Promise<Game> {
+    return updateGame(gameId, (game) => deleteRoundFromGame(game, roundId), options);
+  }
 
-    const betsByPlayerId: Record<string, number> = {};
+  async deleteGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return updateGame(gameId, moveGameToTrash, options);
+  }
 
-    for (const player of game.players) {
-      const betValue = Number(input.betsByPlayerId[player.id]);
+  async restoreGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return updateGame(gameId, restoreGameRecord, options);
+  }
 
-      if (!Number.isFinite(betValue) || !Number.isInteger(betValue)) {
-        throw new Error(`Debes ingresar una apuesta entera para ${player.name}.`);
-      }
+  async purgeGame(gameId: string, options?: MutationOptions): Promise<void> {
+    const data = readLocalStorageData();
+    const game = data.games.find((currentGame) => currentGame.id === gameId);
 
-      betsByPlayerId[player.id] = betValue;
+    if (!game) {
+      throw new GameNotFoundError();
     }
 
-    const now = new Date().toISOString();
-    const updatedGame: Game = {
-      ...game,
-      updatedAt: now,
-      podridaState: {
-        pendingBetsByPlayerId: betsByPlayerId
-      }
-    };
-
-    const games = [...data.games];
-    games[gameIndex] = updatedGame;
+    assertExpectedRevision(game, options);
+    assertGameCanBePurged(game);
 
     writeData({
       ...data,
-      games
+      games: data.games.filter((currentGame) => currentGame.id !== gameId)
     });
-
-    return updatedGame;
   }
 
-  async addPodridaRound(gameId: string, input: PodridaRoundInput): Promise<Game> {
-    const data = readData();
-    const gameIndex = data.games.findIndex((game) => game.id === gameId);
-
-    if (gameIndex < 0) {
-      throw new Error('No se encontró la partida.');
-    }
-
-    const game = data.games[gameIndex];
-
-    if (game.status === 'finished') {
-      throw new Error('La partida está finalizada.');
-    }
-
-    if (getGameType(game) !== 'podrida') {
-      throw new Error('Solo las partidas de Podrida usan este flujo de ronda.');
-    }
-
-    const nextCardsCount = getNextPodridaCards(game);
-
-    if (nextCardsCount === null) {
-      throw new Error('La secuencia de Podrida ya está completa.');
-    }
-
-    const pendingBetsByPlayerId = game.podridaState?.pendingBetsByPlayerId ?? {};
-    const currentTotals = getTotals(game);
-    const entries: Round['entries'] = [];
-    const betsByPlayerId: Record<string, number> = {};
-
-    for (const player of game.players) {
-      const betValue = Number(pendingBetsByPlayerId[player.id]);
-      const totalValue = Number(input.totalsByPlayerId[player.id]);
-
-      if (!Number.isFinite(betValue) || !Number.isInteger(betValue)) {
-        throw new Error(`Debes guardar primero la apuesta de ${player.name}.`);
-      }
-
-      if (!Number.isFinite(totalValue)) {
-        throw new Error(`Debes ingresar el total acumulado de ${player.name}.`);
-      }
-
-      const currentTotal = currentTotals[player.id] ?? 0;
-      const totalAfter = totalValue;
+  async purgeExpiredGames(retentionDays: number): Promise<number> {
+    const data = readLocalStorageData();
+    const games = data.games.filter((game) => !isGameExpired(game, retentionDays));
+    const purgedCount = data.games.length - games.length;
 
-      entries.push({
-        playerId: player.id,
-        delta: totalAfter - currentTotal,
-        totalAfter
+    if (purgedCount > 0) {
+      writeData({
+        ...data,
+        games
       });
-
-      betsByPlayerId[player.id] = betValue;
     }
 
-    const now = new Date().toISOString();
-    const round: Round = {
-      id: createId('round'),
-      createdAt: now,
-      type: 'podrida',
-      mode: 'set',
-      cardsCount: nextCardsCount,
-      betsByPlayerId,
-      entries
-    };
-
-    const updatedGame: Game = {
-      ...game,
-      rounds: [...game.rounds, round],
-      updatedAt: now,
-      podridaState: {
-        pendingBetsByPlayerId: {}
-      }
-    };
-
-    const games = [...data.games];
-    games[gameIndex] = updatedGame;
-
-    writeData({
-      ...data,
-      games
-    });
-
-    return updatedGame;
+    return purgedCount;
   }
 
-  async deleteOpenGame(gameId: string): Promise<void> {
-    const data = readData();
-    const gameIndex = data.games.findIndex((game) => game.id === gameId);
-
-    if (gameIndex < 0) {
-      throw new Error('No se encontró la partida.');
-    }
-
-    const game = data.games[gameIndex];
-
-    if (game.status !== 'open') {
-      throw new Error('Solo se pueden borrar partidas abiertas.');
-    }
-
-    const games = data.games.filter((currentGame) => currentGame.id !== gameId);
-
-    writeData({
-      ...data,
-      games
-    });
+  async finishGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return updateGame(gameId, finishGameRecord, options);
   }
 
-  async finishGame(gameId: string): Promise<Game> {
-    const data = readData();
-    const gameIndex = data.games.findIndex((game) => game.id === gameId);
+  async reopenGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return updateGame(gameId, reopenGameRecord, options);
+  }
 
-    if (gameIndex < 0) {
-      throw new Error('No se encontró la partida.');
-    }
+  async archiveGame(gameId: string, options?: MutationOptions): Promise<Game> {
+    return updateGame(gameId, archiveGameRecord, options);
+  }
 
-    const game = data.games[gameIndex];
+  async importAppData(data: AppData, strategy: ImportStrategy): Promise<AppData> {
+    const merged = mergeAppData(readLocalStorageData(), data, strategy);
+    writeData(merged);
+    return merged;
+  }
 
-    if (game.status === 'finished') {
-      return game;
+  subscribe(listener: RepositoryChangeListener): () => void {
+    if (typeof window === 'undefined') {
+      return () => undefined;
     }
 
-    const now = new Date().toISOString();
-    const updatedGame: Game = {
-      ...game,
-      status: 'finished',
-      finishedAt: now,
-      updatedAt: now
+    // The browser only fires `storage` in the other tabs, never in the one that wrote.
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY || event.key === null) {
+        listener();
+      }
     };
 
-    const games = [...data.games];
-    games[gameIndex] = updatedGame;
-
-    writeData({
-      ...data,
-      games
-    });
-
-    return updatedGame;
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
   }
 }
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, migrateAppData } from '@/lib/storage/migrations';
+
+function getMigration(version: number) {
+  const migration = MIGRATIONS.find((current) => current.version === version);
+
+  if (!migration) {
+    throw new Error(`Missing migration ${version}`);
+  }
+
+  return migration;
+}
+
+describe('schema migrations', () => {
+  it('are numbered in order up to the current version', () => {
+    expect(MIGRATIONS.map((migration) => migration.version)).toEqual([1, 2, 3]);
+    expect(CURRENT_SCHEMA_VERSION).toBe(3);
+  });
+
+  it('v1 cleans up rounds and games saved before the data was versioned', () => {
+    const migrated = getMigration(1).migrate({
+      games: [
+        {
+          id: 'game-1',
+          type: 'podrida',
+          rounds: [
+            {
+              id: 'round-1',
+              createdAt: '2024-01-01T00:00:00.000Z',
+              type: 'podrida',
+              cardsCount: 3,
+              betsByPlayerId: { a: '1', b: 'nope' },
+              entries: [{ playerId: 'a', delta: 11, totalAfter: 11 }]
+            },
+            {
+              id: 'round-2',
+              createdAt: '2024-01-01T00:00:00.000Z',
+              mode: 'weird',
+              entries: 'broken'
+            }
+          ]
+        },
+        { id: 'game-2', type: 'unknown' }
+      ],
+      recentPlayers: 'broken'
+    } as never);
+
+    const [podridaGame, otherGame] = migrated.games;
+
+    expect(podridaGame.type).toBe('podrida');
+    expect(podridaGame.podridaState).toEqual({ pendingBetsByPlayerId: {} });
+    expect(podridaGame.rounds[0]).toMatchObject({
+      type: 'podrida',
+      mode: 'set',
+      cardsCount: 3,
+      betsByPlayerId: { a: 1 }
+    });
+    expect(podridaGame.rounds[1]).toMatchObject({ type: 'classic', mode: 'add', entries: [] });
+    expect(otherGame).toMatchObject({ type: 'classic', rounds: [], podridaState: undefined });
+    expect(migrated.recentPlayers).toEqual([]);
+  });
+
+  it('v1 turns anything that is not an object into empty data', () => {
+    expect(getMigration(1).migrate('broken' as never)).toEqual({ games: [], recentPlayers: [] });
+  });
+
+  it('v2 adds a revision counter and keeps existing ones', () => {
+    const migrated = getMigration(2).migrate({
+      games: [{ id: 'game-1' }, { id: 'game-2', revision: 4 }],
+      recentPlayers: []
+    } as never);
+
+    expect(migrated.games.map((game) => game.revision)).toEqual([0, 4]);
+  });
+
+  it('v3 stores what each round added or pinned instead of running totals', () => {
+    const migrated = getMigration(3).migrate({
+      games: [
+        {
+          id: 'game-1',
+          rounds: [
+            { id: 'round-1', mode: 'add', entries: [{ playerId: 'a', delta: 5, totalAfter: 5 }] },
+            { id: 'round-2', mode: 'set', entries: [{ playerId: 'a', delta: 15, totalAfter: 20 }] },
+            { id: 'round-3', mode: 'add', entries: [{ playerId: 'a' }] }
+          ]
+        }
+      ],
+      recentPlayers: []
+    } as never);
+
+    expect(migrated.games[0].rounds.map((round) => round.entries)).toEqual([
+      [{ playerId: 'a', value: 5 }],
+      [{ playerId: 'a', value: 20 }],
+      [{ playerId: 'a', value: 0 }]
+    ]);
+  });
+
+  it('runs only the migrations newer than the stored version', () => {
+    const data = {
+      games: [{ id: 'game-1', rounds: [{ id: 'round-1', mode: 'add', entries: [] }] }],
+      recentPlayers: []
+    };
+
+    expect(migrateAppData(data, CURRENT_SCHEMA_VERSION)).toBe(data);
+    expect(migrateAppData(data, 2).games[0].revision).toBeUndefined();
+    expect(migrateAppData(data, 1).games[0].revision).toBe(0);
+  });
+
+  it('reports the version that failed', () => {
+    const data = { games: [{ id: 'game-1', rounds: 'broken' }], recentPlayers: [] };
+
+    expect(() => migrateAppData(data, 2)).toThrow(
+      /^No se pudo migrar los datos a la versión 3: /
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { AppData, Game, RecentPlayer, Round, RoundEntry } from '@/lib/types';
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(data: AppData): AppData;
+}
+
+export interface MigrationBackup {
+  schemaVersion: number;
+  createdAt: string;
+  data: unknown;
+}
+
+// Ordered list of schema migrations. Append new entries with the next version
+// number; never edit or reorder a migration that has already shipped.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Normaliza rondas y partidas guardadas antes de versionar los datos.',
+    migrate: (data) => toV1AppData(data)
+  },
+  {
+    version: 2,
+    description: 'Agrega el contador de revisiones a cada partida.',
+    migrate: (data) => ({
+      ...data,
+      games: data.games.map((game) => ({
+        ...game,
+        revision: Number.isInteger(game.revision) ? game.revision : 0
+      }))
+    })
+  },
+  {
+    version: 3,
+    description: 'Guarda las rondas como eventos y deja de persistir los totales acumulados.',
+    migrate: (data) => ({
+      ...data,
+      games: data.games.map((game) => ({
+        ...game,
+        rounds: game.rounds.map((round) => ({
+          ...round,
+          entries: (round.entries as LegacyRoundEntry[]).map((entry) => toRoundEvent(round, entry))
+        }))
+      }))
+    })
+  }
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Version 1 is a frozen copy of how `normalize.ts` cleaned data when it shipped,
+// so later changes to the current normalization can't change what it does.
+function toV1NumericRecord(value: unknown): Record<string, number> {
+  if (!isRecord(value)) {
+    return {};
+  }
+
+  const output: Record<string, number> = {};
+
+  for (const [key, rawValue] of Object.entries(value)) {
+    const numericValue = Number(rawValue);
+
+    if (Number.isFinite(numericValue)) {
+      output[key] = numericValue;
+    }
+  }
+
+  return output;
+}
+
+function toV1Round(round: Round): Round {
+  const base: Round = {
+    id: round.id,
+    createdAt: round.createdAt,
+    mode: round.mode === 'set' ? 'set' : 'add',
+    entries: Array.isArray(round.entries) ? round.entries : []
+  };
+
+  if (
+    round.type === 'podrida' &&
+    typeof round.cardsCount === 'number' &&
+    Number.isFinite(round.cardsCount)
+  ) {
+    return {
+      ...base,
+      type: 'podrida',
+      mode: 'set',
+      cardsCount: round.cardsCount,
+      betsByPlayerId: toV1NumericRecord(round.betsByPlayerId)
+    };
+  }
+
+  return {
+    ...base,
+    type: 'classic'
+  };
+}
+
+function toV1Game(game: Game): Game {
+  const type = game.type === 'podrida' ? 'podrida' : 'classic';
+
+  return {
+    ...game,
+    type,
+    rounds: Array.isArray(game.rounds) ? game.rounds.map(toV1Round) : [],
+    podridaState:
+      type === 'podrida'
+        ? {
+            pendingBetsByPlayerId: toV1NumericRecord(game.podridaState?.pendingBetsByPlayerId)
+          }
+        : undefined
+  };
+}
+
+function toV1AppData(value: unknown): AppData {
+  if (!isRecord(value)) {
+    return {
+      games: [],
+      recentPlayers: []
+    };
+  }
+
+  return {
+    games: Array.isArray(value.games) ? value.games.map((game: Game) => toV1Game(game)) : [],
+    recentPlayers: Array.isArray(value.recentPlayers) ? (value.recentPlayers as RecentPlayer[]) : []
+  };
+}
+
+interface LegacyRoundEntry {
+  playerId: string;
+  delta?: number;
+  totalAfter?: number;
+}
+
+function toRoundEvent(round: Round, entry: LegacyRoundEntry): RoundEntry {
+  // 'set' rounds keep the total they pinned; 'add' rounds keep what they added.
+  const value = round.mode === 'set' ? entry.totalAfter : entry.delta;
+
+  return {
+    playerId: entry.playerId,
+    value: Number.isFinite(value) ? Number(value) : 0
+  };
+}
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function parseSchemaVersion(value: unknown): number {
+  const version = Number(value);
+  return value !== null && value !== undefined && Number.isInteger(version) && version > 0
+    ? version
+    : 0;
+}
+
+export function needsMigration(schemaVersion: number): boolean {
+  return schemaVersion < CURRENT_SCHEMA_VERSION;
+}
+
+export function migrateAppData(data: unknown, fromVersion: number): AppData {
+  let migrated = data as AppData;
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) {
+      continue;
+    }
+
+    try {
+      migrated = migration.migrate(migrated);
+    } catch (cause) {
+      const reason = cause instanceof Error ? cause.message : String(cause);
+      throw new Error(`No se pudo migrar los datos a la versión ${migration.version}: ${reason}`);
+    }
+  }
+
+  return migrated;
+}
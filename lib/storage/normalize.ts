@@ -0,0 +1,75 @@
+import { getGameRules, getGameType } from '@/lib/game-types';
+import { toNumericRecord } from '@/lib/game-types/helpers';
+import { AppData, Game, RecentPlayer, Round } from '@/lib/types';
+import { getScoringDirection, getTieBreakPolicy } from '@/lib/utils/game';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function normalizeRound(round: Round): Round {
+  const mode = round.mode === 'set' ? 'set' : 'add';
+  const entries = Array.isArray(round.entries) ? round.entries : [];
+  const base: Round = {
+    id: round.id,
+    createdAt: round.createdAt,
+    mode,
+    entries,
+    dealerId: typeof round.dealerId === 'string' ? round.dealerId : undefined
+  };
+
+  const rules = getGameRules(round.type);
+
+  if (rules.normalizeRound) {
+    return rules.normalizeRound(round, base);
+  }
+
+  return {
+    ...base,
+    type: rules.type
+  };
+}
+
+export function normalizeGame(game: Game): Game {
+  const type = getGameType(game);
+  const rounds = Array.isArray(game.rounds) ? game.rounds.map(normalizeRound) : [];
+  const pendingBetsByPlayerId = toNumericRecord(game.podridaState?.pendingBetsByPlayerId);
+
+  return {
+    ...game,
+    type,
+    // Revision checks and merge order compare these, so they can't be missing.
+    updatedAt: typeof game.updatedAt === 'string' ? game.updatedAt : game.createdAt,
+    revision: Number.isInteger(game.revision) && game.revision >= 0 ? game.revision : 0,
+    scoringDirection: getGameRules(type).scoringDirection ?? getScoringDirection(game),
+    tieBreak: getTieBreakPolicy(game),
+    playoffs: Array.isArray(game.playoffs)
+      ? game.playoffs.map((playoff) => ({
+          id: playoff.id,
+          createdAt: playoff.createdAt,
+          scoresById: toNumericRecord(playoff.scoresById)
+        }))
+      : undefined,
+    rounds,
+    podridaState:
+      type === 'podrida'
+        ? {
+            pendingBetsByPlayerId
+          }
+        : undefined
+  };
+}
+
+export function normalizeAppData(value: unknown): AppData {
+  if (!isRecord(value)) {
+    return {
+      games: [],
+      recentPlayers: []
+    };
+  }
+
+  return {
+    games: Array.isArray(value.games) ? value.games.map((game: Game) => normalizeGame(game)) : [],
+    recentPlayers: Array.isArray(value.recentPlayers) ? (value.recentPlayers as RecentPlayer[]) : []
+  };
+}
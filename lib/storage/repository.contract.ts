@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { GameConflictError, GameNotFoundError, GameValidationError } from '@/lib/storage/errors';
+import { createGameRecord } from '@/lib/storage/game-mutations';
+import { GameRepository } from '@/lib/storage/repository';
+import { getGameTotals } from '@/lib/utils/game';
+
+export interface ContractOptions {
+  /** The trash retention is fixed by the server, so `purgeExpiredGames` ignores its argument. */
+  hasSharedTrashRetention?: boolean;
+}
+
+// Behavior every GameRepository must share. Each implementation's test file runs this suite with a
+// factory that returns a repository over empty storage.
+export function describeGameRepositoryContract(
+  name: string,
+  createRepository: () => GameRepository,
+  { hasSharedTrashRetention = false }: ContractOptions = {}
+): void {
+  describe(`${name} contract`, () => {
+    let repository: GameRepository;
+
+    beforeEach(() => {
+      repository = createRepository();
+    });
+
+    function createGame() {
+      return repository.createGame({ players: [{ name: 'Ana' }, { name: 'Beto' }] });
+    }
+
+    it('creates games and reads them back', async () => {
+      const game = await createGame();
+
+      expect(game).toMatchObject({ status: 'open', revision: 0, rounds: [] });
+      expect(await repository.getGameById(game.id)).toEqual(game);
+      expect(await repository.getGames()).toEqual([game]);
+      expect(await repository.getGameById('missing')).toBeUndefined();
+
+      const recentNames = (await repository.getRecentPlayers()).map((player) => player.name);
+      expect(recentNames.sort()).toEqual(['Ana', 'Beto']);
+    });
+
+    it('adds, updates and deletes rounds', async () => {
+      const game = await createGame();
+      const [ana, beto] = game.players;
+
+      const withRound = await repository.addRound(game.id, {
+        mode: 'add',
+        valuesByPlayerId: { [ana.id]: 5, [beto.id]: 3 }
+      });
+      const round = withRound.rounds[0];
+      expect(withRound.revision).toBe(1);
+      expect(getGameTotals(withRound)).toEqual({ [ana.id]: 5, [beto.id]: 3 });
+
+      const updated = await repository.updateRound(game.id, round.id, {
+        mode: 'add',
+        valuesByPlayerId: { [ana.id]: 1, [beto.id]: 2 }
+      });
+      expect(getGameTotals(updated)).toEqual({ [ana.id]: 1, [beto.id]: 2 });
+      expect(await repository.getGameById(game.id)).toEqual(updated);
+
+      const withoutRound = await repository.deleteRound(game.id, round.id);
+      expect(withoutRound.rounds).toEqual([]);
+      expect(withoutRound.revision).toBe(3);
+    });
+
+    it('rejects a stale revision with the stored game', async () => {
+      const game = await createGame();
+      const input = { mode: 'add' as const, valuesByPlayerId: { [game.players[0].id]: 1 } };
+
+      await repository.addRound(game.id, input, { expectedRevision: 0 });
+      const error = await repository
+        .addRound(game.id, input, { expectedRevision: 0 })
+        .catch((cause: unknown) => cause);
+
+      expect(error).toBeInstanceOf(GameConflictError);
+      expect((error as GameConflictError).latestGame.revision).toBe(1);
+      expect((await repository.getGameById(game.id))?.rounds).toHaveLength(1);
+    });
+
+    it('rejects invalid input and unknown games without writing', async () => {
+      const game = await createGame();
+
+      await expect(
+        repository.addRound(game.id, { mode: 'add', valuesByPlayerId: {} })
+      ).rejects.toBeInstanceOf(GameValidationError);
+      await expect(repository.finishGame('missing')).rejects.toBeInstanceOf(GameNotFoundError);
+      expect(await repository.getGameById(game.id)).toEqual(game);
+    });
+
+    it('finishes, archives and reopens games', async () => {
+      const game = await createGame();
+
+      await expect(repository.archiveGame(game.id)).rejects.toBeInstanceOf(GameValidationError);
+      expect((await repository.finishGame(game.id)).status).toBe('finished');
+      expect((await repository.archiveGame(game.id)).status).toBe('archived');
+      expect((await repository.reopenGame(game.id)).status).toBe('open');
+    });
+
+    it('moves games to the trash, restores and purges them', async () => {
+      const game = await createGame();
+
+      await expect(repository.purgeGame(game.id)).rejects.toBeInstanceOf(GameValidationError);
+
+      const deleted = await repository.deleteGame(game.id);
+      expect(deleted.deletedAt).toBeDefined();
+      expect(await repository.getGames()).toEqual([]);
+      expect(await repository.getDeletedGames()).toEqual([deleted]);
+
+      await repository.restoreGame(game.id);
+      expect((await repository.getGames()).map((current) => current.id)).toEqual([game.id]);
+
+      await repository.deleteGame(game.id);
+      await repository.purgeGame(game.id);
+      expect(await repository.getGameById(game.id)).toBeUndefined();
+      expect(await repository.getDeletedGames()).toEqual([]);
+    });
+
+    it.skipIf(hasSharedTrashRetention)(
+      'purges only the games past the retention period',
+      async () => {
+        const kept = await createGame();
+        const first = await createGame();
+        const second = await createGame();
+        await repository.deleteGame(first.id);
+        await repository.deleteGame(second.id);
+
+        expect(await repository.purgeExpiredGames(30)).toBe(0);
+        expect(await repository.purgeExpiredGames(0)).toBe(2);
+        expect((await repository.getAppData()).games.map((game) => game.id)).toEqual([kept.id]);
+      }
+    );
+
+    it('imports data by merging or replacing', async () => {
+      const existing = await createGame();
+      const imported = createGameRecord({ players: [{ name: 'Caro' }, { name: 'Dani' }] });
+      const replacement = createGameRecord({ players: [{ name: 'Eli' }, { name: 'Fede' }] });
+
+      const merged = await repository.importAppData(
+        { games: [imported], recentPlayers: [] },
+        'merge'
+      );
+      expect(merged.games.map((game) => game.id).sort()).toEqual(
+        [existing.id, imported.id].sort()
+      );
+
+      await repository.importAppData({ games: [replacement], recentPlayers: [] }, 'replace');
+      expect((await repository.getAppData()).games.map((game) => game.id)).toEqual([
+        replacement.id
+      ]);
+    });
+  });
+}
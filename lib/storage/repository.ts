@@ -2,21 +2,62 @@ import {
   AppData,
   CreateGameInput,
   Game,
+  ImportStrategy,
+  MutationOptions,
+  PlayoffInput,
   PodridaBetsInput,
   PodridaRoundInput,
   RecentPlayer,
   RoundInput
 } from '@/lib/types';
 
+export type RepositoryChangeListener = () => void;
+
 export interface GameRepository {
   getAppData(): Promise<AppData>;
+  /** Games outside the recycle bin, newest first. */
   getGames(): Promise<Game[]>;
+  /** Games in the recycle bin, most recently deleted first. */
+  getDeletedGames(): Promise<Game[]>;
   getGameById(id: string): Promise<Game | undefined>;
   getRecentPlayers(limit?: number): Promise<RecentPlayer[]>;
   createGame(input: CreateGameInput): Promise<Game>;
-  addRound(gameId: string, input: RoundInput): Promise<Game>;
-  setPodridaBets(gameId: string, input: PodridaBetsInput): Promise<Game>;
-  addPodridaRound(gameId: string, input: PodridaRoundInput): Promise<Game>;
-  deleteOpenGame(gameId: string): Promise<void>;
-  finishGame(gameId: string): Promise<Game>;
+  addRound(gameId: string, input: RoundInput, options?: MutationOptions): Promise<Game>;
+  setPodridaBets(
+    gameId: string,
+    input: PodridaBetsInput,
+    options?: MutationOptions
+  ): Promise<Game>;
+  addPodridaRound(
+    gameId: string,
+    input: PodridaRoundInput,
+    options?: MutationOptions
+  ): Promise<Game>;
+  /** Records a playoff between the players still tied; totals don't change. */
+  addPlayoff(gameId: string, input: PlayoffInput, options?: MutationOptions): Promise<Game>;
+  updateRound(
+    gameId: string,
+    roundId: string,
+    input: RoundInput,
+    options?: MutationOptions
+  ): Promise<Game>;
+  deleteRound(gameId: string, roundId: string, options?: MutationOptions): Promise<Game>;
+  /** Moves the game to the recycle bin; it can be restored until it is purged. */
+  deleteGame(gameId: string, options?: MutationOptions): Promise<Game>;
+  restoreGame(gameId: string, options?: MutationOptions): Promise<Game>;
+  /** Permanently removes a game that is already in the recycle bin. */
+  purgeGame(gameId: string, options?: MutationOptions): Promise<void>;
+  /**
+   * Permanently removes games that have been in the recycle bin for `retentionDays` or more. Returns how many were removed.
+   * HttpGameRepository's server ignores `retentionDays` and applies the shared setting.
+   */
+  purgeExpiredGames(retentionDays: number): Promise<number>;
+  finishGame(gameId: string, options?: MutationOptions): Promise<Game>;
+  reopenGame(gameId: string, options?: MutationOptions): Promise<Game>;
+  /** Hides a finished game from the home lists while keeping it in the stored data. */
+  archiveGame(gameId: string, options?: MutationOptions): Promise<Game>;
+  /** Stores games from a backup, either merged by game id or replacing all current data. */
+  importAppData(data: AppData, strategy: ImportStrategy): Promise<AppData>;
+  /** Calls `listener` when another tab or window changes the stored data. Returns an unsubscribe function. */
+  subscribe(listener: RepositoryChangeListener): () => void;
 }
@@ -1,5 +1,14 @@
-export type GameStatus = 'open' | 'finished';
-export type GameType = 'classic' | 'podrida';
+export type GameStatus = 'open' | 'finished' | 'archived';
+export type GameType = 'classic' | 'podrida' | 'truco' | 'chinchon' | 'generala' | 'burako';
+export type ScoringDirection = 'highest-wins' | 'lowest-wins';
+/** `per-team` credits every member with the team's points; `per-player` adds up member totals. */
+export type TeamScoring = 'per-team' | 'per-player';
+export type TieBreakPolicy =
+  | 'shared'
+  | 'most-rounds-won'
+  | 'best-last-round'
+  | 'fewest-missed-bets'
+  | 'playoff';
 
 export interface Player {
   id: string;
@@ -7,20 +16,143 @@ export interface Player {
   color?: string;
 }
 
+export interface Team {
+  id: string;
+  name: string;
+  color?: string;
+  playerIds: string[];
+}
+
+/** `Round.mode` decides how `value` applies: `add` adds it to the total, `set` replaces it. */
 export interface RoundEntry {
+  playerId: string;
+  value: number;
+}
+
+/** Derived by replaying the rounds; never persisted. */
+export interface RoundResultEntry {
   playerId: string;
   delta: number;
   totalAfter: number;
 }
 
+export interface RoundResult {
+  round: Round;
+  entries: RoundResultEntry[];
+}
+
+export interface GameReplay {
+  rounds: RoundResult[];
+  totals: Record<string, number>;
+}
+
+/** A position in the standings; tied competitors share `place`, so places go 1, 1, 3. */
+export interface Standing<T extends { id: string } = Player> {
+  competitor: T;
+  total: number;
+  place: number;
+}
+
+export interface PlayoffRecord {
+  id: string;
+  createdAt: string;
+  scoresById: Record<string, number>;
+}
+
 export interface Round {
   id: string;
   createdAt: string;
   mode: 'add' | 'set';
   entries: RoundEntry[];
-  type?: 'classic' | 'podrida';
+  type?: GameType;
   cardsCount?: number;
   betsByPlayerId?: Record<string, number>;
+  tricksByPlayerId?: Record<string, number>;
+  dealerId?: string;
+  chinchon?: ChinchonRoundDetails;
+  generala?: GeneralaRoundDetails;
+  burako?: BurakoRoundDetails;
+}
+
+export type EndCondition =
+  | { type: 'sequence-complete' }
+  | { type: 'target-score'; target: number }
+  | { type: 'round-limit'; rounds: number }
+  | { type: 'last-player-standing' }
+  | { type: 'scorecard-complete' };
+
+export type PodridaSequenceShape = 'up-down' | 'up-only';
+
+export interface PodridaSettings {
+  hitBonus: number;
+  pointsPerTrick: number;
+  /** The dealer bets last and may not make the sum of bets equal the cards dealt. */
+  dealerCannotMatchCards: boolean;
+  deckSize: number;
+  startCards: number;
+  sequence: PodridaSequenceShape;
+  repeatMaxPerPlayer: boolean;
+}
+
+export interface TrucoSettings {
+  /** 15 or 30; at 30 the first half are "malas" and the second half "buenas". */
+  target: number;
+}
+
+export interface ChinchonSettings {
+  eliminationScore: number;
+  /** House rule: an eliminated player may rejoin at the highest score still in play. */
+  allowReentry: boolean;
+}
+
+export interface ChinchonRoundDetails {
+  closedById?: string;
+  isChinchon?: boolean;
+  reentryPlayerId?: string;
+}
+
+export type GeneralaCategory =
+  | 'ones'
+  | 'twos'
+  | 'threes'
+  | 'fours'
+  | 'fives'
+  | 'sixes'
+  | 'straight'
+  | 'full-house'
+  | 'four-of-a-kind'
+  | 'generala'
+  | 'double-generala';
+
+export interface GeneralaRoundDetails {
+  category: GeneralaCategory;
+  served?: boolean;
+  scratched?: boolean;
+}
+
+export interface GeneralaRoundInput {
+  playerId: string;
+  category: GeneralaCategory;
+  dice?: number;
+  served?: boolean;
+  scratched?: boolean;
+}
+
+export interface BurakoSettings {
+  target: number;
+}
+
+/** What one team scored in a Burako round; the net score is what gets stored as its entry. */
+export interface BurakoScoreParts {
+  cardsPoints: number;
+  cleanCanastas: number;
+  dirtyCanastas: number;
+  closed: boolean;
+  handPenalty: number;
+}
+
+export interface BurakoRoundDetails {
+  partsByTeamId: Record<string, BurakoScoreParts>;
 }
 
 export interface PodridaState {
@@ -32,12 +164,30 @@ export interface Game {
   name?: string;
   type: GameType;
   players: Player[];
+  seatingOrder?: string[];
+  startingDealerId?: string;
   rounds: Round[];
   status: GameStatus;
   createdAt: string;
   updatedAt: string;
   finishedAt?: string;
+  endCondition?: EndCondition;
+  /** Missing in games stored before it existed, which means the highest total wins. */
+  scoringDirection?: ScoringDirection;
+  winnerIds?: string[];
+  tieBreak?: TieBreakPolicy;
+  playoffs?: PlayoffRecord[];
+  archivedAt?: string;
+  deletedAt?: string;
   podridaState?: PodridaState;
+  podridaSettings?: PodridaSettings;
+  teams?: Team[];
+  /** Missing in team games stored before it existed, which were all scored per team. */
+  teamScoring?: TeamScoring;
+  trucoSettings?: TrucoSettings;
+  chinchonSettings?: ChinchonSettings;
+  burakoSettings?: BurakoSettings;
+  revision: number;
 }
 
 export interface RecentPlayer {
@@ -52,20 +202,46 @@ export interface AppData {
   recentPlayers: RecentPlayer[];
 }
 
+export type ImportStrategy = 'merge' | 'replace';
+
 export interface NewPlayerInput {
   name: string;
   color?: string;
+  teamIndex?: number;
+}
+
+export interface NewTeamInput {
+  name: string;
+  color?: string;
 }
 
 export interface CreateGameInput {
   name?: string;
   players: NewPlayerInput[];
   type?: GameType;
+  startingDealerIndex?: number;
+  endCondition?: EndCondition;
+  scoringDirection?: ScoringDirection;
+  tieBreak?: TieBreakPolicy;
+  teams?: NewTeamInput[];
+  teamScoring?: TeamScoring;
+  podridaSettings?: Partial<PodridaSettings>;
+  trucoSettings?: Partial<TrucoSettings>;
+  chinchonSettings?: Partial<ChinchonSettings>;
+  burakoSettings?: Partial<BurakoSettings>;
 }
 
 export interface RoundInput {
   mode: 'add' | 'set';
   valuesByPlayerId: Record<string, number>;
+  valuesByTeamId?: Record<string, number>;
+  chinchon?: ChinchonRoundDetails;
+  generala?: GeneralaRoundInput;
+  burako?: BurakoRoundDetails;
+}
+
+export interface PlayoffInput {
+  scoresById: Record<string, number>;
 }
 
 export interface PodridaBetsInput {
@@ -73,5 +249,12 @@ export interface PodridaBetsInput {
 }
 
 export interface PodridaRoundInput {
-  totalsByPlayerId: Record<string, number>;
+  tricksByPlayerId?: Record<string, number>;
+  /** Manual override: each player's new accumulated total. Used when `tricksByPlayerId` is missing. */
+  totalsByPlayerId?: Record<string, number>;
+  force?: boolean;
+}
+
+export interface MutationOptions {
+  expectedRevision?: number;
 }
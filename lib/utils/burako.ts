@@ -0,0 +1,49 @@
+import { BurakoScoreParts, BurakoSettings, Game } from '@/lib/types';
+
+export const BURAKO_PLAYER_COUNTS = [2, 4, 6];
+export const BURAKO_CLEAN_CANASTA_POINTS = 200;
+export const BURAKO_DIRTY_CANASTA_POINTS = 100;
+export const BURAKO_CLOSING_BONUS = 100;
+
+export const DEFAULT_BURAKO_SETTINGS: BurakoSettings = {
+  target: 3000
+};
+
+export function getBurakoSettings(game: Game): BurakoSettings {
+  return {
+    ...DEFAULT_BURAKO_SETTINGS,
+    ...game.burakoSettings
+  };
+}
+
+export function getBurakoNetScore(parts: BurakoScoreParts): number {
+  return (
+    parts.cardsPoints +
+    parts.cleanCanastas * BURAKO_CLEAN_CANASTA_POINTS +
+    parts.dirtyCanastas * BURAKO_DIRTY_CANASTA_POINTS +
+    (parts.closed ? BURAKO_CLOSING_BONUS : 0) -
+    parts.handPenalty
+  );
+}
+
+export function getBurakoBreakdownLabel(parts: BurakoScoreParts): string {
+  const pieces = [`${parts.cardsPoints} en mesa`];
+
+  if (parts.cleanCanastas > 0) {
+    pieces.push(`${parts.cleanCanastas} limpia${parts.cleanCanastas === 1 ? '' : 's'}`);
+  }
+
+  if (parts.dirtyCanastas > 0) {
+    pieces.push(`${parts.dirtyCanastas} sucia${parts.dirtyCanastas === 1 ? '' : 's'}`);
+  }
+
+  if (parts.closed) {
+    pieces.push('cortó');
+  }
+
+  if (parts.handPenalty > 0) {
+    pieces.push(`-${parts.handPenalty} en mano`);
+  }
+
+  return pieces.join(' · ');
+}
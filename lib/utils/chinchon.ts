@@ -0,0 +1,92 @@
+import { ChinchonSettings, Game, Player, Round, Standing } from '@/lib/types';
+import { applyRound, toStandings } from '@/lib/utils/game';
+
+/** Points for closing the hand with nothing left unmatched. */
+export const CHINCHON_CLOSING_BONUS = -10;
+
+export const DEFAULT_CHINCHON_SETTINGS: ChinchonSettings = {
+  eliminationScore: 100,
+  allowReentry: true
+};
+
+export interface ChinchonStatus {
+  totals: Record<string, number>;
+  eliminatedIds: string[];
+  /** Set once someone makes chinchón; the game is over. */
+  chinchonWinnerId?: string;
+}
+
+export function getChinchonSettings(game: Game): ChinchonSettings {
+  return {
+    ...DEFAULT_CHINCHON_SETTINGS,
+    ...game.chinchonSettings
+  };
+}
+
+/** Replays `rounds` (all of them by default) tracking who is out and who came back. */
+export function getChinchonStatus(game: Game, rounds: Round[] = game.rounds): ChinchonStatus {
+  const { eliminationScore } = getChinchonSettings(game);
+  const eliminatedIds = new Set<string>();
+  const totals: Record<string, number> = {};
+  let chinchonWinnerId: string | undefined;
+
+  for (const round of rounds) {
+    for (const entry of applyRound(totals, round).entries) {
+      totals[entry.playerId] = entry.totalAfter;
+    }
+
+    if (round.chinchon?.reentryPlayerId) {
+      eliminatedIds.delete(round.chinchon.reentryPlayerId);
+      continue;
+    }
+
+    if (round.chinchon?.isChinchon && round.chinchon.closedById) {
+      chinchonWinnerId = round.chinchon.closedById;
+    }
+
+    for (const player of game.players) {
+      if ((totals[player.id] ?? 0) > eliminationScore) {
+        eliminatedIds.add(player.id);
+      }
+    }
+  }
+
+  return {
+    totals,
+    eliminatedIds: game.players
+      .filter((player) => eliminatedIds.has(player.id))
+      .map((player) => player.id),
+    chinchonWinnerId
+  };
+}
+
+export function getActiveChinchonPlayers(game: Game, status: ChinchonStatus): Player[] {
+  return game.players.filter((player) => !status.eliminatedIds.includes(player.id));
+}
+
+/** The chinchón winner first, then players still in from lowest total, then the eliminated. */
+export function getChinchonStandings(game: Game, status: ChinchonStatus): Standing[] {
+  const getGroup = (player: Player) => {
+    if (player.id === status.chinchonWinnerId) {
+      return 0;
+    }
+
+    return status.eliminatedIds.includes(player.id) ? 2 : 1;
+  };
+
+  return toStandings(
+    game.players,
+    status.totals,
+    (a, b) =>
+      getGroup(a) - getGroup(b) || (status.totals[a.id] ?? 0) - (status.totals[b.id] ?? 0)
+  );
+}
+
+/** A re-entering player starts again at the highest score still in play. */
+export function getChinchonReentryScore(game: Game, status: ChinchonStatus): number {
+  const activeTotals = getActiveChinchonPlayers(game, status).map(
+    (player) => status.totals[player.id] ?? 0
+  );
+
+  return activeTotals.length > 0 ? Math.max(...activeTotals) : 0;
+}
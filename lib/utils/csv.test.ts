@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { addRoundToGame, createGameRecord } from '@/lib/storage/game-mutations';
+import { gamesToCsv, gameToCsv } from '@/lib/utils/csv';
+
+function parseRows(csv: string): string[][] {
+  return csv
+    .replace(/^\uFEFF/, '')
+    .split('\r\n')
+    .map((row) => row.split(','));
+}
+
+describe('CSV export', () => {
+  it('keeps names that look like formulas as text', () => {
+    const game = createGameRecord({
+      name: '=HYPERLINK("http://example.com")',
+      players: [{ name: '+Ana' }, { name: '@Beto' }, { name: '-Caro' }]
+    });
+    const rows = parseRows(gamesToCsv([game]));
+
+    expect(rows[1][0]).toBe(`"'=HYPERLINK(""http://example.com"")"`);
+    expect(parseRows(gameToCsv(game))[0].slice(3)).toEqual([
+      "'+Ana puntos",
+      "'+Ana total",
+      "'@Beto puntos",
+      "'@Beto total",
+      "'-Caro puntos",
+      "'-Caro total"
+    ]);
+  });
+
+  it('writes negative scores as numbers', () => {
+    const created = createGameRecord({ players: [{ name: 'Ana' }, { name: 'Beto' }] });
+    const [ana, beto] = created.players;
+    const game = addRoundToGame(created, {
+      mode: 'add',
+      valuesByPlayerId: { [ana.id]: -3, [beto.id]: 2 }
+    });
+    const [, round] = parseRows(gameToCsv(game));
+
+    expect(round.slice(3)).toEqual(['-3', '-3', '2', '2']);
+  });
+});
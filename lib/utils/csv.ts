@@ -0,0 +1,172 @@
+import { getGameType, getGameTypeLabel, getStandings } from '@/lib/game-types';
+import { Game, Player, Standing, Team } from '@/lib/types';
+import {
+  getGameDisplayName,
+  getGameStatusLabel,
+  getGameTotals,
+  getTeamStandings,
+  replayGame
+} from '@/lib/utils/game';
+
+type CsvValue = string | number | undefined;
+
+// Lets spreadsheet apps detect UTF-8 so accents and ñ survive the import.
+const UTF8_BOM = '\uFEFF';
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === undefined) {
+    return '';
+  }
+
+  // Spreadsheets run text starting with these characters as a formula; the quote keeps it as text.
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: CsvValue[][]): string {
+  return UTF8_BOM + rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+function toFileSlug(value: string): string {
+  return (
+    value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'partida'
+  );
+}
+
+export function getGameCsvFileName(game: Game): string {
+  return `${toFileSlug(getGameDisplayName(game))}.csv`;
+}
+
+export function getGamesCsvFileName(date = new Date()): string {
+  return `partidas-${date.toISOString().slice(0, 10)}.csv`;
+}
+
+export function gameToCsv(game: Game): string {
+  const isPodrida = getGameType(game) === 'podrida';
+  const header: CsvValue[] = ['Ronda', 'Fecha', 'Modo'];
+
+  if (isPodrida) {
+    header.push('Cartas');
+  }
+
+  for (const player of game.players) {
+    if (isPodrida) {
+      header.push(`${player.name} apuesta`);
+    }
+
+    header.push(`${player.name} puntos`, `${player.name} total`);
+  }
+
+  const rows: CsvValue[][] = [header];
+  const replay = replayGame(game);
+
+  game.rounds.forEach((round, index) => {
+    const entriesByPlayerId = new Map(
+      replay.rounds[index].entries.map((entry) => [entry.playerId, entry])
+    );
+    const row: CsvValue[] = [
+      index + 1,
+      round.createdAt,
+      round.mode === 'add' ? 'Sumar' : 'Fijar total'
+    ];
+
+    if (isPodrida) {
+      row.push(round.cardsCount);
+    }
+
+    for (const player of game.players) {
+      const entry = entriesByPlayerId.get(player.id);
+
+      if (isPodrida) {
+        row.push(round.betsByPlayerId?.[player.id]);
+      }
+
+      row.push(entry?.delta, entry?.totalAfter);
+    }
+
+    rows.push(row);
+  });
+
+  const totals = replay.totals;
+  const totalsRow: CsvValue[] = ['Total final', '', ''];
+
+  if (isPodrida) {
+    totalsRow.push('');
+  }
+
+  for (const player of game.players) {
+    if (isPodrida) {
+      totalsRow.push('');
+    }
+
+    totalsRow.push('', totals[player.id] ?? 0);
+  }
+
+  rows.push(totalsRow, [], ['Posición', 'Jugador', 'Total']);
+
+  for (const { competitor: player, total, place } of getStandings(game)) {
+    rows.push([place, player.name, total]);
+  }
+
+  if (game.teams?.length) {
+    const playersById = new Map(game.players.map((player) => [player.id, player]));
+
+    rows.push([], ['Posición', 'Equipo', 'Total', 'Integrantes']);
+
+    for (const { competitor: team, total, place } of getTeamStandings(game)) {
+      rows.push([
+        place,
+        team.name,
+        total,
+        team.playerIds.map((playerId) => playersById.get(playerId)?.name).join('; ')
+      ]);
+    }
+  }
+
+  return toCsv(rows);
+}
+
+export function gamesToCsv(games: Game[]): string {
+  const rows: CsvValue[][] = [
+    [
+      'Partida',
+      'Tipo',
+      'Estado',
+      'Creada',
+      'Finalizada',
+      'Jugadores',
+      'Rondas',
+      'Líder',
+      'Puntaje líder',
+      'Totales'
+    ]
+  ];
+
+  for (const game of games) {
+    const totals = getGameTotals(game);
+    const standings: Standing<Player | Team>[] = game.teams?.length
+      ? getTeamStandings(game)
+      : getStandings(game);
+    const leaders = standings.filter((standing) => standing.place === 1);
+
+    rows.push([
+      getGameDisplayName(game),
+      getGameTypeLabel(getGameType(game)),
+      getGameStatusLabel(game.status),
+      game.createdAt,
+      game.finishedAt,
+      game.players.length,
+      game.rounds.length,
+      leaders.map(({ competitor }) => competitor.name).join(' / ') || undefined,
+      leaders[0]?.total,
+      game.players.map((player) => `${player.name}: ${totals[player.id] ?? 0}`).join('; ')
+    ]);
+  }
+
+  return toCsv(rows);
+}
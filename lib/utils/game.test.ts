@@ -0,0 +1,435 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addPlayoffToGame,
+  addRoundToGame,
+  createGameRecord,
+  deleteRoundFromGame,
+  updateRoundInGame
+} from '@/lib/storage/game-mutations';
+import {
+  Game,
+  PodridaSettings,
+  Round,
+  RoundInput,
+  TeamScoring,
+  TieBreakPolicy
+} from '@/lib/types';
+import {
+  applyRound,
+  compareTotals,
+  DEFAULT_PODRIDA_SETTINGS,
+  getDealerForRound,
+  getForbiddenDealerBet,
+  getGameTotals,
+  getGameWinners,
+  getPlayerStandings,
+  getPodridaCardsSequence,
+  getPodridaRoundScore,
+  getRoundTeamDeltas,
+  getSuspectPodridaTricks,
+  getTeamTotals,
+  getTurnOrder,
+  replayGame,
+  toStandings
+} from '@/lib/utils/game';
+
+function createClassicGame(names: string[], startingDealerIndex?: number): Game {
+  return createGameRecord({ players: names.map((name) => ({ name })), startingDealerIndex });
+}
+
+function createPodridaGame(names: string[], settings: Partial<PodridaSettings> = {}): Game {
+  return createGameRecord({
+    type: 'podrida',
+    players: names.map((name) => ({ name })),
+    podridaSettings: settings
+  });
+}
+
+function toRoundInput(game: Game, mode: Round['mode'], values: number[]): RoundInput {
+  const valuesByPlayerId: Record<string, number> = {};
+  game.players.forEach((player, index) => {
+    if (values[index] !== undefined) {
+      valuesByPlayerId[player.id] = values[index];
+    }
+  });
+
+  return { mode, valuesByPlayerId };
+}
+
+function addScores(game: Game, mode: Round['mode'], values: number[]): Game {
+  return addRoundToGame(game, toRoundInput(game, mode, values));
+}
+
+describe('applyRound', () => {
+  const round: Round = {
+    id: 'round',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    mode: 'add',
+    entries: [
+      { playerId: 'ana', value: 5 },
+      { playerId: 'beto', value: -2 }
+    ]
+  };
+
+  it('adds each entry to the running total', () => {
+    expect(applyRound({ ana: 10 }, round).entries).toEqual([
+      { playerId: 'ana', delta: 5, totalAfter: 15 },
+      { playerId: 'beto', delta: -2, totalAfter: -2 }
+    ]);
+  });
+
+  it('replaces the total on a set round and reports the difference as the delta', () => {
+    expect(applyRound({ ana: 10, beto: 4 }, { ...round, mode: 'set' }).entries).toEqual([
+      { playerId: 'ana', delta: -5, totalAfter: 5 },
+      { playerId: 'beto', delta: -6, totalAfter: -2 }
+    ]);
+  });
+
+  it('leaves the given totals untouched', () => {
+    const totals = { ana: 10 };
+    applyRound(totals, round);
+    expect(totals).toEqual({ ana: 10 });
+  });
+});
+
+describe('replayGame', () => {
+  it('starts every player at zero', () => {
+    const game = createClassicGame(['Ana', 'Beto']);
+    const [ana, beto] = game.players;
+
+    expect(replayGame(game)).toEqual({ rounds: [], totals: { [ana.id]: 0, [beto.id]: 0 } });
+  });
+
+  it('keeps adding on top of a set round', () => {
+    let game = createClassicGame(['Ana', 'Beto']);
+    game = addScores(game, 'add', [10, 4]);
+    game = addScores(game, 'set', [3]);
+    game = addScores(game, 'add', [2, 1]);
+    const [ana, beto] = game.players;
+
+    const { rounds, totals } = replayGame(game);
+
+    expect(totals).toEqual({ [ana.id]: 5, [beto.id]: 5 });
+    expect(rounds.map((result) => result.entries)).toEqual([
+      [
+        { playerId: ana.id, delta: 10, totalAfter: 10 },
+        { playerId: beto.id, delta: 4, totalAfter: 4 }
+      ],
+      [{ playerId: ana.id, delta: -7, totalAfter: 3 }],
+      [
+        { playerId: ana.id, delta: 2, totalAfter: 5 },
+        { playerId: beto.id, delta: 1, totalAfter: 5 }
+      ]
+    ]);
+  });
+
+  it('recomputes later snapshots after a round is edited', () => {
+    let game = createClassicGame(['Ana', 'Beto']);
+    game = addScores(game, 'add', [10, 4]);
+    game = addScores(game, 'add', [2, 1]);
+    const [ana, beto] = game.players;
+
+    game = updateRoundInGame(game, game.rounds[0].id, toRoundInput(game, 'add', [1, 6]));
+
+    expect(getGameTotals(game)).toEqual({ [ana.id]: 3, [beto.id]: 7 });
+    expect(replayGame(game).rounds[1].entries).toEqual([
+      { playerId: ana.id, delta: 2, totalAfter: 3 },
+      { playerId: beto.id, delta: 1, totalAfter: 7 }
+    ]);
+  });
+
+  it('recomputes the deltas after a set round when an earlier round is deleted', () => {
+    let game = createClassicGame(['Ana', 'Beto']);
+    game = addScores(game, 'add', [10, 4]);
+    game = addScores(game, 'set', [12, 12]);
+    game = addScores(game, 'add', [1, 2]);
+    const [ana, beto] = game.players;
+
+    game = deleteRoundFromGame(game, game.rounds[0].id);
+    const { rounds, totals } = replayGame(game);
+
+    expect(totals).toEqual({ [ana.id]: 13, [beto.id]: 14 });
+    expect(rounds[0].entries).toEqual([
+      { playerId: ana.id, delta: 12, totalAfter: 12 },
+      { playerId: beto.id, delta: 12, totalAfter: 12 }
+    ]);
+    expect(rounds[1].entries).toEqual([
+      { playerId: ana.id, delta: 1, totalAfter: 13 },
+      { playerId: beto.id, delta: 2, totalAfter: 14 }
+    ]);
+  });
+});
+
+describe('getPodridaRoundScore', () => {
+  const settings = { ...DEFAULT_PODRIDA_SETTINGS, hitBonus: 10, pointsPerTrick: 3 };
+
+  it('adds the hit bonus only when the tricks match the bet', () => {
+    expect(getPodridaRoundScore(2, 2, settings)).toBe(16);
+    expect(getPodridaRoundScore(0, 0, settings)).toBe(10);
+    expect(getPodridaRoundScore(2, 1, settings)).toBe(3);
+    expect(getPodridaRoundScore(1, 3, settings)).toBe(9);
+  });
+});
+
+describe('getForbiddenDealerBet', () => {
+  // Ana deals the first round, with 3 cards, and bets last.
+  const game = createPodridaGame(['Ana', 'Beto', 'Caro']);
+  const [, beto, caro] = game.players;
+
+  it('forbids the bet that would make the bets add up to the cards dealt', () => {
+    expect(getForbiddenDealerBet(game, { [beto.id]: 1, [caro.id]: 1 })).toBe(1);
+    expect(getForbiddenDealerBet(game, { [beto.id]: 0, [caro.id]: 0 })).toBe(3);
+  });
+
+  it('forbids nothing when the others already bet more than the cards dealt', () => {
+    expect(getForbiddenDealerBet(game, { [beto.id]: 2, [caro.id]: 2 })).toBeNull();
+  });
+
+  it('waits until everyone but the dealer has bet', () => {
+    expect(getForbiddenDealerBet(game, { [beto.id]: 1 })).toBeNull();
+  });
+
+  it('forbids nothing when the rule is off', () => {
+    const withoutRule = createPodridaGame(['Ana', 'Beto', 'Caro'], {
+      dealerCannotMatchCards: false
+    });
+    const [, otherBeto, otherCaro] = withoutRule.players;
+
+    expect(getForbiddenDealerBet(withoutRule, { [otherBeto.id]: 1, [otherCaro.id]: 1 })).toBeNull();
+  });
+});
+
+describe('dealer rotation', () => {
+  function getNames(players: { name: string }[]): string[] {
+    return players.map((player) => player.name);
+  }
+
+  it('rotates the dealer from the starting one and wraps around the table', () => {
+    const game = createClassicGame(['Ana', 'Beto', 'Caro'], 1);
+    const dealers = [0, 1, 2, 3].map((roundIndex) => getDealerForRound(game, roundIndex)?.name);
+
+    expect(dealers).toEqual(['Beto', 'Caro', 'Ana', 'Beto']);
+  });
+
+  it('starts the turn order after the dealer and leaves the dealer last', () => {
+    const game = createClassicGame(['Ana', 'Beto', 'Caro'], 1);
+
+    expect(getNames(getTurnOrder(game))).toEqual(['Caro', 'Ana', 'Beto']);
+  });
+
+  it('moves the turn order with the dealer after each round', () => {
+    let game = createClassicGame(['Ana', 'Beto', 'Caro'], 2);
+    expect(getNames(getTurnOrder(game))).toEqual(['Ana', 'Beto', 'Caro']);
+
+    game = addScores(game, 'add', [1]);
+    expect(game.rounds[0].dealerId).toBe(game.players[2].id);
+    expect(getNames(getTurnOrder(game))).toEqual(['Beto', 'Caro', 'Ana']);
+  });
+});
+
+describe('getPodridaCardsSequence', () => {
+  function withSettings(settings: Partial<PodridaSettings>): PodridaSettings {
+    return { ...DEFAULT_PODRIDA_SETTINGS, ...settings };
+  }
+
+  it('goes up from 3 to the max and back down to 1 by default', () => {
+    expect(getPodridaCardsSequence(4)).toEqual([
+      3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 11, 10, 9, 8, 7, 6, 5, 4, 3, 2, 1
+    ]);
+  });
+
+  it('only goes up with a 40-card deck starting at 1', () => {
+    expect(
+      getPodridaCardsSequence(4, withSettings({ deckSize: 40, startCards: 1, sequence: 'up-only' }))
+    ).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it('repeats the max round once per player', () => {
+    const settings = withSettings({ deckSize: 40, startCards: 8, repeatMaxPerPlayer: true });
+
+    expect(getPodridaCardsSequence(4, settings)).toEqual([
+      8, 9, 10, 10, 10, 10, 9, 8, 7, 6, 5, 4, 3, 2, 1
+    ]);
+  });
+
+  it('starts at the max when the first round asks for more cards than there are', () => {
+    expect(getPodridaCardsSequence(6, withSettings({ deckSize: 40, startCards: 8 }))).toEqual([
+      6, 5, 4, 3, 2, 1
+    ]);
+  });
+
+  it('is empty without players', () => {
+    expect(getPodridaCardsSequence(0)).toEqual([]);
+  });
+});
+
+describe('getSuspectPodridaTricks', () => {
+  const bets = { ana: 1, beto: 2, caro: 0 };
+
+  it('flags nobody when the tricks add up to the cards dealt', () => {
+    expect(getSuspectPodridaTricks(3, bets, { ana: 0, beto: 3, caro: 0 })).toEqual([]);
+  });
+
+  it('flags the players over their bet when there are too many tricks', () => {
+    expect(getSuspectPodridaTricks(3, bets, { ana: 2, beto: 2, caro: 1 })).toEqual(['ana', 'caro']);
+  });
+
+  it('flags the players under their bet when there are too few tricks', () => {
+    expect(getSuspectPodridaTricks(3, bets, { ana: 1, beto: 1, caro: 0 })).toEqual(['beto']);
+  });
+
+  it('counts a missing bet as 0', () => {
+    expect(getSuspectPodridaTricks(3, {}, { ana: 4, beto: 0 })).toEqual(['ana']);
+  });
+});
+
+describe('scoring direction', () => {
+  it('puts the better total first for each direction', () => {
+    expect([3, 10, 7].sort((a, b) => compareTotals({}, a, b))).toEqual([10, 7, 3]);
+    expect(
+      [3, 10, 7].sort((a, b) => compareTotals({ scoringDirection: 'lowest-wins' }, a, b))
+    ).toEqual([3, 7, 10]);
+  });
+
+  it('ranks the lowest total first when the lowest wins', () => {
+    let game = createGameRecord({
+      players: [{ name: 'Ana' }, { name: 'Beto' }, { name: 'Caro' }],
+      scoringDirection: 'lowest-wins'
+    });
+    game = addScores(game, 'add', [12, -4, 5]);
+    const standings = getPlayerStandings(game).map((standing) => [
+      standing.competitor.name,
+      standing.total
+    ]);
+
+    expect(standings).toEqual([
+      ['Beto', -4],
+      ['Caro', 5],
+      ['Ana', 12]
+    ]);
+    expect(getGameWinners(game).map((player) => player.name)).toEqual(['Beto']);
+  });
+});
+
+describe('team scores', () => {
+  function createTeamGame(teamScoring: TeamScoring): Game {
+    return createGameRecord({
+      players: [
+        { name: 'Ana', teamIndex: 0 },
+        { name: 'Beto', teamIndex: 1 },
+        { name: 'Caro', teamIndex: 0 },
+        { name: 'Dani', teamIndex: 1 }
+      ],
+      teams: [{ name: 'Nosotros' }, { name: 'Ellos' }],
+      teamScoring
+    });
+  }
+
+  it('credits each team its own value when scored per team', () => {
+    let game = createTeamGame('per-team');
+    const [nosotros, ellos] = game.teams ?? [];
+    game = addRoundToGame(game, {
+      mode: 'add',
+      valuesByPlayerId: {},
+      valuesByTeamId: { [nosotros.id]: 6, [ellos.id]: 2 }
+    });
+    game = addRoundToGame(game, {
+      mode: 'add',
+      valuesByPlayerId: {},
+      valuesByTeamId: { [nosotros.id]: 1 }
+    });
+    const [, secondRound] = replayGame(game).rounds;
+
+    expect(getTeamTotals(game)).toEqual({ [nosotros.id]: 7, [ellos.id]: 2 });
+    expect(getRoundTeamDeltas(game, secondRound)).toEqual({ [nosotros.id]: 1 });
+  });
+
+  it('adds up the members when scored per player', () => {
+    let game = createTeamGame('per-player');
+    const [nosotros, ellos] = game.teams ?? [];
+    game = addScores(game, 'add', [3, 1, 4, 2]);
+    game = addScores(game, 'set', [0, 5]);
+    const [firstRound, secondRound] = replayGame(game).rounds;
+
+    expect(getTeamTotals(game)).toEqual({ [nosotros.id]: 4, [ellos.id]: 7 });
+    expect(getRoundTeamDeltas(game, firstRound)).toEqual({ [nosotros.id]: 7, [ellos.id]: 3 });
+    expect(getRoundTeamDeltas(game, secondRound)).toEqual({ [nosotros.id]: -3, [ellos.id]: 4 });
+  });
+});
+
+describe('toStandings', () => {
+  it('gives competitors the comparator cannot split the same place and skips the next ones', () => {
+    const totals: Record<string, number> = { a: 5, b: 3, c: 5, d: 1 };
+    const standings = toStandings(
+      [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }],
+      totals,
+      (first, second) => totals[second.id] - totals[first.id]
+    );
+
+    expect(standings.map((standing) => [standing.competitor.id, standing.place])).toEqual([
+      ['a', 1],
+      ['c', 1],
+      ['b', 3],
+      ['d', 4]
+    ]);
+  });
+});
+
+describe('tie-break policies', () => {
+  // Ana and Beto end on 6: Beto won more rounds, Ana won the last one.
+  function createTiedGame(tieBreak: TieBreakPolicy): Game {
+    let game = createGameRecord({
+      players: [{ name: 'Ana' }, { name: 'Beto' }, { name: 'Caro' }],
+      tieBreak
+    });
+    game = addScores(game, 'add', [0, 2, 1]);
+    game = addScores(game, 'add', [1, 3, 0]);
+    return addScores(game, 'add', [5, 1, 2]);
+  }
+
+  function getPlaces(game: Game): [string, number][] {
+    return getPlayerStandings(game).map((standing) => [standing.competitor.name, standing.place]);
+  }
+
+  it('shares the place and leaves the next one empty', () => {
+    expect(getPlaces(createTiedGame('shared'))).toEqual([
+      ['Ana', 1],
+      ['Beto', 1],
+      ['Caro', 3]
+    ]);
+  });
+
+  it('breaks the tie by rounds won', () => {
+    expect(getPlaces(createTiedGame('most-rounds-won'))).toEqual([
+      ['Beto', 1],
+      ['Ana', 2],
+      ['Caro', 3]
+    ]);
+  });
+
+  it('breaks the tie by the last round', () => {
+    expect(getPlaces(createTiedGame('best-last-round'))).toEqual([
+      ['Ana', 1],
+      ['Beto', 2],
+      ['Caro', 3]
+    ]);
+  });
+
+  it('keeps the tie until a playoff is played', () => {
+    const game = createTiedGame('playoff');
+    const [ana, beto] = game.players;
+
+    expect(getPlaces(game)).toEqual([
+      ['Ana', 1],
+      ['Beto', 1],
+      ['Caro', 3]
+    ]);
+
+    const withPlayoff = addPlayoffToGame(game, { scoresById: { [ana.id]: 2, [beto.id]: 7 } });
+    expect(getPlaces(withPlayoff)).toEqual([
+      ['Beto', 1],
+      ['Ana', 2],
+      ['Caro', 3]
+    ]);
+  });
+});
@@ -1,68 +1,545 @@
-import { Game, GameType, Round } from '@/lib/types';
+import {
+  EndCondition,
+  Game,
+  GameReplay,
+  GameStatus,
+  Player,
+  PodridaSettings,
+  Round,
+  RoundResult,
+  ScoringDirection,
+  Standing,
+  Team,
+  TeamScoring,
+  TieBreakPolicy
+} from '@/lib/types';
 
-const PODRIDA_DECK_SIZE = 48;
-const PODRIDA_START_CARDS = 3;
+export const PODRIDA_DECK_SIZES = [48, 40];
+export const DEFAULT_TEAM_NAMES = ['Nosotros', 'Ellos'];
+export const DEFAULT_TEAM_COLORS = ['#2f6fd6', '#d64545', '#c98a1b', '#7a4fd1', '#2f8f6a', '#d6457f'];
+export const SCORING_DIRECTIONS: ScoringDirection[] = ['highest-wins', 'lowest-wins'];
+export const TIE_BREAK_POLICIES: TieBreakPolicy[] = [
+  'shared',
+  'most-rounds-won',
+  'best-last-round',
+  'fewest-missed-bets',
+  'playoff'
+];
 
-export function getGameType(game: Game): GameType {
-  return game.type === 'podrida' ? 'podrida' : 'classic';
+export const DEFAULT_PODRIDA_SETTINGS: PodridaSettings = {
+  hitBonus: 10,
+  pointsPerTrick: 1,
+  dealerCannotMatchCards: true,
+  deckSize: 48,
+  startCards: 3,
+  sequence: 'up-down',
+  repeatMaxPerPlayer: false
+};
+
+export function applyRound(totals: Record<string, number>, round: Round): RoundResult {
+  const runningTotals = { ...totals };
+  const entries = round.entries.map((entry) => {
+    const previousTotal = runningTotals[entry.playerId] ?? 0;
+    const totalAfter = round.mode === 'set' ? entry.value : previousTotal + entry.value;
+
+    runningTotals[entry.playerId] = totalAfter;
+
+    return {
+      playerId: entry.playerId,
+      delta: totalAfter - previousTotal,
+      totalAfter
+    };
+  });
+
+  return {
+    round,
+    entries
+  };
 }
 
-export function getGameTotals(game: Game): Record<string, number> {
+/** Single source of truth for scores: every total and per-round snapshot comes from here. */
+export function replayGame(game: Game): GameReplay {
   const totals: Record<string, number> = {};
+  const rounds: RoundResult[] = [];
 
   for (const player of game.players) {
     totals[player.id] = 0;
   }
 
   for (const round of game.rounds) {
-    for (const entry of round.entries) {
+    const result = applyRound(totals, round);
+
+    for (const entry of result.entries) {
       totals[entry.playerId] = entry.totalAfter;
     }
+
+    rounds.push(result);
+  }
+
+  return {
+    rounds,
+    totals
+  };
+}
+
+export function getGameTotals(game: Game): Record<string, number> {
+  return replayGame(game).totals;
+}
+
+export function getScoringDirection(game: Pick<Game, 'scoringDirection'>): ScoringDirection {
+  return game.scoringDirection === 'lowest-wins' ? 'lowest-wins' : 'highest-wins';
+}
+
+export function getScoringDirectionLabel(direction: ScoringDirection): string {
+  return direction === 'lowest-wins' ? 'Gana el puntaje más bajo' : 'Gana el puntaje más alto';
+}
+
+/** Sort comparator for totals: negative when `a` is the better total for the game. */
+export function compareTotals(game: Pick<Game, 'scoringDirection'>, a: number, b: number): number {
+  return getScoringDirection(game) === 'lowest-wins' ? a - b : b - a;
+}
+
+export function getTieBreakPolicy(game: Pick<Game, 'tieBreak'>): TieBreakPolicy {
+  return game.tieBreak && TIE_BREAK_POLICIES.includes(game.tieBreak) ? game.tieBreak : 'shared';
+}
+
+export function getTieBreakLabel(policy: TieBreakPolicy): string {
+  if (policy === 'most-rounds-won') {
+    return 'Más rondas ganadas';
+  }
+
+  if (policy === 'best-last-round') {
+    return 'Mejor última ronda';
+  }
+
+  if (policy === 'fewest-missed-bets') {
+    return 'Menos apuestas erradas';
+  }
+
+  if (policy === 'playoff') {
+    return 'Ronda de desempate';
+  }
+
+  return 'Comparten el puesto';
+}
+
+function getCompetitorRoundDeltas(game: Game): Record<string, number>[] {
+  return replayGame(game).rounds.map((result) => {
+    if (game.teams?.length) {
+      return getRoundTeamDeltas(game, result);
+    }
+
+    const deltas: Record<string, number> = {};
+
+    for (const entry of result.entries) {
+      deltas[entry.playerId] = entry.delta;
+    }
+
+    return deltas;
+  });
+}
+
+function countRoundsWon(game: Game): Record<string, number> {
+  const wins: Record<string, number> = {};
+
+  for (const deltas of getCompetitorRoundDeltas(game)) {
+    const values = Object.values(deltas);
+
+    if (values.length === 0) {
+      continue;
+    }
+
+    const best = values.reduce((a, b) => (compareTotals(game, a, b) <= 0 ? a : b));
+
+    for (const [id, delta] of Object.entries(deltas)) {
+      if (delta === best) {
+        wins[id] = (wins[id] ?? 0) + 1;
+      }
+    }
   }
 
-  return totals;
+  return wins;
+}
+
+function countMissedBets(game: Game): Record<string, number> {
+  const missed: Record<string, number> = {};
+
+  for (const round of getPodridaRounds(game)) {
+    for (const [playerId, tricks] of Object.entries(round.tricksByPlayerId ?? {})) {
+      if (round.betsByPlayerId?.[playerId] !== tricks) {
+        missed[playerId] = (missed[playerId] ?? 0) + 1;
+      }
+    }
+  }
+
+  return missed;
+}
+
+/** Orders two competitors with the same total; 0 when the game's policy can't split them. */
+function createTieBreaker(game: Game): (aId: string, bId: string) => number {
+  const policy = getTieBreakPolicy(game);
+
+  if (policy === 'most-rounds-won') {
+    const wins = countRoundsWon(game);
+    return (aId, bId) => (wins[bId] ?? 0) - (wins[aId] ?? 0);
+  }
+
+  if (policy === 'best-last-round') {
+    const roundDeltas = getCompetitorRoundDeltas(game);
+    const lastDeltas = roundDeltas[roundDeltas.length - 1] ?? {};
+    return (aId, bId) => compareTotals(game, lastDeltas[aId] ?? 0, lastDeltas[bId] ?? 0);
+  }
+
+  if (policy === 'fewest-missed-bets') {
+    const missed = countMissedBets(game);
+    return (aId, bId) => (missed[aId] ?? 0) - (missed[bId] ?? 0);
+  }
+
+  if (policy === 'playoff') {
+    const playoffs = [...(game.playoffs ?? [])].reverse();
+
+    return (aId, bId) => {
+      const playoff = playoffs.find(
+        (current) => aId in current.scoresById && bId in current.scoresById
+      );
+
+      return playoff
+        ? compareTotals(game, playoff.scoresById[aId], playoff.scoresById[bId])
+        : 0;
+    };
+  }
+
+  return () => 0;
+}
+
+/** Sorts with `compare` and gives the same place to competitors it can't tell apart. */
+export function toStandings<T extends { id: string }>(
+  competitors: T[],
+  totals: Record<string, number>,
+  compare: (a: T, b: T) => number
+): Standing<T>[] {
+  const standings: Standing<T>[] = [];
+
+  [...competitors].sort(compare).forEach((competitor, index) => {
+    const previous = standings[index - 1];
+
+    standings.push({
+      competitor,
+      total: totals[competitor.id] ?? 0,
+      place:
+        previous && compare(previous.competitor, competitor) === 0 ? previous.place : index + 1
+    });
+  });
+
+  return standings;
+}
+
+function getStandingsByTotal<T extends { id: string }>(
+  game: Game,
+  competitors: T[],
+  totals: Record<string, number>
+): Standing<T>[] {
+  const breakTie = createTieBreaker(game);
+
+  return toStandings(
+    competitors,
+    totals,
+    (a, b) =>
+      compareTotals(game, totals[a.id] ?? 0, totals[b.id] ?? 0) || breakTie(a.id, b.id)
+  );
+}
+
+export function getPlayerStandings(game: Game): Standing[] {
+  return getStandingsByTotal(game, game.players, getGameTotals(game));
+}
+
+export function getTeamStandings(game: Game): Standing<Team>[] {
+  return getStandingsByTotal(game, game.teams ?? [], getTeamTotals(game));
+}
+
+export function getGameWinners(game: Game): Player[] {
+  if (game.teams?.length) {
+    const winnerTeams = getTeamStandings(game)
+      .filter((standing) => standing.place === 1)
+      .map((standing) => standing.competitor);
+
+    return game.players.filter((player) =>
+      winnerTeams.some((team) => team.playerIds.includes(player.id))
+    );
+  }
+
+  const winnerIds = getPlayerStandings(game)
+    .filter((standing) => standing.place === 1)
+    .map((standing) => standing.competitor.id);
+
+  return game.players.filter((player) => winnerIds.includes(player.id));
+}
+
+export function getTiedCompetitorIds(game: Game): string[] {
+  const standings = game.teams?.length ? getTeamStandings(game) : getPlayerStandings(game);
+
+  return standings
+    .filter((standing) =>
+      standings.some((other) => other !== standing && other.place === standing.place)
+    )
+    .map((standing) => standing.competitor.id);
+}
+
+export function getTeamScoring(game: Pick<Game, 'teamScoring'>): TeamScoring {
+  return game.teamScoring === 'per-player' ? 'per-player' : 'per-team';
+}
+
+export function getTeamScoringLabel(teamScoring: TeamScoring): string {
+  return teamScoring === 'per-player'
+    ? 'Puntaje por jugador (se suma al equipo)'
+    : 'Puntaje por equipo';
+}
+
+export function getPlayerTeam(game: Game, playerId: string): Team | undefined {
+  return game.teams?.find((team) => team.playerIds.includes(playerId));
+}
+
+/** Scored per team, every member holds the team's total; scored per player, members add up. */
+export function getTeamTotals(game: Game): Record<string, number> {
+  const totals = getGameTotals(game);
+  const isScoredPerTeam = getTeamScoring(game) === 'per-team';
+  const teamTotals: Record<string, number> = {};
+
+  for (const team of game.teams ?? []) {
+    teamTotals[team.id] = isScoredPerTeam
+      ? totals[team.playerIds[0]] ?? 0
+      : team.playerIds.reduce((sum, playerId) => sum + (totals[playerId] ?? 0), 0);
+  }
+
+  return teamTotals;
+}
+
+export function getRoundTeamDeltas(game: Game, result: RoundResult): Record<string, number> {
+  const isScoredPerTeam = getTeamScoring(game) === 'per-team';
+  const deltas: Record<string, number> = {};
+
+  for (const entry of result.entries) {
+    const team = getPlayerTeam(game, entry.playerId);
+
+    // Scored per team, every member moved by the same amount as the first one.
+    if (!team || (isScoredPerTeam && team.id in deltas)) {
+      continue;
+    }
+
+    deltas[team.id] = (deltas[team.id] ?? 0) + entry.delta;
+  }
+
+  return deltas;
+}
+
+export function getWinnerNames(game: Game): string[] {
+  const winnerIds = game.winnerIds ?? getGameWinners(game).map((player) => player.id);
+
+  if (game.teams?.length) {
+    return game.teams
+      .filter((team) => team.playerIds.some((playerId) => winnerIds.includes(playerId)))
+      .map((team) => team.name);
+  }
+
+  return game.players
+    .filter((player) => winnerIds.includes(player.id))
+    .map((player) => player.name);
+}
+
+export function getEndConditionLabel(endCondition: EndCondition): string {
+  if (endCondition.type === 'sequence-complete') {
+    return 'Termina al completar la secuencia de cartas';
+  }
+
+  if (endCondition.type === 'round-limit') {
+    return `Termina después de ${endCondition.rounds} rondas`;
+  }
+
+  if (endCondition.type === 'last-player-standing') {
+    return 'Termina cuando queda un solo jugador';
+  }
+
+  if (endCondition.type === 'scorecard-complete') {
+    return 'Termina al completar todas las planillas';
+  }
+
+  return `Termina cuando alguien llega a ${endCondition.target} puntos`;
+}
+
+export function getGameStatusLabel(status: GameStatus): string {
+  if (status === 'archived') {
+    return 'Archivada';
+  }
+
+  return status === 'open' ? 'Abierta' : 'Terminada';
+}
+
+export function getPodridaSettings(game: Game): PodridaSettings {
+  return {
+    ...DEFAULT_PODRIDA_SETTINGS,
+    ...game.podridaSettings
+  };
+}
+
+export function getPodridaRoundScore(
+  bet: number,
+  tricks: number,
+  settings: PodridaSettings
+): number {
+  const trickPoints = tricks * settings.pointsPerTrick;
+  return bet === tricks ? settings.hitBonus + trickPoints : trickPoints;
+}
+
+/** Players whose tricks missed their bet in the direction the round is off: likely typos. */
+export function getSuspectPodridaTricks(
+  cardsCount: number,
+  betsByPlayerId: Record<string, number>,
+  tricksByPlayerId: Record<string, number>
+): string[] {
+  const tricks = Object.values(tricksByPlayerId);
+  const tricksTotal = tricks.reduce((sum, value) => sum + value, 0);
+
+  if (tricksTotal === cardsCount) {
+    return [];
+  }
+
+  return Object.entries(tricksByPlayerId)
+    .filter(([playerId, value]) => {
+      const bet = betsByPlayerId[playerId] ?? 0;
+      return tricksTotal > cardsCount ? value > bet : value < bet;
+    })
+    .map(([playerId]) => playerId);
 }
 
 export function getPodridaRounds(game: Game): Round[] {
   return game.rounds.filter((round) => round.type === 'podrida');
 }
 
-export function getPodridaMaxCards(playersCount: number): number {
+export function getPodridaMaxCards(
+  playersCount: number,
+  deckSize = DEFAULT_PODRIDA_SETTINGS.deckSize
+): number {
   if (playersCount <= 0) {
     return 0;
   }
 
-  return Math.floor(PODRIDA_DECK_SIZE / playersCount);
+  return Math.floor(deckSize / playersCount);
 }
 
-export function getPodridaCardsSequence(playersCount: number): number[] {
-  const maxCards = getPodridaMaxCards(playersCount);
+export function getPodridaCardsSequence(
+  playersCount: number,
+  settings: PodridaSettings = DEFAULT_PODRIDA_SETTINGS
+): number[] {
+  const maxCards = getPodridaMaxCards(playersCount, settings.deckSize);
 
   if (maxCards <= 0) {
     return [];
   }
 
-  const startCards = Math.min(PODRIDA_START_CARDS, maxCards);
+  const startCards = Math.min(settings.startCards, maxCards);
   const ascending: number[] = [];
   const descending: number[] = [];
 
-  for (let cards = startCards; cards <= maxCards; cards += 1) {
+  for (let cards = startCards; cards < maxCards; cards += 1) {
     ascending.push(cards);
   }
 
-  for (let cards = maxCards - 1; cards >= 1; cards -= 1) {
-    descending.push(cards);
+  const maxRounds: number[] = Array(settings.repeatMaxPerPlayer ? playersCount : 1).fill(maxCards);
+
+  if (settings.sequence === 'up-down') {
+    for (let cards = maxCards - 1; cards >= 1; cards -= 1) {
+      descending.push(cards);
+    }
   }
 
-  return [...ascending, ...descending];
+  return [...ascending, ...maxRounds, ...descending];
+}
+
+export function getPodridaSequenceLabel(settings: PodridaSettings): string {
+  const shape = settings.sequence === 'up-only' ? 'solo sube' : 'sube y baja';
+  const repeat = settings.repeatMaxPerPlayer ? ', máximo una vez por jugador' : '';
+  return `Mazo de ${settings.deckSize}, empieza con ${settings.startCards}, ${shape}${repeat}`;
 }
 
 export function getNextPodridaCards(game: Game): number | null {
-  const sequence = getPodridaCardsSequence(game.players.length);
+  const sequence = getPodridaCardsSequence(game.players.length, getPodridaSettings(game));
   const nextCards = sequence[getPodridaRounds(game).length];
   return typeof nextCards === 'number' ? nextCards : null;
 }
 
+export function getSeatingOrder(game: Game): Player[] {
+  const playersById = new Map(game.players.map((player) => [player.id, player]));
+  const seated = (game.seatingOrder ?? [])
+    .map((playerId) => playersById.get(playerId))
+    .filter((player): player is Player => Boolean(player));
+
+  return [...seated, ...game.players.filter((player) => !seated.includes(player))];
+}
+
+export function getDealerForRound(game: Game, roundIndex: number): Player | undefined {
+  const seating = getSeatingOrder(game);
+
+  if (seating.length === 0) {
+    return undefined;
+  }
+
+  const startIndex = Math.max(
+    seating.findIndex((player) => player.id === game.startingDealerId),
+    0
+  );
+
+  return seating[(startIndex + roundIndex) % seating.length];
+}
+
+export function getCurrentDealer(game: Game): Player | undefined {
+  return getDealerForRound(game, game.rounds.length);
+}
+
+/** Turn order for the next round: the player after the dealer starts, the dealer goes last. */
+export function getTurnOrder(game: Game): Player[] {
+  const seating = getSeatingOrder(game);
+  const dealer = getCurrentDealer(game);
+
+  if (!dealer) {
+    return [];
+  }
+
+  const dealerIndex = seating.indexOf(dealer);
+  return [...seating.slice(dealerIndex + 1), ...seating.slice(0, dealerIndex + 1)];
+}
+
+/** The bet that would let every bet be met exactly; null when the rule is off or none applies. */
+export function getForbiddenDealerBet(
+  game: Game,
+  betsByPlayerId: Record<string, number | undefined>
+): number | null {
+  const cardsCount = getNextPodridaCards(game);
+  const dealer = getCurrentDealer(game);
+
+  if (cardsCount === null || !dealer || !getPodridaSettings(game).dealerCannotMatchCards) {
+    return null;
+  }
+
+  let othersTotal = 0;
+
+  for (const player of game.players) {
+    if (player.id === dealer.id) {
+      continue;
+    }
+
+    const bet = betsByPlayerId[player.id];
+
+    if (bet === undefined || !Number.isFinite(bet)) {
+      return null;
+    }
+
+    othersTotal += bet;
+  }
+
+  const forbiddenBet = cardsCount - othersTotal;
+  return forbiddenBet >= 0 && forbiddenBet <= cardsCount ? forbiddenBet : null;
+}
+
 export function getGameDisplayName(game: Game): string {
   if (game.name) {
     return game.name;
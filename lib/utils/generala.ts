@@ -0,0 +1,79 @@
+import { Game, GeneralaCategory, GeneralaRoundDetails } from '@/lib/types';
+
+export const GENERALA_DICE = 5;
+
+export interface GeneralaCategoryRule {
+  category: GeneralaCategory;
+  label: string;
+  /** Set for the 1 to 6 boxes: points are the dice showing it times this face. */
+  face?: number;
+  points?: number;
+  servedPoints?: number;
+}
+
+export const GENERALA_CATEGORIES: GeneralaCategoryRule[] = [
+  { category: 'ones', label: '1', face: 1 },
+  { category: 'twos', label: '2', face: 2 },
+  { category: 'threes', label: '3', face: 3 },
+  { category: 'fours', label: '4', face: 4 },
+  { category: 'fives', label: '5', face: 5 },
+  { category: 'sixes', label: '6', face: 6 },
+  { category: 'straight', label: 'Escalera', points: 20, servedPoints: 25 },
+  { category: 'full-house', label: 'Full', points: 30, servedPoints: 35 },
+  { category: 'four-of-a-kind', label: 'Póker', points: 40, servedPoints: 45 },
+  { category: 'generala', label: 'Generala', points: 50 },
+  { category: 'double-generala', label: 'Doble generala', points: 100 }
+];
+
+export interface GeneralaBox extends GeneralaRoundDetails {
+  value: number;
+}
+
+export type GeneralaScorecard = Record<string, Partial<Record<GeneralaCategory, GeneralaBox>>>;
+
+export function getGeneralaCategoryRule(category: GeneralaCategory): GeneralaCategoryRule | undefined {
+  return GENERALA_CATEGORIES.find((rule) => rule.category === category);
+}
+
+/** Every filled box by player, read from the rounds. */
+export function getGeneralaScorecard(game: Game): GeneralaScorecard {
+  const scorecard: GeneralaScorecard = {};
+
+  for (const player of game.players) {
+    scorecard[player.id] = {};
+  }
+
+  for (const round of game.rounds) {
+    const entry = round.entries[0];
+
+    if (!round.generala || !entry || !scorecard[entry.playerId]) {
+      continue;
+    }
+
+    scorecard[entry.playerId][round.generala.category] = {
+      ...round.generala,
+      value: entry.value
+    };
+  }
+
+  return scorecard;
+}
+
+export function getGeneralaServedWinnerId(game: Game): string | undefined {
+  const round = game.rounds.find(
+    (current) =>
+      current.generala?.category === 'generala' &&
+      current.generala.served &&
+      !current.generala.scratched
+  );
+
+  return round?.entries[0]?.playerId;
+}
+
+export function isGeneralaScorecardFull(game: Game): boolean {
+  const scorecard = getGeneralaScorecard(game);
+
+  return game.players.every((player) =>
+    GENERALA_CATEGORIES.every((rule) => scorecard[player.id]?.[rule.category])
+  );
+}
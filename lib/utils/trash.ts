@@ -0,0 +1,61 @@
+import { Game } from '@/lib/types';
+
+const TRASH_RETENTION_STORAGE_KEY = 'scores-recorder:trash-retention-days';
+
+export const DAY_IN_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 90];
+
+function toSharedRetentionDays(value: string | undefined): number {
+  const days = Number(value);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+// With the server driver every device shares one trash, so its retention is fixed when the app is
+// built instead of being a per-device choice. Read with literal keys so Next.js inlines them.
+const SHARED_TRASH_RETENTION_DAYS =
+  process.env.NEXT_PUBLIC_STORAGE_DRIVER === 'http'
+    ? toSharedRetentionDays(process.env.NEXT_PUBLIC_TRASH_RETENTION_DAYS)
+    : null;
+
+export function isTrashRetentionShared(): boolean {
+  return SHARED_TRASH_RETENTION_DAYS !== null;
+}
+
+export function getTrashRetentionDays(): number {
+  if (SHARED_TRASH_RETENTION_DAYS !== null) {
+    return SHARED_TRASH_RETENTION_DAYS;
+  }
+
+  if (typeof window === 'undefined') {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  try {
+    const stored = Number(window.localStorage.getItem(TRASH_RETENTION_STORAGE_KEY));
+    return TRASH_RETENTION_OPTIONS.includes(stored) ? stored : DEFAULT_TRASH_RETENTION_DAYS;
+  } catch {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+}
+
+export function saveTrashRetentionDays(days: number): void {
+  if (isTrashRetentionShared()) {
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(TRASH_RETENTION_STORAGE_KEY, String(days));
+  } catch {
+    // Ignore storage errors (private mode, quota, etc).
+  }
+}
+
+export function getDaysUntilPurge(game: Game, retentionDays: number, now = new Date()): number {
+  if (!game.deletedAt) {
+    return retentionDays;
+  }
+
+  const expiresAt = new Date(game.deletedAt).getTime() + retentionDays * DAY_IN_MS;
+  return Math.max(0, Math.ceil((expiresAt - now.getTime()) / DAY_IN_MS));
+}
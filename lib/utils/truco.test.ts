@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { getFosforoSquares, getTrucoScoreLabel } from '@/lib/utils/truco';
+
+describe('getTrucoScoreLabel', () => {
+  it('reads a game to 30 as malas up to 15 and buenas after', () => {
+    expect(getTrucoScoreLabel(0, 30)).toBe('0 malas');
+    expect(getTrucoScoreLabel(15, 30)).toBe('15 malas');
+    expect(getTrucoScoreLabel(16, 30)).toBe('1 buenas');
+    expect(getTrucoScoreLabel(30, 30)).toBe('15 buenas');
+  });
+
+  it('reads a game to 15 as plain points', () => {
+    expect(getTrucoScoreLabel(9, 15)).toBe('9 puntos');
+  });
+});
+
+describe('getFosforoSquares', () => {
+  it('groups the points in squares of five', () => {
+    expect(getFosforoSquares(0, 30)).toEqual([]);
+    expect(getFosforoSquares(5, 30)).toEqual([5]);
+    expect(getFosforoSquares(12, 30)).toEqual([5, 5, 2]);
+  });
+
+  it('stops drawing at the target', () => {
+    expect(getFosforoSquares(18, 15)).toEqual([5, 5, 5]);
+    expect(getFosforoSquares(-3, 15)).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { Game, TrucoSettings } from '@/lib/types';
+
+export const TRUCO_TARGETS = [15, 30];
+export const TRUCO_PLAYER_COUNTS = [2, 4, 6];
+
+export const DEFAULT_TRUCO_SETTINGS: TrucoSettings = {
+  target: 30
+};
+
+export interface TrucoQuickAdd {
+  label: string;
+  points: number;
+}
+
+export const TRUCO_QUICK_ADDS: TrucoQuickAdd[] = [
+  { label: 'Envido', points: 2 },
+  { label: 'Real envido', points: 3 },
+  { label: 'Truco', points: 2 },
+  { label: 'Retruco', points: 3 },
+  { label: 'Vale cuatro', points: 4 },
+  { label: 'Flor', points: 3 },
+  { label: 'No quiero', points: 1 }
+];
+
+/** Matches drawn per fósforo square: four sides and the diagonal. */
+export const FOSFOROS_PER_SQUARE = 5;
+
+export function getTrucoSettings(game: Game): TrucoSettings {
+  return {
+    ...DEFAULT_TRUCO_SETTINGS,
+    ...game.trucoSettings
+  };
+}
+
+/** At 30 the score is read in halves: up to 15 "malas", then 1 to 15 "buenas". */
+export function getTrucoScoreLabel(points: number, target: number): string {
+  const half = target / 2;
+
+  if (target !== 30 || points <= half) {
+    return target === 30 ? `${points} malas` : `${points} puntos`;
+  }
+
+  return `${points - half} buenas`;
+}
+
+/** Sticks in each square of the tally, capped at the target. */
+export function getFosforoSquares(points: number, target: number): number[] {
+  const squares: number[] = [];
+  let remaining = Math.max(0, Math.min(points, target));
+
+  while (remaining > 0) {
+    squares.push(Math.min(remaining, FOSFOROS_PER_SQUARE));
+    remaining -= FOSFOROS_PER_SQUARE;
+  }
+
+  return squares;
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSessionValue, isSameSecret, SESSION_COOKIE } from '@/lib/server/session';
+import { ApiErrorBody, GAMES_API_PATH, SESSION_API_PATH } from '@/lib/storage/api-contract';
+
+// With the server driver every page and API route needs the session cookie set by
+// `app/api/session`. With the browser driver the API doesn't exist.
+
+const LOGIN_PATH = '/login';
+
+function toErrorResponse(error: string, status: number): NextResponse<ApiErrorBody> {
+  return NextResponse.json({ error }, { status });
+}
+
+async function hasSession(request: NextRequest, apiToken: string): Promise<boolean> {
+  const session = request.cookies.get(SESSION_COOKIE)?.value;
+  return Boolean(session) && isSameSecret(session ?? '', await createSessionValue(apiToken));
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const isApiRequest = pathname.startsWith(GAMES_API_PATH) || pathname === SESSION_API_PATH;
+
+  if (process.env.NEXT_PUBLIC_STORAGE_DRIVER !== 'http') {
+    return isApiRequest ? toErrorResponse('La API no está habilitada.', 404) : NextResponse.next();
+  }
+
+  const apiToken = process.env.SCORES_API_TOKEN;
+
+  if (!apiToken) {
+    console.error('SCORES_API_TOKEN is not set; the app rejects every request.');
+    return toErrorResponse('La app no está configurada.', 503);
+  }
+
+  if (pathname === LOGIN_PATH || pathname === SESSION_API_PATH) {
+    return NextResponse.next();
+  }
+
+  if (await hasSession(request, apiToken)) {
+    return NextResponse.next();
+  }
+
+  if (isApiRequest) {
+    return toErrorResponse('Tu sesión expiró. Vuelve a ingresar la clave.', 401);
+  }
+
+  const loginUrl = new URL(LOGIN_PATH, request.url);
+  loginUrl.searchParams.set('next', pathname);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Static files stay public so the login page and the PWA shell can load.
+  matcher: ['/((?!_next/|icon|apple-icon|manifest.webmanifest|sw.js).*)']
+};